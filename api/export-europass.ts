@@ -0,0 +1,74 @@
+/**
+ * Vercel Serverless Function for Europass XML Export
+ */
+
+import { validateResume } from '../dist/validators/resume-validator.js';
+import { renderResumeToEuropassXml } from '../dist/renderer/europass-renderer.js';
+import type { Resume } from '../dist/types/resume.types.js';
+import type { ValidationError } from '../dist/types/validation.types.js';
+
+interface ExportEuropassRequest {
+  resume: unknown;
+}
+
+export default async function handler(req: any, res: any) {
+  // Handle CORS preflight
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  // Only allow POST
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const body = req.body as ExportEuropassRequest;
+
+    // Validate resume data
+    const validationResult = validateResume(body.resume);
+
+    if (!validationResult.isValid) {
+      const errors = validationResult.errors.map((err: ValidationError) => ({
+        field: err.field,
+        message: err.message,
+        type: err.type,
+      }));
+
+      return res.status(400).json({
+        error: 'Resume validation failed',
+        validationErrors: errors,
+      });
+    }
+
+    const { xml, warnings, validation } = renderResumeToEuropassXml(body.resume as Resume);
+
+    // Output must match the bundled schema; a mismatch is an exporter bug
+    if (!validation.isValid) {
+      console.error('Europass XML failed schema validation:', validation.errors);
+
+      return res.status(500).json({
+        error: 'Europass XML failed schema validation',
+        validationErrors: validation.errors.map((err: ValidationError) => ({
+          field: err.field,
+          message: err.message,
+          type: err.type,
+        })),
+      });
+    }
+
+    return res.status(200).json({ xml, warnings });
+
+  } catch (error) {
+    console.error('Europass export error:', error);
+
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
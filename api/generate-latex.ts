@@ -0,0 +1,84 @@
+/**
+ * Vercel Serverless Function for LaTeX Generation
+ */
+
+import { validateResume } from '../dist/validators/resume-validator.js';
+import { transformResumeToDocumentWithOrder } from '../dist/transformers/resume-to-document.transformer.js';
+import { renderDocumentToLaTeX } from '../dist/renderer/latex-renderer.js';
+import type { Resume } from '../dist/types/resume.types.js';
+import type { ValidationError } from '../dist/types/validation.types.js';
+
+interface GenerateLaTeXRequest {
+  resume: unknown;
+  sectionOrder?: string[];
+  fontProfile?: 'sans' | 'serif' | 'mono';
+  densityPreset?: 'normal' | 'compact' | 'ultra-compact';
+}
+
+export default async function handler(req: any, res: any) {
+  // Handle CORS preflight
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  // Only allow POST
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const body = req.body as GenerateLaTeXRequest;
+
+    // Validate resume data
+    const validationResult = validateResume(body.resume);
+
+    if (!validationResult.isValid) {
+      const errors = validationResult.errors.map((err: ValidationError) => ({
+        field: err.field,
+        message: err.message,
+        type: err.type,
+      }));
+
+      return res.status(400).json({
+        error: 'Resume validation failed',
+        validationErrors: errors,
+      });
+    }
+
+    // Validate font and density settings if provided
+    if (body.fontProfile && !['sans', 'serif', 'mono'].includes(body.fontProfile)) {
+      return res.status(400).json({ error: 'Invalid fontProfile. Must be: sans, serif, or mono' });
+    }
+
+    if (body.densityPreset && !['normal', 'compact', 'ultra-compact'].includes(body.densityPreset)) {
+      return res.status(400).json({ error: 'Invalid densityPreset. Must be: normal, compact, or ultra-compact' });
+    }
+
+    const resume = body.resume as Resume;
+    const fontProfile = body.fontProfile || 'sans';
+    const densityPreset = body.densityPreset || 'normal';
+
+    // Transform resume to document
+    const document = transformResumeToDocumentWithOrder(resume, body.sectionOrder);
+
+    // Render to LaTeX source
+    const latex = renderDocumentToLaTeX(document, fontProfile, densityPreset);
+
+    res.setHeader('Content-Type', 'application/x-tex; charset=utf-8');
+    res.setHeader('Content-Disposition', 'attachment; filename="resume.tex"');
+
+    return res.status(200).send(latex);
+
+  } catch (error) {
+    console.error('LaTeX generation error:', error);
+
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -3,16 +3,48 @@
  */
 
 import { validateResume } from '../dist/validators/resume-validator.js';
+import { validatePdfDocumentInfo } from '../dist/validators/field-validators.js';
 import { transformResumeToDocumentWithOrder } from '../dist/transformers/resume-to-document.transformer.js';
-import { renderDocumentToPDFWithMetadata } from '../dist/renderer/pdf-renderer.js';
+import {
+  renderDocumentToPDFWithMetadata,
+  findUnsupportedCharacters,
+  PdfTextLayerError,
+} from '../dist/renderer/pdf-renderer.js';
+import { buildPdfDocumentInfo } from '../dist/renderer/pdf-metadata.js';
+import { decodeEmbeddedFonts } from '../dist/renderer/embedded-fonts.js';
+import { renderDocumentToPDFFitted } from '../dist/renderer/pdf-fit.js';
+import {
+  MARGIN_LIMITS,
+  FIT_CONFIG,
+  EMBEDDED_FONT_LIMITS,
+  isValidPageSize,
+  isValidPageMargins,
+  isValidFitToPages,
+  isValidTextAlignment,
+  type PageSize,
+  type PageMargins,
+  type TextAlignment,
+} from '../dist/renderer/renderer-config.js';
+import { DEFAULT_VALIDATION_LIMITS } from '../dist/types/validation.types.js';
 import type { Resume } from '../dist/types/resume.types.js';
 import type { ValidationError } from '../dist/types/validation.types.js';
+import type { PdfDocumentInfo } from '../dist/types/pdf-metadata.types.js';
 
 interface GeneratePDFRequest {
   resume: unknown;
   sectionOrder?: string[];
   fontProfile?: 'sans' | 'serif' | 'mono';
   densityPreset?: 'normal' | 'compact' | 'ultra-compact';
+  pdfA?: boolean;
+  metadata?: PdfDocumentInfo;
+  embedSource?: boolean;
+  pageSize?: PageSize;
+  margins?: Partial<PageMargins>;
+  fitToPages?: number;
+  runningHeader?: boolean;
+  textAlign?: TextAlignment;
+  hyphenate?: boolean;
+  fonts?: { main: string; bold: string; italic?: string }; // Base64 TrueType files
 }
 
 export default async function handler(req: any, res: any) {
@@ -49,19 +81,134 @@ export default async function handler(req: any, res: any) {
       });
     }
 
+    // Validate font and density settings if provided
+    if (body.fontProfile && !['sans', 'serif', 'mono'].includes(body.fontProfile)) {
+      return res.status(400).json({ error: 'Invalid fontProfile. Must be: sans, serif, or mono' });
+    }
+
+    if (body.densityPreset && !['normal', 'compact', 'ultra-compact'].includes(body.densityPreset)) {
+      return res.status(400).json({ error: 'Invalid densityPreset. Must be: normal, compact, or ultra-compact' });
+    }
+
+    // Validate output options if provided
+    if (body.pdfA !== undefined && typeof body.pdfA !== 'boolean') {
+      return res.status(400).json({ error: 'Invalid pdfA. Must be a boolean' });
+    }
+
+    if (body.embedSource !== undefined && typeof body.embedSource !== 'boolean') {
+      return res.status(400).json({ error: 'Invalid embedSource. Must be a boolean' });
+    }
+
+    if (body.runningHeader !== undefined && typeof body.runningHeader !== 'boolean') {
+      return res.status(400).json({ error: 'Invalid runningHeader. Must be a boolean' });
+    }
+
+    // Decode user-supplied fonts if provided
+    const embeddedFonts = body.fonts === undefined ? undefined : decodeEmbeddedFonts(body.fonts);
+    if (embeddedFonts === null) {
+      return res.status(400).json({
+        error: `Invalid fonts. Must be an object with main, bold and optional italic TrueType or OpenType files, base64 encoded, up to ${EMBEDDED_FONT_LIMITS.maxFileBytes / (1024 * 1024)} MB each`,
+      });
+    }
+
+    // Validate paragraph layout if provided
+    if (body.textAlign !== undefined && !isValidTextAlignment(body.textAlign)) {
+      return res.status(400).json({ error: 'Invalid textAlign. Must be: left or justify' });
+    }
+
+    if (body.hyphenate !== undefined && typeof body.hyphenate !== 'boolean') {
+      return res.status(400).json({ error: 'Invalid hyphenate. Must be a boolean' });
+    }
+
+    // Validate page layout if provided
+    if (body.pageSize !== undefined && !isValidPageSize(body.pageSize)) {
+      return res.status(400).json({ error: 'Invalid pageSize. Must be: letter, a4, or legal' });
+    }
+
+    if (body.margins !== undefined && !isValidPageMargins(body.margins)) {
+      return res.status(400).json({
+        error: `Invalid margins. Must be an object with top, right, bottom and left between ${MARGIN_LIMITS.min} and ${MARGIN_LIMITS.max} points`,
+      });
+    }
+
+    if (body.fitToPages !== undefined && !isValidFitToPages(body.fitToPages)) {
+      return res.status(400).json({
+        error: `Invalid fitToPages. Must be an integer between 1 and ${FIT_CONFIG.maxTargetPages}`,
+      });
+    }
+
+    // Validate metadata overrides if provided
+    if (body.metadata !== undefined) {
+      const metadataResult = validatePdfDocumentInfo(body.metadata, DEFAULT_VALIDATION_LIMITS);
+
+      if (!metadataResult.isValid) {
+        return res.status(400).json({
+          error: 'Invalid metadata',
+          validationErrors: metadataResult.errors.map((err: ValidationError) => ({
+            field: err.field,
+            message: err.message,
+            type: err.type,
+          })),
+        });
+      }
+    }
+
     const resume = body.resume as Resume;
     const sectionOrder = body.sectionOrder;
     const fontProfile = body.fontProfile || 'sans';
     const densityPreset = body.densityPreset || 'normal';
+    const pdfA = body.pdfA === true;
+    const source = body.embedSource === false ? undefined : { resume, sectionOrder, fitToPages: body.fitToPages };
 
     // Transform resume to document
     const document = transformResumeToDocumentWithOrder(resume, sectionOrder);
 
-    // Render to PDF
+    // Characters the PDF fonts have no glyphs for would drop out of the PDF
+    const unsupported = findUnsupportedCharacters(document, fontProfile, { pdfA, embeddedFonts });
+    if (unsupported.length > 0) {
+      return res.status(400).json({
+        error: 'Resume validation failed',
+        validationErrors: [{
+          type: 'INVALID_FORMAT',
+          field: 'resume',
+          message: `The ${embeddedFonts ? 'supplied' : fontProfile} PDF font has no glyphs for: ${unsupported.join(' ')}`,
+        }],
+      });
+    }
+
+    const renderOptions = {
+      pdfA,
+      info: buildPdfDocumentInfo(resume, body.metadata),
+      source,
+      pageSize: body.pageSize,
+      margins: body.margins,
+      runningHeader: body.runningHeader,
+      textAlign: body.textAlign,
+      hyphenate: body.hyphenate,
+      embeddedFonts,
+    };
+
+    // Render to PDF; fit mode also reports the settings it chose
+    if (body.fitToPages !== undefined) {
+      const result = await renderDocumentToPDFFitted(document, body.fitToPages, fontProfile, densityPreset, renderOptions);
+      const { margins } = result.settings;
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', 'attachment; filename="resume.pdf"');
+      res.setHeader('X-PDF-Page-Count', result.pageCount.toString());
+      res.setHeader('X-PDF-Fit-Target-Met', result.fitted.toString());
+      res.setHeader('X-PDF-Density-Preset', result.settings.densityPreset);
+      res.setHeader('X-PDF-Spacing-Scale', result.settings.spacingScale.toString());
+      res.setHeader('X-PDF-Margins', [margins.top, margins.right, margins.bottom, margins.left].join(','));
+
+      return res.status(200).send(Buffer.from(result.buffer));
+    }
+
     const { buffer: pdfBuffer, pageCount } = await renderDocumentToPDFWithMetadata(
       document,
       fontProfile,
-      densityPreset
+      densityPreset,
+      renderOptions
     );
 
     // Return PDF with page count header
@@ -74,6 +221,13 @@ export default async function handler(req: any, res: any) {
   } catch (error) {
     console.error('PDF generation error:', error);
 
+    if (error instanceof PdfTextLayerError) {
+      return res.status(500).json({
+        error: 'PDF rendering failed',
+        message: 'The rendered PDF text layer did not match the resume content',
+      });
+    }
+
     return res.status(500).json({
       error: 'Internal server error',
       message: error instanceof Error ? error.message : 'Unknown error',
@@ -0,0 +1,80 @@
+/**
+ * Vercel Serverless Function for Plain-Text Generation
+ */
+
+import { validateResume } from '../dist/validators/resume-validator.js';
+import { transformResumeToDocumentWithOrder } from '../dist/transformers/resume-to-document.transformer.js';
+import { renderDocumentToText } from '../dist/renderer/text-renderer.js';
+import { TEXT_CONFIG, isValidWrapColumn } from '../dist/renderer/renderer-config.js';
+import type { Resume } from '../dist/types/resume.types.js';
+import type { ValidationError } from '../dist/types/validation.types.js';
+
+interface GenerateTextRequest {
+  resume: unknown;
+  sectionOrder?: string[];
+  wrapColumn?: number;
+}
+
+export default async function handler(req: any, res: any) {
+  // Handle CORS preflight
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  // Only allow POST
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const body = req.body as GenerateTextRequest;
+
+    // Validate wrapColumn if provided
+    if (body.wrapColumn !== undefined && !isValidWrapColumn(body.wrapColumn)) {
+      return res.status(400).json({
+        error: `Invalid wrapColumn. Must be an integer between ${TEXT_CONFIG.minWrapColumn} and ${TEXT_CONFIG.maxWrapColumn}`,
+      });
+    }
+
+    // Validate resume data
+    const validationResult = validateResume(body.resume);
+
+    if (!validationResult.isValid) {
+      const errors = validationResult.errors.map((err: ValidationError) => ({
+        field: err.field,
+        message: err.message,
+        type: err.type,
+      }));
+
+      return res.status(400).json({
+        error: 'Resume validation failed',
+        validationErrors: errors,
+      });
+    }
+
+    const resume = body.resume as Resume;
+
+    // Transform resume to document
+    const document = transformResumeToDocumentWithOrder(resume, body.sectionOrder);
+
+    // Render to plain text
+    const text = renderDocumentToText(document, { wrapColumn: body.wrapColumn });
+
+    res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+    res.setHeader('Content-Disposition', 'attachment; filename="resume.txt"');
+
+    return res.status(200).send(text);
+
+  } catch (error) {
+    console.error('Text generation error:', error);
+
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
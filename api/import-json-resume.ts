@@ -0,0 +1,62 @@
+/**
+ * Vercel Serverless Function for JSON Resume Import
+ */
+
+import { importJsonResume } from '../dist/importers/json-resume-adapter.js';
+import { isStructureSafe } from '../dist/utils/depth-check.js';
+import { DEFAULT_VALIDATION_LIMITS } from '../dist/types/validation.types.js';
+import type { ValidationError } from '../dist/types/validation.types.js';
+
+interface ImportJsonResumeRequest {
+  jsonResume: unknown;
+}
+
+export default async function handler(req: any, res: any) {
+  // Handle CORS preflight
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  // Only allow POST
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const body = req.body as ImportJsonResumeRequest;
+
+    if (!body?.jsonResume || typeof body.jsonResume !== 'object') {
+      return res.status(400).json({ error: 'Missing required field: jsonResume' });
+    }
+
+    // Reject nested or prototype-polluting structures before reading them
+    if (!isStructureSafe(body.jsonResume, DEFAULT_VALIDATION_LIMITS.maxObjectDepth)) {
+      return res.status(400).json({ error: 'JSON Resume structure is unsafe or too deeply nested' });
+    }
+
+    // Convert; validation errors are returned so the user can fix them in the editor
+    const { resume, validation, warnings } = importJsonResume(body.jsonResume);
+
+    return res.status(200).json({
+      resume,
+      warnings,
+      validationErrors: validation.errors.map((err: ValidationError) => ({
+        field: err.field,
+        message: err.message,
+        type: err.type,
+      })),
+    });
+
+  } catch (error) {
+    console.error('JSON Resume import error:', error);
+
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
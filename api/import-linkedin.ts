@@ -0,0 +1,66 @@
+/**
+ * Vercel Serverless Function for QuickCV LinkedIn Export Import
+ */
+
+import { importLinkedInExport } from '../dist/importers/linkedin-importer.js';
+import type { ValidationError } from '../dist/types/validation.types.js';
+
+/**
+ * Read the raw request body when the platform has not buffered it
+ */
+async function readRawBody(req: any): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+export default async function handler(req: any, res: any) {
+  // Handle CORS preflight
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  // Only allow POST
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    if (!String(req.headers['content-type'] ?? '').includes('application/zip')) {
+      return res.status(400).json({ error: 'Content-Type must be application/zip' });
+    }
+
+    const zip: Buffer = Buffer.isBuffer(req.body) ? req.body : await readRawBody(req);
+
+    const result = importLinkedInExport(zip);
+
+    if (!result) {
+      return res.status(400).json({ error: 'ZIP is not a LinkedIn data export' });
+    }
+
+    // Validation errors are returned so the user can fix them in the editor
+    return res.status(200).json({
+      resume: result.resume,
+      warnings: result.warnings,
+      validationErrors: result.validation.errors.map((err: ValidationError) => ({
+        field: err.field,
+        message: err.message,
+        type: err.type,
+      })),
+    });
+
+  } catch (error) {
+    console.error('LinkedIn import error:', error);
+
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
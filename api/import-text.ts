@@ -0,0 +1,57 @@
+/**
+ * Vercel Serverless Function for Plain-Text Resume Import
+ */
+
+import { parseResumeText } from '../dist/importers/text-importer.js';
+import type { ValidationError } from '../dist/types/validation.types.js';
+
+interface ImportTextRequest {
+  text: unknown;
+}
+
+export default async function handler(req: any, res: any) {
+  // Handle CORS preflight
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  // Only allow POST
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const body = req.body as ImportTextRequest;
+
+    if (typeof body?.text !== 'string' || body.text.trim() === '') {
+      return res.status(400).json({ error: 'Missing required field: text' });
+    }
+
+    // Convert; validation errors are returned so the user can fix them in the editor
+    const { resume, sectionOrder, validation, warnings, confidence } = parseResumeText(body.text);
+
+    return res.status(200).json({
+      resume,
+      sectionOrder,
+      warnings,
+      confidence,
+      validationErrors: validation.errors.map((err: ValidationError) => ({
+        field: err.field,
+        message: err.message,
+        type: err.type,
+      })),
+    });
+
+  } catch (error) {
+    console.error('Plain-text import error:', error);
+
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
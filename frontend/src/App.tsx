@@ -8,12 +8,21 @@ import { ExperienceForm } from './components/ExperienceForm';
 import { ProjectsForm } from './components/ProjectsForm';
 import { SkillsForm } from './components/SkillsForm';
 import { SummaryForm } from './components/SummaryForm';
-import type { ContactInfo, DensityPreset, Education, FontProfile, ProfessionalSummary, Project, Resume, SectionKey, Skills, WorkExperience } from './types';
+import type { ContactInfo, DensityPreset, Education, FieldConfidence, FontProfile, ImportWarning, PageMargins, PageSize, ProfessionalSummary, Project, Resume, SectionKey, Skills, TextAlignment, TextDirection, WorkExperience } from './types';
 
 const STORAGE_KEY = 'quickcv_resume_data';
 const SAVE_INTERVAL = 10000; // 10 seconds
 const API_URL = import.meta.env.VITE_API_URL || '/api';
 
+// Page margins: 0.75 inch default, 0.25 to 2 inches allowed (matches the backend)
+const DEFAULT_MARGINS: PageMargins = { top: 54, right: 54, bottom: 54, left: 54 };
+const MARGIN_MIN = 18;
+const MARGIN_MAX = 144;
+const MARGIN_SIDES = ['top', 'right', 'bottom', 'left'] as const;
+
+// Margin inputs use millimetres for A4 and inches for US sizes
+const POINTS_PER_UNIT = { in: 72, mm: 72 / 25.4 };
+
 // Load from localStorage or return default
 function loadFromStorage<T>(key: string, defaultValue: T): T {
   try {
@@ -68,6 +77,45 @@ function validateResumeStructure(data: any): { isValid: boolean; errors: string[
   return { isValid: errors.length === 0, errors };
 }
 
+// Detect a JSON Resume (jsonresume.org) file, which is converted by the backend
+function isJsonResumeFile(data: unknown): data is Record<string, unknown> {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return false;
+  const record = data as Record<string, unknown>;
+  return !!record.basics && typeof record.basics === 'object' && !('contact' in record);
+}
+
+// Resume data as loaded from a file or an import endpoint
+type LoadedResumeData = Resume & {
+  sectionOrder?: string[];
+  fontProfile?: string;
+  densityPreset?: string;
+  pageSize?: string;
+  margins?: Partial<Record<keyof PageMargins, unknown>>;
+  fitToPages?: number;
+  runningHeader?: boolean;
+  textAlign?: string;
+  hyphenate?: boolean;
+};
+
+// Format conversion warnings, validation errors and uncertain fields for display
+function formatConversionNotes(
+  warnings: ImportWarning[],
+  validationErrors: ImportWarning[] = [],
+  uncertainFields: FieldConfidence[] = []
+): string {
+  const notes: string[] = [];
+  if (warnings.length > 0) {
+    notes.push('Not converted:\n' + warnings.map(w => `- ${w.field}: ${w.message}`).join('\n'));
+  }
+  if (validationErrors.length > 0) {
+    notes.push('Needs fixing:\n' + validationErrors.map(e => `- ${e.field}: ${e.message}`).join('\n'));
+  }
+  if (uncertainFields.length > 0) {
+    notes.push('Please check:\n' + uncertainFields.map(c => `- ${c.field}: ${c.reason}`).join('\n'));
+  }
+  return notes.join('\n\n');
+}
+
 // Get effective section order based on combined setting
 function getEffectiveSectionOrder(baseOrder: SectionKey[], combined: boolean): string[] {
   console.log('getEffectiveSectionOrder called with:', { baseOrder, combined });
@@ -175,9 +223,37 @@ function App() {
     loadFromStorage('combinedExperienceProjects', false)
   );
 
+  const [direction, setDirection] = useState<TextDirection>(() =>
+    loadFromStorage('direction', 'ltr')
+  );
+
+  const [pageSize, setPageSize] = useState<PageSize>(() =>
+    loadFromStorage('pageSize', 'letter')
+  );
+
+  const [margins, setMargins] = useState<PageMargins>(() =>
+    loadFromStorage('margins', DEFAULT_MARGINS)
+  );
+
+  const [fitToOnePage, setFitToOnePage] = useState<boolean>(() =>
+    loadFromStorage('fitToOnePage', false)
+  );
+
+  const [runningHeader, setRunningHeader] = useState<boolean>(() =>
+    loadFromStorage('runningHeader', true)
+  );
+
+  const [textAlign, setTextAlign] = useState<TextAlignment>(() =>
+    loadFromStorage('textAlign', 'left')
+  );
+
+  const [hyphenate, setHyphenate] = useState<boolean>(() =>
+    loadFromStorage('hyphenate', false)
+  );
+
   const [expandedAccordion, setExpandedAccordion] = useState<SectionKey | null>('contact');
   const [isAppearanceOpen, setIsAppearanceOpen] = useState(false);
-  const [appearanceTab, setAppearanceTab] = useState<'font' | 'density' | 'layout'>('font');
+  const [appearanceTab, setAppearanceTab] = useState<'font' | 'density' | 'page' | 'layout'>('font');
 
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving'>('idle');
   const [lastSaveTime, setLastSaveTime] = useState<number | null>(null);
@@ -195,6 +271,13 @@ function App() {
   const fontProfileRef = useRef(fontProfile);
   const densityPresetRef = useRef(densityPreset);
   const combinedExperienceProjectsRef = useRef(combinedExperienceProjects);
+  const directionRef = useRef(direction);
+  const pageSizeRef = useRef(pageSize);
+  const marginsRef = useRef(margins);
+  const fitToOnePageRef = useRef(fitToOnePage);
+  const runningHeaderRef = useRef(runningHeader);
+  const textAlignRef = useRef(textAlign);
+  const hyphenateRef = useRef(hyphenate);
 
   // Keep refs in sync with state
   useEffect(() => { contactRef.current = contact; }, [contact]);
@@ -207,6 +290,13 @@ function App() {
   useEffect(() => { fontProfileRef.current = fontProfile; }, [fontProfile]);
   useEffect(() => { densityPresetRef.current = densityPreset; }, [densityPreset]);
   useEffect(() => { combinedExperienceProjectsRef.current = combinedExperienceProjects; }, [combinedExperienceProjects]);
+  useEffect(() => { directionRef.current = direction; }, [direction]);
+  useEffect(() => { pageSizeRef.current = pageSize; }, [pageSize]);
+  useEffect(() => { marginsRef.current = margins; }, [margins]);
+  useEffect(() => { fitToOnePageRef.current = fitToOnePage; }, [fitToOnePage]);
+  useEffect(() => { runningHeaderRef.current = runningHeader; }, [runningHeader]);
+  useEffect(() => { textAlignRef.current = textAlign; }, [textAlign]);
+  useEffect(() => { hyphenateRef.current = hyphenate; }, [hyphenate]);
 
   // Handle appearance panel close on outside click or Escape key
   useEffect(() => {
@@ -265,11 +355,12 @@ function App() {
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [previewError, setPreviewError] = useState<string | null>(null);
   const [previewPageCount, setPreviewPageCount] = useState<number | null>(null);
+  const [previewFitNote, setPreviewFitNote] = useState<string | null>(null);
 
   // Mark as changed whenever state updates
   useEffect(() => {
     hasChangesRef.current = true;
-  }, [contact, summary, experience, education, skills, projects, sectionOrder, fontProfile, previewState]);
+  }, [contact, summary, experience, education, skills, projects, sectionOrder, fontProfile, direction, pageSize, margins, fitToOnePage, runningHeader, textAlign, hyphenate, previewState]);
 
   // Update relative time message every second (stop after 1 minute)
   useEffect(() => {
@@ -308,6 +399,13 @@ function App() {
           fontProfile: fontProfileRef.current,
           densityPreset: densityPresetRef.current,
           combinedExperienceProjects: combinedExperienceProjectsRef.current,
+          direction: directionRef.current,
+          pageSize: pageSizeRef.current,
+          margins: marginsRef.current,
+          fitToOnePage: fitToOnePageRef.current,
+          runningHeader: runningHeaderRef.current,
+          textAlign: textAlignRef.current,
+          hyphenate: hyphenateRef.current,
         };
         const dataString = JSON.stringify(data);
 
@@ -357,6 +455,7 @@ function App() {
         skills,
         projects,
         combinedExperienceProjects,
+        direction,
       };
 
       const effectiveOrder = getEffectiveSectionOrder(sectionOrder, combinedExperienceProjects);
@@ -366,6 +465,12 @@ function App() {
         sectionOrder: effectiveOrder,
         fontProfile,
         densityPreset,
+        pageSize,
+        margins,
+        fitToPages: fitToOnePage ? 1 : undefined,
+        runningHeader,
+        textAlign,
+        hyphenate,
       };
 
       setPreviewState('loading');
@@ -398,11 +503,19 @@ function App() {
         const parsedCount = pageCountHeader ? parseInt(pageCountHeader, 10) : null;
         const pageCount = parsedCount && parsedCount > 0 ? parsedCount : null;
 
+        // Auto-fit reports the density and spacing it chose
+        const fitDensity = response.headers.get('X-PDF-Density-Preset');
+        const fitSpacing = parseFloat(response.headers.get('X-PDF-Spacing-Scale') ?? '');
+        const fitNote = fitDensity && !Number.isNaN(fitSpacing)
+          ? `Auto-fit: ${fitDensity}, ${Math.round(fitSpacing * 100)}% spacing`
+          : null;
+
         // Create new preview
         const blob = await response.blob();
         const url = window.URL.createObjectURL(blob);
         setPreviewUrl(url);
         setPreviewPageCount(pageCount);
+        setPreviewFitNote(fitNote);
         setPreviewState('ready');
       } catch (error) {
         console.error('Preview error:', error);
@@ -412,7 +525,7 @@ function App() {
     };
 
     generateLivePreview();
-  }, [contact, summary, experience, education, skills, projects, sectionOrder, fontProfile, densityPreset, combinedExperienceProjects]);
+  }, [contact, summary, experience, education, skills, projects, sectionOrder, fontProfile, densityPreset, combinedExperienceProjects, direction, pageSize, margins, fitToOnePage, runningHeader, textAlign, hyphenate]);
 
   const handleGeneratePDF = async () => {
     // Build resume JSON (matching v1 schema)
@@ -424,6 +537,7 @@ function App() {
       skills,
       projects,
       combinedExperienceProjects,
+      direction,
     };
 
     const effectiveOrder = getEffectiveSectionOrder(sectionOrder, combinedExperienceProjects);
@@ -439,6 +553,12 @@ function App() {
           sectionOrder: effectiveOrder,
           fontProfile,
           densityPreset,
+          pageSize,
+          margins,
+          fitToPages: fitToOnePage ? 1 : undefined,
+          runningHeader,
+          textAlign,
+          hyphenate,
         }),
       });
 
@@ -485,8 +605,15 @@ function App() {
       projects,
       sectionOrder,
       combinedExperienceProjects,
+      direction,
       fontProfile,
       densityPreset,
+      pageSize,
+      margins,
+      fitToPages: fitToOnePage ? 1 : undefined,
+      runningHeader,
+      textAlign,
+      hyphenate,
     };
 
     // Convert to JSON string
@@ -504,6 +631,297 @@ function App() {
     document.body.removeChild(a);
   };
 
+  const handleExportJsonResume = async () => {
+    setIsMenuOpen(false);
+
+    const resume: Resume = {
+      contact,
+      summary,
+      experience,
+      education,
+      skills,
+      projects,
+      combinedExperienceProjects,
+      direction,
+    };
+
+    try {
+      const response = await fetch(`${API_URL}/export-json-resume`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ resume }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        console.error('JSON Resume export failed:', result);
+        alert(`Error: ${result.error}\n${result.validationErrors ? formatConversionNotes([], result.validationErrors) : ''}`);
+        return;
+      }
+
+      // Create blob and download
+      const blob = new Blob([JSON.stringify(result.jsonResume, null, 2)], { type: 'application/json' });
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = 'resume.json';
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+
+      if (result.warnings.length > 0) {
+        alert(`Exported as JSON Resume.\n\n${formatConversionNotes(result.warnings)}`);
+      }
+    } catch (error) {
+      console.error('Error:', error);
+      alert('Failed to export JSON Resume. Make sure the backend server is running.');
+    }
+  };
+
+  const handleExportEuropass = async () => {
+    setIsMenuOpen(false);
+
+    const resume: Resume = {
+      contact,
+      summary,
+      experience,
+      education,
+      skills,
+      projects,
+      combinedExperienceProjects,
+      direction,
+    };
+
+    try {
+      const response = await fetch(`${API_URL}/export-europass`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ resume }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        console.error('Europass export failed:', result);
+        alert(`Error: ${result.error}\n${result.validationErrors ? formatConversionNotes([], result.validationErrors) : ''}`);
+        return;
+      }
+
+      // Create blob and download
+      const blob = new Blob([result.xml], { type: 'application/xml' });
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = 'europass-cv.xml';
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+
+      if (result.warnings.length > 0) {
+        alert(`Exported as Europass XML.\n\n${formatConversionNotes(result.warnings)}`);
+      }
+    } catch (error) {
+      console.error('Error:', error);
+      alert('Failed to export Europass XML. Make sure the backend server is running.');
+    }
+  };
+
+  const handleExportVCard = async () => {
+    setIsMenuOpen(false);
+
+    const resume: Resume = {
+      contact,
+      summary,
+      experience,
+      education,
+      skills,
+      projects,
+      combinedExperienceProjects,
+      direction,
+    };
+
+    try {
+      const response = await fetch(`${API_URL}/generate-vcard`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ resume }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        console.error('vCard export failed:', error);
+        alert(`Error: ${error.error}\n${error.validationErrors ? formatConversionNotes([], error.validationErrors) : ''}`);
+        return;
+      }
+
+      // Create blob and download
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = 'contact.vcf';
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      console.error('Error:', error);
+      alert('Failed to export vCard. Make sure the backend server is running.');
+    }
+  };
+
+  // Confirm and load resume data read from a file or an import endpoint
+  const loadResumeData = (data: LoadedResumeData, sourceNote: string, conversionNotes: string, sourceLabel: string) => {
+    // Validate using simple client-side check
+    const validationResult = validateResumeStructure(data);
+
+    if (!validationResult.isValid) {
+      const errorMsg = validationResult.errors.join('\n');
+      alert(`Validation failed:\n\n${errorMsg}`);
+      return;
+    }
+
+    // Ask for confirmation before overwriting
+    const confirmed = window.confirm(
+      'This will replace all current resume data.\n\n' +
+      (sourceNote ? `${sourceNote}\n\n` : '') +
+      (conversionNotes ? `${conversionNotes}\n\n` : '') +
+      `Are you sure you want to load this ${sourceLabel}?`
+    );
+
+    if (!confirmed) {
+      return;
+    }
+
+    // Load data into state
+    const resume: Resume = data;
+    setContact(resume.contact);
+    setSummary(resume.summary);
+    setExperience(resume.experience || []);
+    setEducation(resume.education || []);
+    setSkills(resume.skills || { skills: [] });
+    setProjects(resume.projects || []);
+
+    // Load section order if present, otherwise use default
+    if (data.sectionOrder && Array.isArray(data.sectionOrder)) {
+      // Ensure sectionOrder only contains base sections (no experienceProjects)
+      const baseOrder = data.sectionOrder.filter((s: string) => s !== 'experienceProjects');
+      // If experienceProjects was in order but experience/projects are missing, add them
+      if (data.sectionOrder.includes('experienceProjects')) {
+        if (!baseOrder.includes('experience')) baseOrder.push('experience');
+        if (!baseOrder.includes('projects')) baseOrder.push('projects');
+      }
+      setSectionOrder(baseOrder as SectionKey[]);
+    }
+
+    // Load combinedExperienceProjects flag if present
+    if (typeof data.combinedExperienceProjects === 'boolean') {
+      setCombinedExperienceProjects(data.combinedExperienceProjects);
+    }
+
+    // Load text direction, defaulting to left-to-right for files saved without one
+    setDirection(data.direction === 'rtl' ? 'rtl' : 'ltr');
+
+    // Load font and density settings if present
+    if (data.fontProfile && ['sans', 'serif', 'mono'].includes(data.fontProfile)) {
+      setFontProfile(data.fontProfile as FontProfile);
+    }
+    if (data.densityPreset && ['normal', 'compact', 'ultra-compact'].includes(data.densityPreset)) {
+      setDensityPreset(data.densityPreset as DensityPreset);
+    }
+
+    // Load page size and margins if present
+    if (data.pageSize && ['letter', 'a4', 'legal'].includes(data.pageSize)) {
+      setPageSize(data.pageSize as PageSize);
+    }
+    if (data.margins && typeof data.margins === 'object') {
+      const loaded = { ...DEFAULT_MARGINS };
+      MARGIN_SIDES.forEach(side => {
+        const value = data.margins?.[side];
+        if (typeof value === 'number' && value >= MARGIN_MIN && value <= MARGIN_MAX) {
+          loaded[side] = value;
+        }
+      });
+      setMargins(loaded);
+    }
+
+    // Load fit-to-page setting if present
+    if (typeof data.fitToPages === 'number') {
+      setFitToOnePage(data.fitToPages === 1);
+    }
+
+    // Load running header setting if present
+    if (typeof data.runningHeader === 'boolean') {
+      setRunningHeader(data.runningHeader);
+    }
+
+    // Load paragraph alignment and hyphenation if present
+    if (data.textAlign && ['left', 'justify'].includes(data.textAlign)) {
+      setTextAlign(data.textAlign as TextAlignment);
+    }
+    if (typeof data.hyphenate === 'boolean') {
+      setHyphenate(data.hyphenate);
+    }
+
+    alert('Resume loaded successfully!');
+  };
+
+  const handlePasteText = async () => {
+    setIsMenuOpen(false);
+
+    let text: string;
+    try {
+      text = await navigator.clipboard.readText();
+    } catch {
+      alert('Error: Clipboard access was denied. Allow clipboard access and try again.');
+      return;
+    }
+
+    if (!text.trim()) {
+      alert('Error: Clipboard is empty. Copy your resume text first.');
+      return;
+    }
+
+    try {
+      // Build a draft resume from the pasted text via the backend
+      const response = await fetch(`${API_URL}/import-text`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ text }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        console.error('Text import failed:', result);
+        alert(`Error: ${result.error}`);
+        return;
+      }
+
+      const uncertainFields = (result.confidence as FieldConfidence[]).filter(c => c.confidence === 'low');
+      loadResumeData(
+        { ...result.resume, sectionOrder: result.sectionOrder },
+        'Draft built from pasted text.',
+        formatConversionNotes(result.warnings, result.validationErrors, uncertainFields),
+        'pasted text'
+      );
+    } catch (error) {
+      console.error('Error importing text:', error);
+      alert('Failed to import pasted text. Make sure the backend server is running.');
+    }
+  };
+
   const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -511,79 +929,130 @@ function App() {
     // Reset input to allow re-uploading same file
     event.target.value = '';
 
-    if (!file.name.endsWith('.json')) {
-      alert('Error: Please select a .json file');
+    const isPdf = file.name.toLowerCase().endsWith('.pdf');
+    const isZip = file.name.toLowerCase().endsWith('.zip');
+    const fileKind = isPdf ? 'PDF' : isZip ? 'ZIP' : 'JSON';
+
+    if (!file.name.endsWith('.json') && !isPdf && !isZip) {
+      alert('Error: Please select a .json, QuickCV .pdf or LinkedIn export .zip file');
       return;
     }
 
     try {
-      const text = await file.text();
-      const data = JSON.parse(text);
+      let data;
+      let sourceNote = '';
+      let conversionNotes = '';
 
-      // Validate using simple client-side check
-      const validationResult = validateResumeStructure(data);
+      if (isPdf) {
+        // Restore the resume JSON embedded in QuickCV PDFs via the backend
+        const response = await fetch(`${API_URL}/import-pdf`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/pdf',
+          },
+          body: file,
+        });
 
-      if (!validationResult.isValid) {
-        const errorMsg = validationResult.errors.join('\n');
-        alert(`Validation failed:\n\n${errorMsg}`);
-        return;
-      }
+        const result = await response.json();
 
-      // Ask for confirmation before overwriting
-      const confirmed = window.confirm(
-        'This will replace all current resume data.\n\n' +
-        'Are you sure you want to load this JSON file?'
-      );
+        if (!response.ok) {
+          console.error('PDF import failed:', result);
+          alert(`Error: ${result.error}`);
+          return;
+        }
 
-      if (!confirmed) {
-        return;
-      }
+        data = {
+          ...result.resume,
+          sectionOrder: result.sectionOrder,
+          fontProfile: result.fontProfile,
+          densityPreset: result.densityPreset,
+          pageSize: result.pageSize,
+          margins: result.margins,
+          fitToPages: result.fitToPages,
+          runningHeader: result.runningHeader,
+          textAlign: result.textAlign,
+          hyphenate: result.hyphenate,
+        };
+        sourceNote = 'Restored from QuickCV PDF.';
+        conversionNotes = formatConversionNotes(result.warnings, result.validationErrors);
+      } else if (isZip) {
+        // Map LinkedIn's data export archive to the QuickCV schema via the backend
+        const response = await fetch(`${API_URL}/import-linkedin`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/zip',
+          },
+          body: file,
+        });
+
+        const result = await response.json();
 
-      // Load data into state
-      const resume = data as Resume;
-      setContact(resume.contact);
-      setSummary(resume.summary);
-      setExperience(resume.experience || []);
-      setEducation(resume.education || []);
-      setSkills(resume.skills || { skills: [] });
-      setProjects(resume.projects || []);
-
-      // Load section order if present, otherwise use default
-      if (data.sectionOrder && Array.isArray(data.sectionOrder)) {
-        // Ensure sectionOrder only contains base sections (no experienceProjects)
-        const baseOrder = data.sectionOrder.filter((s: string) => s !== 'experienceProjects');
-        // If experienceProjects was in order but experience/projects are missing, add them
-        if (data.sectionOrder.includes('experienceProjects')) {
-          if (!baseOrder.includes('experience')) baseOrder.push('experience');
-          if (!baseOrder.includes('projects')) baseOrder.push('projects');
+        if (!response.ok) {
+          console.error('LinkedIn import failed:', result);
+          alert(`Error: ${result.error}`);
+          return;
         }
-        setSectionOrder(baseOrder);
-      }
 
-      // Load combinedExperienceProjects flag if present
-      if (typeof data.combinedExperienceProjects === 'boolean') {
-        setCombinedExperienceProjects(data.combinedExperienceProjects);
+        data = result.resume;
+        sourceNote = 'Imported from LinkedIn data export.';
+        conversionNotes = formatConversionNotes(result.warnings, result.validationErrors);
+      } else {
+        data = JSON.parse(await file.text());
       }
 
-      // Load font and density settings if present
-      if (data.fontProfile && ['sans', 'serif', 'mono'].includes(data.fontProfile)) {
-        setFontProfile(data.fontProfile);
-      }
-      if (data.densityPreset && ['normal', 'compact', 'ultra-compact'].includes(data.densityPreset)) {
-        setDensityPreset(data.densityPreset);
+      // Convert JSON Resume files to the QuickCV schema via the backend
+      if (!isPdf && !isZip && isJsonResumeFile(data)) {
+        const response = await fetch(`${API_URL}/import-json-resume`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ jsonResume: data }),
+        });
+
+        const result = await response.json();
+
+        if (!response.ok) {
+          console.error('JSON Resume import failed:', result);
+          alert(`Error: ${result.error}`);
+          return;
+        }
+
+        data = result.resume;
+        sourceNote = 'Converted from JSON Resume.';
+        conversionNotes = formatConversionNotes(result.warnings, result.validationErrors);
       }
 
-      alert('Resume loaded successfully!');
+      loadResumeData(data, sourceNote, conversionNotes, `${fileKind} file`);
     } catch (error) {
       if (error instanceof SyntaxError) {
         alert('Error: Invalid JSON file');
       } else {
-        console.error('Error loading JSON:', error);
-        alert('Error: Failed to load JSON file');
+        console.error('Error loading file:', error);
+        alert(`Error: Failed to load ${fileKind} file`);
       }
     }
   };
 
+  // Margin inputs: values are stored in points and shown in the page size's unit
+  const marginUnit = pageSize === 'a4' ? 'mm' : 'in';
+
+  const toMarginUnit = (points: number) => {
+    const value = points / POINTS_PER_UNIT[marginUnit];
+    return marginUnit === 'mm' ? Math.round(value * 10) / 10 : Math.round(value * 100) / 100;
+  };
+
+  const handleMarginChange = (side: keyof PageMargins, input: string) => {
+    const value = parseFloat(input);
+    if (Number.isNaN(value)) {
+      setMargins({ ...margins });
+      return;
+    }
+    // Clamp to the allowed range; the input resets to the stored value on re-render
+    const points = Math.round(value * POINTS_PER_UNIT[marginUnit] * 100) / 100;
+    setMargins({ ...margins, [side]: Math.min(MARGIN_MAX, Math.max(MARGIN_MIN, points)) });
+  };
+
   // Section reordering functions
   const moveSectionUp = (section: SectionKey) => {
     const currentIndex = sectionOrder.indexOf(section);
@@ -676,11 +1145,23 @@ function App() {
           {isMenuOpen && (
             <div className="dropdown-menu">
               <button className="dropdown-item" onClick={handleLoadJSON}>
-                Load JSON
+                Load JSON / PDF / LinkedIn ZIP
+              </button>
+              <button className="dropdown-item" onClick={handlePasteText}>
+                Paste Resume Text
               </button>
               <button className="dropdown-item" onClick={handleExportJSON}>
                 Export JSON
               </button>
+              <button className="dropdown-item" onClick={handleExportJsonResume}>
+                Export JSON Resume
+              </button>
+              <button className="dropdown-item" onClick={handleExportEuropass}>
+                Export Europass XML
+              </button>
+              <button className="dropdown-item" onClick={handleExportVCard}>
+                Export vCard
+              </button>
             </div>
           )}
         </div>
@@ -688,7 +1169,7 @@ function App() {
         <input
           ref={fileInputRef}
           type="file"
-          accept=".json"
+          accept=".json,.pdf,.zip"
           onChange={handleFileChange}
           style={{ display: 'none' }}
         />
@@ -934,6 +1415,7 @@ function App() {
                     <>
                       <span className="status-icon">✓</span>
                       <span>Fits on 1 page — Ready for ATS systems</span>
+                      {previewFitNote && <span className="help-text-inline">{previewFitNote}</span>}
                     </>
                   ) : (
                     <>
@@ -1008,6 +1490,12 @@ function App() {
             >
               Layout Density
             </button>
+            <button
+              className={`appearance-tab ${appearanceTab === 'page' ? 'active' : ''}`}
+              onClick={() => setAppearanceTab('page')}
+            >
+              Page
+            </button>
             <button
               className={`appearance-tab ${appearanceTab === 'layout' ? 'active' : ''}`}
               onClick={() => setAppearanceTab('layout')}
@@ -1056,63 +1544,209 @@ function App() {
             )}
 
             {appearanceTab === 'density' && (
-              <div className="radio-group">
-                <label className="radio-label">
-                  <input
-                    type="radio"
-                    name="densityPreset"
-                    value="normal"
-                    checked={densityPreset === 'normal'}
-                    onChange={(e) => setDensityPreset(e.target.value as DensityPreset)}
-                  />
-                  <span>Normal</span>
-                  <span className="help-text-inline">Comfortable spacing</span>
-                </label>
-                <label className="radio-label">
-                  <input
-                    type="radio"
-                    name="densityPreset"
-                    value="compact"
-                    checked={densityPreset === 'compact'}
-                    onChange={(e) => setDensityPreset(e.target.value as DensityPreset)}
-                  />
-                  <span>Compact</span>
-                  <span className="help-text-inline">Tighter spacing</span>
-                </label>
-                <label className="radio-label">
-                  <input
-                    type="radio"
-                    name="densityPreset"
-                    value="ultra-compact"
-                    checked={densityPreset === 'ultra-compact'}
-                    onChange={(e) => setDensityPreset(e.target.value as DensityPreset)}
-                  />
-                  <span>Ultra-Compact</span>
-                  <span className="help-text-inline">Maximum density</span>
-                </label>
-              </div>
+              <>
+                <div className="radio-group">
+                  <label className="radio-label">
+                    <input
+                      type="radio"
+                      name="densityPreset"
+                      value="normal"
+                      checked={densityPreset === 'normal'}
+                      onChange={(e) => setDensityPreset(e.target.value as DensityPreset)}
+                    />
+                    <span>Normal</span>
+                    <span className="help-text-inline">Comfortable spacing</span>
+                  </label>
+                  <label className="radio-label">
+                    <input
+                      type="radio"
+                      name="densityPreset"
+                      value="compact"
+                      checked={densityPreset === 'compact'}
+                      onChange={(e) => setDensityPreset(e.target.value as DensityPreset)}
+                    />
+                    <span>Compact</span>
+                    <span className="help-text-inline">Tighter spacing</span>
+                  </label>
+                  <label className="radio-label">
+                    <input
+                      type="radio"
+                      name="densityPreset"
+                      value="ultra-compact"
+                      checked={densityPreset === 'ultra-compact'}
+                      onChange={(e) => setDensityPreset(e.target.value as DensityPreset)}
+                    />
+                    <span>Ultra-Compact</span>
+                    <span className="help-text-inline">Maximum density</span>
+                  </label>
+                </div>
+
+                <div className="checkbox-group">
+                  <label className="checkbox-label">
+                    <input
+                      type="checkbox"
+                      checked={fitToOnePage}
+                      onChange={(e) => setFitToOnePage(e.target.checked)}
+                    />
+                    <div>
+                      <span>Fit to One Page</span>
+                      <p className="help-text-block">
+                        Starting from the density above, tighten margins, spacing and density until the resume fits on one page.
+                      </p>
+                    </div>
+                  </label>
+                </div>
+              </>
+            )}
+
+            {appearanceTab === 'page' && (
+              <>
+                <div className="radio-group">
+                  <label className="radio-label">
+                    <input
+                      type="radio"
+                      name="pageSize"
+                      value="letter"
+                      checked={pageSize === 'letter'}
+                      onChange={(e) => setPageSize(e.target.value as PageSize)}
+                    />
+                    <span>Letter</span>
+                    <span className="help-text-inline">8.5 × 11 in</span>
+                  </label>
+                  <label className="radio-label">
+                    <input
+                      type="radio"
+                      name="pageSize"
+                      value="a4"
+                      checked={pageSize === 'a4'}
+                      onChange={(e) => setPageSize(e.target.value as PageSize)}
+                    />
+                    <span>A4</span>
+                    <span className="help-text-inline">210 × 297 mm</span>
+                  </label>
+                  <label className="radio-label">
+                    <input
+                      type="radio"
+                      name="pageSize"
+                      value="legal"
+                      checked={pageSize === 'legal'}
+                      onChange={(e) => setPageSize(e.target.value as PageSize)}
+                    />
+                    <span>Legal</span>
+                    <span className="help-text-inline">8.5 × 14 in</span>
+                  </label>
+                </div>
+
+                <div className="margin-grid">
+                  {MARGIN_SIDES.map(side => (
+                    <label key={side} className="margin-field">
+                      <span>{side[0].toUpperCase() + side.slice(1)} ({marginUnit})</span>
+                      <input
+                        key={`${marginUnit}-${margins[side]}`}
+                        type="number"
+                        step={marginUnit === 'mm' ? 1 : 0.05}
+                        min={toMarginUnit(MARGIN_MIN)}
+                        max={toMarginUnit(MARGIN_MAX)}
+                        defaultValue={toMarginUnit(margins[side])}
+                        onBlur={(e) => handleMarginChange(side, e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') e.currentTarget.blur();
+                        }}
+                      />
+                    </label>
+                  ))}
+                </div>
+
+                <div className="checkbox-group">
+                  <label className="checkbox-label">
+                    <input
+                      type="checkbox"
+                      checked={runningHeader}
+                      onChange={(e) => setRunningHeader(e.target.checked)}
+                    />
+                    <div>
+                      <span>Running Header</span>
+                      <p className="help-text-block">
+                        Print your name and "Page 2 of 3" at the top of every page after the first.
+                      </p>
+                    </div>
+                  </label>
+                </div>
+              </>
             )}
 
             {appearanceTab === 'layout' && (
-              <div className="checkbox-group">
-                <label className="checkbox-label">
-                  <input
-                    type="checkbox"
-                    checked={combinedExperienceProjects}
-                    onChange={(e) => {
-                      console.log('Toggle changed to:', e.target.checked);
-                      setCombinedExperienceProjects(e.target.checked);
-                    }}
-                  />
-                  <div>
-                    <span>Combine Experience & Projects</span>
-                    <p className="help-text-block">
-                      Merge work experience and projects into a single "Experience & Projects" section.
-                      You can reorder individual entries in each form.
-                    </p>
-                  </div>
-                </label>
-              </div>
+              <>
+                <div className="checkbox-group">
+                  <label className="checkbox-label">
+                    <input
+                      type="checkbox"
+                      checked={combinedExperienceProjects}
+                      onChange={(e) => {
+                        console.log('Toggle changed to:', e.target.checked);
+                        setCombinedExperienceProjects(e.target.checked);
+                      }}
+                    />
+                    <div>
+                      <span>Combine Experience & Projects</span>
+                      <p className="help-text-block">
+                        Merge work experience and projects into a single "Experience & Projects" section.
+                        You can reorder individual entries in each form.
+                      </p>
+                    </div>
+                  </label>
+                </div>
+
+                <div className="checkbox-group">
+                  <label className="checkbox-label">
+                    <input
+                      type="checkbox"
+                      checked={direction === 'rtl'}
+                      onChange={(e) => setDirection(e.target.checked ? 'rtl' : 'ltr')}
+                    />
+                    <div>
+                      <span>Right-to-Left Layout</span>
+                      <p className="help-text-block">
+                        For resumes written in Arabic or Hebrew: text is right-aligned and bullets
+                        sit on the right.
+                      </p>
+                    </div>
+                  </label>
+                </div>
+
+                <div className="checkbox-group">
+                  <label className="checkbox-label">
+                    <input
+                      type="checkbox"
+                      checked={textAlign === 'justify'}
+                      onChange={(e) => setTextAlign(e.target.checked ? 'justify' : 'left')}
+                    />
+                    <div>
+                      <span>Justify Text</span>
+                      <p className="help-text-block">
+                        Line up the summary and bullets with both margins for an even right edge.
+                      </p>
+                    </div>
+                  </label>
+                </div>
+
+                <div className="checkbox-group">
+                  <label className="checkbox-label">
+                    <input
+                      type="checkbox"
+                      checked={hyphenate}
+                      onChange={(e) => setHyphenate(e.target.checked)}
+                    />
+                    <div>
+                      <span>Hyphenate</span>
+                      <p className="help-text-block">
+                        Break long words at line ends to fit more on each line. Job portals still
+                        read whole words.
+                      </p>
+                    </div>
+                  </label>
+                </div>
+              </>
             )}
           </div>
         </div>
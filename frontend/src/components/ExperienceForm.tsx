@@ -140,7 +140,7 @@ export function ExperienceForm({ data, onChange }: ExperienceFormProps) {
             <label>
               Description <span className="required">*</span>
             </label>
-            <p className="help-text">Add bullet points describing your responsibilities and achievements</p>
+            <p className="help-text">Add bullet points describing your responsibilities and achievements. Use **bold** or _italic_ for emphasis</p>
             
             {exp.description.map((bullet, bulletIndex) => (
               <div key={bulletIndex} className="bullet-item">
@@ -108,7 +108,7 @@ export function ProjectsForm({ data, onChange }: ProjectsFormProps) {
             <label>
               Description <span className="required">*</span>
             </label>
-            <p className="help-text">Add bullet points describing the project</p>
+            <p className="help-text">Add bullet points describing the project. Use **bold** or _italic_ for emphasis</p>
             
             {project.description.map((bullet, bulletIndex) => (
               <div key={bulletIndex} className="bullet-item">
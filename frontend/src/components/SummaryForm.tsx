@@ -27,7 +27,7 @@ export function SummaryForm({ data, onChange }: SummaryFormProps) {
           required
         />
         <small className="help-text">
-          Brief professional summary highlighting your experience and expertise
+          Brief professional summary highlighting your experience and expertise. Use **bold** or _italic_ for emphasis
         </small>
       </div>
     </section>
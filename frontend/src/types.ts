@@ -56,10 +56,37 @@ export interface Resume {
   skills: Skills;
   projects: Project[];
   combinedExperienceProjects?: boolean;
+  direction?: TextDirection;
 }
 
 export type SectionKey = 'contact' | 'summary' | 'experience' | 'education' | 'skills' | 'projects' | 'experienceProjects';
 
 export type FontProfile = 'sans' | 'serif' | 'mono';
 
+export type TextDirection = 'ltr' | 'rtl';
+
 export type DensityPreset = 'normal' | 'compact' | 'ultra-compact';
+
+export interface ImportWarning {
+  field: string;
+  message: string;
+}
+
+export interface FieldConfidence {
+  field: string;
+  confidence: 'high' | 'medium' | 'low';
+  reason: string;
+}
+
+export type PageSize = 'letter' | 'a4' | 'legal';
+
+// Alignment of paragraphs and bullets in the PDF
+export type TextAlignment = 'left' | 'justify';
+
+// Page margins in points (72 per inch)
+export interface PageMargins {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
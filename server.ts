@@ -6,13 +6,49 @@
  */
 
 import { validateResume } from './dist/validators/resume-validator.js';
+import { validatePdfDocumentInfo } from './dist/validators/field-validators.js';
 import { transformResumeToDocumentWithOrder } from './dist/transformers/resume-to-document.transformer.js';
-import { renderDocumentToPDFWithMetadata } from './dist/renderer/pdf-renderer.js';
+import {
+  renderDocumentToPDFWithMetadata,
+  findUnsupportedCharacters,
+  PdfTextLayerError,
+} from './dist/renderer/pdf-renderer.js';
+import { buildPdfDocumentInfo } from './dist/renderer/pdf-metadata.js';
+import { decodeEmbeddedFonts } from './dist/renderer/embedded-fonts.js';
+import { renderDocumentToPDFFitted } from './dist/renderer/pdf-fit.js';
+import { renderDocumentToText } from './dist/renderer/text-renderer.js';
+import { renderDocumentToHTML } from './dist/renderer/html-renderer.js';
+import { renderDocumentToLaTeX } from './dist/renderer/latex-renderer.js';
+import { renderContactToVCard } from './dist/renderer/vcard-renderer.js';
+import { importJsonResume, exportJsonResume } from './dist/importers/json-resume-adapter.js';
+import { importResumeFromPdf } from './dist/importers/pdf-source-importer.js';
+import { importLinkedInExport } from './dist/importers/linkedin-importer.js';
+import { parseResumeText } from './dist/importers/text-importer.js';
+import { renderResumeToEuropassXml } from './dist/renderer/europass-renderer.js';
+import { isStructureSafe } from './dist/utils/depth-check.js';
+import { DEFAULT_VALIDATION_LIMITS } from './dist/types/validation.types.js';
+import {
+  TEXT_CONFIG,
+  MARGIN_LIMITS,
+  FIT_CONFIG,
+  EMBEDDED_FONT_LIMITS,
+  isValidWrapColumn,
+  isValidPageSize,
+  isValidPageMargins,
+  isValidFitToPages,
+  isValidTextAlignment,
+  type PageSize,
+  type PageMargins,
+  type TextAlignment,
+} from './dist/renderer/renderer-config.js';
 import type { Resume } from './dist/types/resume.types.js';
 import type { ValidationError } from './dist/types/validation.types.js';
+import type { PdfDocumentInfo } from './dist/types/pdf-metadata.types.js';
 
 const PORT = 3000;
 const MAX_REQUEST_SIZE = 1024 * 1024; // 1MB
+const MAX_ARCHIVE_SIZE = 4 * 1024 * 1024; // 4MB, LinkedIn export ZIPs
+const MAX_PDF_REQUEST_SIZE = 48 * 1024 * 1024; // 48MB, PDF requests carrying base64 fonts
 
 /**
  * Request body interface
@@ -22,6 +58,80 @@ interface GeneratePDFRequest {
   sectionOrder?: string[];
   fontProfile?: 'sans' | 'serif' | 'mono';
   densityPreset?: 'normal' | 'compact' | 'ultra-compact';
+  pdfA?: boolean;
+  metadata?: PdfDocumentInfo; // Overrides for Title, Author, Subject, Keywords
+  embedSource?: boolean; // Attach resume JSON for re-import (default true)
+  pageSize?: PageSize; // 'letter', 'a4' or 'legal' (default 'letter')
+  margins?: Partial<PageMargins>; // Margins in points (default 54 each)
+  fitToPages?: number; // Compact density, spacing and margins until the PDF fits this many pages
+  runningHeader?: boolean; // Name and page number on pages after the first (default true)
+  textAlign?: TextAlignment; // Paragraphs and bullets: 'left' or 'justify' (default 'left')
+  hyphenate?: boolean; // Hyphenate long words in paragraphs and bullets (default false)
+  fonts?: { main: string; bold: string; italic?: string }; // Base64 TrueType files to embed instead of DejaVu
+}
+
+/**
+ * Plain-text request body interface
+ */
+interface GenerateTextRequest {
+  resume: unknown;
+  sectionOrder?: string[];
+  wrapColumn?: number;
+}
+
+/**
+ * HTML request body interface
+ */
+interface GenerateHTMLRequest {
+  resume: unknown;
+  sectionOrder?: string[];
+  fontProfile?: 'sans' | 'serif' | 'mono';
+  densityPreset?: 'normal' | 'compact' | 'ultra-compact';
+}
+
+/**
+ * LaTeX request body interface
+ */
+interface GenerateLaTeXRequest {
+  resume: unknown;
+  sectionOrder?: string[];
+  fontProfile?: 'sans' | 'serif' | 'mono';
+  densityPreset?: 'normal' | 'compact' | 'ultra-compact';
+}
+
+/**
+ * vCard request body interface
+ */
+interface GenerateVCardRequest {
+  resume: unknown;
+}
+
+/**
+ * JSON Resume import request body interface
+ */
+interface ImportJsonResumeRequest {
+  jsonResume: unknown;
+}
+
+/**
+ * Plain-text import request body interface
+ */
+interface ImportTextRequest {
+  text: unknown;
+}
+
+/**
+ * JSON Resume export request body interface
+ */
+interface ExportJsonResumeRequest {
+  resume: unknown;
+}
+
+/**
+ * Europass export request body interface
+ */
+interface ExportEuropassRequest {
+  resume: unknown;
 }
 
 /**
@@ -58,7 +168,22 @@ async function handleGeneratePDF(request: Request): Promise<Response> {
       );
     }
     
-    const { resume, sectionOrder, fontProfile, densityPreset } = body;
+    const {
+      resume,
+      sectionOrder,
+      fontProfile,
+      densityPreset,
+      pdfA,
+      metadata,
+      embedSource,
+      pageSize,
+      margins,
+      fitToPages,
+      runningHeader,
+      textAlign,
+      hyphenate,
+      fonts,
+    } = body;
     
     if (!resume) {
       return new Response(
@@ -83,6 +208,104 @@ async function handleGeneratePDF(request: Request): Promise<Response> {
       );
     }
     
+    // Validate pdfA if provided
+    if (pdfA !== undefined && typeof pdfA !== 'boolean') {
+      return new Response(
+        JSON.stringify({ error: 'Invalid pdfA. Must be a boolean' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    // Validate embedSource if provided
+    if (embedSource !== undefined && typeof embedSource !== 'boolean') {
+      return new Response(
+        JSON.stringify({ error: 'Invalid embedSource. Must be a boolean' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    // Validate runningHeader if provided
+    if (runningHeader !== undefined && typeof runningHeader !== 'boolean') {
+      return new Response(
+        JSON.stringify({ error: 'Invalid runningHeader. Must be a boolean' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    // Decode user-supplied fonts if provided
+    const embeddedFonts = fonts === undefined ? undefined : decodeEmbeddedFonts(fonts);
+    if (embeddedFonts === null) {
+      return new Response(
+        JSON.stringify({
+          error: `Invalid fonts. Must be an object with main, bold and optional italic TrueType or OpenType files, base64 encoded, up to ${EMBEDDED_FONT_LIMITS.maxFileBytes / (1024 * 1024)} MB each`,
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    // Validate textAlign if provided
+    if (textAlign !== undefined && !isValidTextAlignment(textAlign)) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid textAlign. Must be: left or justify' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    // Validate hyphenate if provided
+    if (hyphenate !== undefined && typeof hyphenate !== 'boolean') {
+      return new Response(
+        JSON.stringify({ error: 'Invalid hyphenate. Must be a boolean' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    // Validate pageSize if provided
+    if (pageSize !== undefined && !isValidPageSize(pageSize)) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid pageSize. Must be: letter, a4, or legal' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    // Validate margins if provided
+    if (margins !== undefined && !isValidPageMargins(margins)) {
+      return new Response(
+        JSON.stringify({
+          error: `Invalid margins. Must be an object with top, right, bottom and left between ${MARGIN_LIMITS.min} and ${MARGIN_LIMITS.max} points`,
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    // Validate fitToPages if provided
+    if (fitToPages !== undefined && !isValidFitToPages(fitToPages)) {
+      return new Response(
+        JSON.stringify({
+          error: `Invalid fitToPages. Must be an integer between 1 and ${FIT_CONFIG.maxTargetPages}`,
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    // Validate metadata overrides if provided
+    if (metadata !== undefined) {
+      const metadataResult = validatePdfDocumentInfo(metadata, DEFAULT_VALIDATION_LIMITS);
+      
+      if (!metadataResult.isValid) {
+        return new Response(
+          JSON.stringify({
+            error: 'Invalid metadata',
+            validationErrors: metadataResult.errors.map((err: ValidationError) => ({
+              type: err.type,
+              field: err.field,
+              message: err.message,
+            })),
+          }),
+          { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+        );
+      }
+    }
+    
     // Step 1: Validate resume (v1 validation)
     const validationResult = validateResume(resume);
     
@@ -103,12 +326,63 @@ async function handleGeneratePDF(request: Request): Promise<Response> {
     // Step 2: Transform with section ordering (v2 feature)
     const document = transformResumeToDocumentWithOrder(resume as Resume, sectionOrder);
     
+    // Characters the PDF fonts have no glyphs for would drop out of the PDF
+    const unsupported = findUnsupportedCharacters(document, fontProfile || 'sans', { pdfA: pdfA === true, embeddedFonts });
+    if (unsupported.length > 0) {
+      return new Response(
+        JSON.stringify({
+          error: 'Resume validation failed',
+          validationErrors: [{
+            type: 'INVALID_FORMAT',
+            field: 'resume',
+            message: `The ${embeddedFonts ? 'supplied' : fontProfile || 'sans'} PDF font has no glyphs for: ${unsupported.join(' ')}`,
+          }],
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
     // Step 3: Render to PDF with font profile, density preset, and get metadata
-    const { buffer: pdfBuffer, pageCount } = await renderDocumentToPDFWithMetadata(
-      document,
-      fontProfile || 'sans',
-      densityPreset || 'normal'
-    );
+    const renderOptions = {
+      pdfA: pdfA === true,
+      info: buildPdfDocumentInfo(resume as Resume, metadata),
+      source: embedSource === false ? undefined : { resume: resume as Resume, sectionOrder, fitToPages },
+      pageSize,
+      margins,
+      runningHeader,
+      textAlign,
+      hyphenate,
+      embeddedFonts,
+    };
+    
+    // Fit mode searches for compact settings and reports the ones it chose
+    let fitHeaders: Record<string, string> = {};
+    let pdfBuffer: Buffer;
+    let pageCount: number;
+    if (fitToPages !== undefined) {
+      const result = await renderDocumentToPDFFitted(
+        document,
+        fitToPages,
+        fontProfile || 'sans',
+        densityPreset || 'normal',
+        renderOptions
+      );
+      ({ buffer: pdfBuffer, pageCount } = result);
+      const { densityPreset: fitDensity, spacingScale, margins: fitMargins } = result.settings;
+      fitHeaders = {
+        'X-PDF-Fit-Target-Met': result.fitted.toString(),
+        'X-PDF-Density-Preset': fitDensity,
+        'X-PDF-Spacing-Scale': spacingScale.toString(),
+        'X-PDF-Margins': [fitMargins.top, fitMargins.right, fitMargins.bottom, fitMargins.left].join(','),
+      };
+    } else {
+      ({ buffer: pdfBuffer, pageCount } = await renderDocumentToPDFWithMetadata(
+        document,
+        fontProfile || 'sans',
+        densityPreset || 'normal',
+        renderOptions
+      ));
+    }
     
     // Step 4: Return PDF with page count header
     return new Response(new Uint8Array(pdfBuffer), {
@@ -118,12 +392,22 @@ async function handleGeneratePDF(request: Request): Promise<Response> {
         'Content-Disposition': 'attachment; filename="resume.pdf"',
         'Content-Length': pdfBuffer.length.toString(),
         'X-PDF-Page-Count': pageCount.toString(),
+        ...fitHeaders,
         ...CORS_HEADERS,
       },
     });
     
   } catch (error) {
     console.error('Error generating PDF:', error);
+    if (error instanceof PdfTextLayerError) {
+      return new Response(
+        JSON.stringify({
+          error: 'PDF rendering failed',
+          message: 'The rendered PDF text layer did not match the resume content',
+        }),
+        { status: 500, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
     return new Response(
       JSON.stringify({
         error: 'Internal server error',
@@ -135,29 +419,838 @@ async function handleGeneratePDF(request: Request): Promise<Response> {
 }
 
 /**
- * Handle OPTIONS requests (CORS preflight)
+ * Handle POST /generate-text endpoint
  */
-function handleOptions(): Response {
-  return new Response(null, {
-    status: 204,
-    headers: CORS_HEADERS,
-  });
+async function handleGenerateText(request: Request): Promise<Response> {
+  try {
+    // Check content type
+    const contentType = request.headers.get('content-type');
+    if (!contentType?.includes('application/json')) {
+      return new Response(
+        JSON.stringify({ error: 'Content-Type must be application/json' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    // Parse request body
+    let body: GenerateTextRequest;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({ error: 'Invalid JSON in request body' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    const { resume, sectionOrder, wrapColumn } = body;
+    
+    if (!resume) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required field: resume' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    // Validate wrapColumn if provided
+    if (wrapColumn !== undefined && !isValidWrapColumn(wrapColumn)) {
+      return new Response(
+        JSON.stringify({
+          error: `Invalid wrapColumn. Must be an integer between ${TEXT_CONFIG.minWrapColumn} and ${TEXT_CONFIG.maxWrapColumn}`,
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    // Step 1: Validate resume
+    const validationResult = validateResume(resume);
+    
+    if (!validationResult.isValid) {
+      return new Response(
+        JSON.stringify({
+          error: 'Resume validation failed',
+          validationErrors: validationResult.errors.map((err: ValidationError) => ({
+            type: err.type,
+            field: err.field,
+            message: err.message,
+          })),
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    // Step 2: Transform with section ordering
+    const document = transformResumeToDocumentWithOrder(resume as Resume, sectionOrder);
+    
+    // Step 3: Render to plain text
+    const text = renderDocumentToText(document, { wrapColumn });
+    
+    return new Response(text, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/plain; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="resume.txt"',
+        ...CORS_HEADERS,
+      },
+    });
+    
+  } catch (error) {
+    console.error('Error generating text:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+    );
+  }
 }
 
 /**
- * Main request handler
+ * Handle POST /generate-html endpoint
  */
-async function handleRequest(request: Request): Promise<Response> {
-  const url = new URL(request.url);
-  
-  // Handle OPTIONS for CORS
-  if (request.method === 'OPTIONS') {
-    return handleOptions();
-  }
-  
-  // Handle POST /generate-pdf
-  if (request.method === 'POST' && url.pathname === '/generate-pdf') {
-    return handleGeneratePDF(request);
+async function handleGenerateHTML(request: Request): Promise<Response> {
+  try {
+    // Check content type
+    const contentType = request.headers.get('content-type');
+    if (!contentType?.includes('application/json')) {
+      return new Response(
+        JSON.stringify({ error: 'Content-Type must be application/json' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    // Parse request body
+    let body: GenerateHTMLRequest;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({ error: 'Invalid JSON in request body' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    const { resume, sectionOrder, fontProfile, densityPreset } = body;
+    
+    if (!resume) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required field: resume' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    // Validate fontProfile if provided
+    if (fontProfile && !['sans', 'serif', 'mono'].includes(fontProfile)) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid fontProfile. Must be: sans, serif, or mono' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    // Validate densityPreset if provided
+    if (densityPreset && !['normal', 'compact', 'ultra-compact'].includes(densityPreset)) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid densityPreset. Must be: normal, compact, or ultra-compact' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    // Step 1: Validate resume
+    const validationResult = validateResume(resume);
+    
+    if (!validationResult.isValid) {
+      return new Response(
+        JSON.stringify({
+          error: 'Resume validation failed',
+          validationErrors: validationResult.errors.map((err: ValidationError) => ({
+            type: err.type,
+            field: err.field,
+            message: err.message,
+          })),
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    // Step 2: Transform with section ordering
+    const document = transformResumeToDocumentWithOrder(resume as Resume, sectionOrder);
+    
+    // Step 3: Render to HTML with JSON-LD built from contact info
+    const html = renderDocumentToHTML(document, {
+      fontProfile: fontProfile || 'sans',
+      densityPreset: densityPreset || 'normal',
+      contact: (resume as Resume).contact,
+    });
+    
+    return new Response(html, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="resume.html"',
+        ...CORS_HEADERS,
+      },
+    });
+    
+  } catch (error) {
+    console.error('Error generating HTML:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+    );
+  }
+}
+
+/**
+ * Handle POST /generate-latex endpoint
+ */
+async function handleGenerateLaTeX(request: Request): Promise<Response> {
+  try {
+    // Check content type
+    const contentType = request.headers.get('content-type');
+    if (!contentType?.includes('application/json')) {
+      return new Response(
+        JSON.stringify({ error: 'Content-Type must be application/json' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    // Parse request body
+    let body: GenerateLaTeXRequest;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({ error: 'Invalid JSON in request body' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    const { resume, sectionOrder, fontProfile, densityPreset } = body;
+    
+    if (!resume) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required field: resume' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    // Validate fontProfile if provided
+    if (fontProfile && !['sans', 'serif', 'mono'].includes(fontProfile)) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid fontProfile. Must be: sans, serif, or mono' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    // Validate densityPreset if provided
+    if (densityPreset && !['normal', 'compact', 'ultra-compact'].includes(densityPreset)) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid densityPreset. Must be: normal, compact, or ultra-compact' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    // Step 1: Validate resume
+    const validationResult = validateResume(resume);
+    
+    if (!validationResult.isValid) {
+      return new Response(
+        JSON.stringify({
+          error: 'Resume validation failed',
+          validationErrors: validationResult.errors.map((err: ValidationError) => ({
+            type: err.type,
+            field: err.field,
+            message: err.message,
+          })),
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    // Step 2: Transform with section ordering
+    const document = transformResumeToDocumentWithOrder(resume as Resume, sectionOrder);
+    
+    // Step 3: Render to LaTeX source
+    const latex = renderDocumentToLaTeX(document, fontProfile || 'sans', densityPreset || 'normal');
+    
+    return new Response(latex, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/x-tex; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="resume.tex"',
+        ...CORS_HEADERS,
+      },
+    });
+    
+  } catch (error) {
+    console.error('Error generating LaTeX:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+    );
+  }
+}
+
+/**
+ * Handle POST /generate-vcard endpoint
+ */
+async function handleGenerateVCard(request: Request): Promise<Response> {
+  try {
+    // Check content type
+    const contentType = request.headers.get('content-type');
+    if (!contentType?.includes('application/json')) {
+      return new Response(
+        JSON.stringify({ error: 'Content-Type must be application/json' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    // Parse request body
+    let body: GenerateVCardRequest;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({ error: 'Invalid JSON in request body' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    const { resume } = body;
+    
+    if (!resume) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required field: resume' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    // Step 1: Validate resume
+    const validationResult = validateResume(resume);
+    
+    if (!validationResult.isValid) {
+      return new Response(
+        JSON.stringify({
+          error: 'Resume validation failed',
+          validationErrors: validationResult.errors.map((err: ValidationError) => ({
+            type: err.type,
+            field: err.field,
+            message: err.message,
+          })),
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    // Step 2: Render contact section to vCard
+    const vcard = renderContactToVCard((resume as Resume).contact);
+    
+    return new Response(vcard, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/vcard; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="contact.vcf"',
+        ...CORS_HEADERS,
+      },
+    });
+    
+  } catch (error) {
+    console.error('Error generating vCard:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+    );
+  }
+}
+
+/**
+ * Handle POST /import-json-resume endpoint
+ */
+async function handleImportJsonResume(request: Request): Promise<Response> {
+  try {
+    // Check content type
+    const contentType = request.headers.get('content-type');
+    if (!contentType?.includes('application/json')) {
+      return new Response(
+        JSON.stringify({ error: 'Content-Type must be application/json' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    // Parse request body
+    let body: ImportJsonResumeRequest;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({ error: 'Invalid JSON in request body' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    const { jsonResume } = body;
+    
+    if (!jsonResume || typeof jsonResume !== 'object') {
+      return new Response(
+        JSON.stringify({ error: 'Missing required field: jsonResume' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    // Reject nested or prototype-polluting structures before reading them
+    if (!isStructureSafe(jsonResume, DEFAULT_VALIDATION_LIMITS.maxObjectDepth)) {
+      return new Response(
+        JSON.stringify({ error: 'JSON Resume structure is unsafe or too deeply nested' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    // Convert; validation errors are returned so the user can fix them in the editor
+    const { resume, validation, warnings } = importJsonResume(jsonResume);
+    
+    return new Response(
+      JSON.stringify({
+        resume,
+        warnings,
+        validationErrors: validation.errors.map((err: ValidationError) => ({
+          type: err.type,
+          field: err.field,
+          message: err.message,
+        })),
+      }),
+      { status: 200, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+    );
+    
+  } catch (error) {
+    console.error('Error importing JSON Resume:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+    );
+  }
+}
+
+/**
+ * Handle POST /import-text endpoint
+ * Builds a draft resume from pasted plain text
+ */
+async function handleImportText(request: Request): Promise<Response> {
+  try {
+    // Check content type
+    const contentType = request.headers.get('content-type');
+    if (!contentType?.includes('application/json')) {
+      return new Response(
+        JSON.stringify({ error: 'Content-Type must be application/json' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    // Parse request body
+    let body: ImportTextRequest;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({ error: 'Invalid JSON in request body' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    const { text } = body;
+    
+    if (typeof text !== 'string' || text.trim() === '') {
+      return new Response(
+        JSON.stringify({ error: 'Missing required field: text' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    // Convert; validation errors are returned so the user can fix them in the editor
+    const { resume, sectionOrder, validation, warnings, confidence } = parseResumeText(text);
+    
+    return new Response(
+      JSON.stringify({
+        resume,
+        sectionOrder,
+        warnings,
+        confidence,
+        validationErrors: validation.errors.map((err: ValidationError) => ({
+          type: err.type,
+          field: err.field,
+          message: err.message,
+        })),
+      }),
+      { status: 200, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+    );
+    
+  } catch (error) {
+    console.error('Error importing resume text:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+    );
+  }
+}
+
+/**
+ * Handle POST /import-pdf endpoint
+ * Body is the raw PDF file; restores the resume JSON embedded by /generate-pdf
+ */
+async function handleImportPDF(request: Request): Promise<Response> {
+  try {
+    // Check content type
+    const contentType = request.headers.get('content-type');
+    if (!contentType?.includes('application/pdf')) {
+      return new Response(
+        JSON.stringify({ error: 'Content-Type must be application/pdf' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    const pdf = new Uint8Array(await request.arrayBuffer());
+    
+    const result = importResumeFromPdf(pdf);
+    
+    if (!result) {
+      return new Response(
+        JSON.stringify({ error: 'PDF does not contain QuickCV resume data' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    // Validation errors are returned so the user can fix them in the editor
+    return new Response(
+      JSON.stringify({
+        resume: result.resume,
+        sectionOrder: result.sectionOrder,
+        fontProfile: result.fontProfile,
+        densityPreset: result.densityPreset,
+        pageSize: result.pageSize,
+        margins: result.margins,
+        fitToPages: result.fitToPages,
+        runningHeader: result.runningHeader,
+        textAlign: result.textAlign,
+        hyphenate: result.hyphenate,
+        warnings: result.warnings,
+        validationErrors: result.validation.errors.map((err: ValidationError) => ({
+          type: err.type,
+          field: err.field,
+          message: err.message,
+        })),
+      }),
+      { status: 200, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+    );
+    
+  } catch (error) {
+    console.error('Error importing PDF:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+    );
+  }
+}
+
+/**
+ * Handle POST /import-linkedin endpoint
+ * Body is the raw ZIP archive from LinkedIn's data export
+ */
+async function handleImportLinkedIn(request: Request): Promise<Response> {
+  try {
+    // Check content type
+    const contentType = request.headers.get('content-type');
+    if (!contentType?.includes('application/zip')) {
+      return new Response(
+        JSON.stringify({ error: 'Content-Type must be application/zip' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    const zip = new Uint8Array(await request.arrayBuffer());
+    
+    const result = importLinkedInExport(zip);
+    
+    if (!result) {
+      return new Response(
+        JSON.stringify({ error: 'ZIP is not a LinkedIn data export' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    // Validation errors are returned so the user can fix them in the editor
+    return new Response(
+      JSON.stringify({
+        resume: result.resume,
+        warnings: result.warnings,
+        validationErrors: result.validation.errors.map((err: ValidationError) => ({
+          type: err.type,
+          field: err.field,
+          message: err.message,
+        })),
+      }),
+      { status: 200, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+    );
+    
+  } catch (error) {
+    console.error('Error importing LinkedIn export:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+    );
+  }
+}
+
+/**
+ * Handle POST /export-json-resume endpoint
+ */
+async function handleExportJsonResume(request: Request): Promise<Response> {
+  try {
+    // Check content type
+    const contentType = request.headers.get('content-type');
+    if (!contentType?.includes('application/json')) {
+      return new Response(
+        JSON.stringify({ error: 'Content-Type must be application/json' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    // Parse request body
+    let body: ExportJsonResumeRequest;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({ error: 'Invalid JSON in request body' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    const { resume } = body;
+    
+    if (!resume) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required field: resume' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    // Validate resume
+    const validationResult = validateResume(resume);
+    
+    if (!validationResult.isValid) {
+      return new Response(
+        JSON.stringify({
+          error: 'Resume validation failed',
+          validationErrors: validationResult.errors.map((err: ValidationError) => ({
+            type: err.type,
+            field: err.field,
+            message: err.message,
+          })),
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    const { jsonResume, warnings } = exportJsonResume(resume as Resume);
+    
+    return new Response(
+      JSON.stringify({ jsonResume, warnings }),
+      { status: 200, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+    );
+    
+  } catch (error) {
+    console.error('Error exporting JSON Resume:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+    );
+  }
+}
+
+/**
+ * Handle POST /export-europass endpoint
+ */
+async function handleExportEuropass(request: Request): Promise<Response> {
+  try {
+    // Check content type
+    const contentType = request.headers.get('content-type');
+    if (!contentType?.includes('application/json')) {
+      return new Response(
+        JSON.stringify({ error: 'Content-Type must be application/json' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    // Parse request body
+    let body: ExportEuropassRequest;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({ error: 'Invalid JSON in request body' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    const { resume } = body;
+    
+    if (!resume) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required field: resume' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    // Validate resume
+    const validationResult = validateResume(resume);
+    
+    if (!validationResult.isValid) {
+      return new Response(
+        JSON.stringify({
+          error: 'Resume validation failed',
+          validationErrors: validationResult.errors.map((err: ValidationError) => ({
+            type: err.type,
+            field: err.field,
+            message: err.message,
+          })),
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    const { xml, warnings, validation } = renderResumeToEuropassXml(resume as Resume);
+    
+    // Output must match the bundled schema; a mismatch is an exporter bug
+    if (!validation.isValid) {
+      console.error('Europass XML failed schema validation:', validation.errors);
+      return new Response(
+        JSON.stringify({
+          error: 'Europass XML failed schema validation',
+          validationErrors: validation.errors.map((err: ValidationError) => ({
+            type: err.type,
+            field: err.field,
+            message: err.message,
+          })),
+        }),
+        { status: 500, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+      );
+    }
+    
+    return new Response(
+      JSON.stringify({ xml, warnings }),
+      { status: 200, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+    );
+    
+  } catch (error) {
+    console.error('Error exporting Europass XML:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
+    );
+  }
+}
+
+/**
+ * Handle OPTIONS requests (CORS preflight)
+ */
+function handleOptions(): Response {
+  return new Response(null, {
+    status: 204,
+    headers: CORS_HEADERS,
+  });
+}
+
+/**
+ * Main request handler
+ */
+async function handleRequest(request: Request): Promise<Response> {
+  const url = new URL(request.url);
+  
+  // Handle OPTIONS for CORS
+  if (request.method === 'OPTIONS') {
+    return handleOptions();
+  }
+  
+  // Handle POST /generate-pdf
+  if (request.method === 'POST' && url.pathname === '/generate-pdf') {
+    return handleGeneratePDF(request);
+  }
+  
+  // Handle POST /generate-text
+  if (request.method === 'POST' && url.pathname === '/generate-text') {
+    return handleGenerateText(request);
+  }
+  
+  // Handle POST /generate-html
+  if (request.method === 'POST' && url.pathname === '/generate-html') {
+    return handleGenerateHTML(request);
+  }
+  
+  // Handle POST /generate-latex
+  if (request.method === 'POST' && url.pathname === '/generate-latex') {
+    return handleGenerateLaTeX(request);
+  }
+  
+  // Handle POST /generate-vcard
+  if (request.method === 'POST' && url.pathname === '/generate-vcard') {
+    return handleGenerateVCard(request);
+  }
+  
+  // Handle POST /import-json-resume
+  if (request.method === 'POST' && url.pathname === '/import-json-resume') {
+    return handleImportJsonResume(request);
+  }
+  
+  // Handle POST /import-text
+  if (request.method === 'POST' && url.pathname === '/import-text') {
+    return handleImportText(request);
+  }
+  
+  // Handle POST /import-pdf
+  if (request.method === 'POST' && url.pathname === '/import-pdf') {
+    return handleImportPDF(request);
+  }
+  
+  // Handle POST /import-linkedin
+  if (request.method === 'POST' && url.pathname === '/import-linkedin') {
+    return handleImportLinkedIn(request);
+  }
+  
+  // Handle POST /export-json-resume
+  if (request.method === 'POST' && url.pathname === '/export-json-resume') {
+    return handleExportJsonResume(request);
+  }
+  
+  // Handle POST /export-europass
+  if (request.method === 'POST' && url.pathname === '/export-europass') {
+    return handleExportEuropass(request);
   }
   
   // Handle 404
@@ -173,11 +1266,15 @@ async function handleRequest(request: Request): Promise<Response> {
 const server = Bun.serve({
   port: PORT,
   async fetch(request: Request) {
-    // Enforce request size limit
+    // Enforce request size limit (archive uploads and PDF requests with fonts get larger ones)
+    const pathname = new URL(request.url).pathname;
+    const maxSize = pathname === '/import-linkedin'
+      ? MAX_ARCHIVE_SIZE
+      : pathname === '/generate-pdf' ? MAX_PDF_REQUEST_SIZE : MAX_REQUEST_SIZE;
     const contentLength = request.headers.get('content-length');
-    if (contentLength && parseInt(contentLength) > MAX_REQUEST_SIZE) {
+    if (contentLength && parseInt(contentLength) > maxSize) {
       return new Response(
-        JSON.stringify({ error: 'Request too large (max 1MB)' }),
+        JSON.stringify({ error: `Request too large (max ${maxSize / (1024 * 1024)}MB)` }),
         { status: 413, headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } }
       );
     }
@@ -187,6 +1284,11 @@ const server = Bun.serve({
 });
 
 console.log(`🚀 V2 Backend Server running on http://localhost:${PORT}`);
-console.log(`📌 Endpoint: POST /generate-pdf`);
-console.log(`📏 Max request size: 1MB`);
+console.log(`📌 Endpoints: POST /generate-pdf, POST /generate-text, POST /generate-html, POST /generate-latex, POST /generate-vcard`);
+console.log(`📥 JSON Resume: POST /import-json-resume, POST /export-json-resume`);
+console.log(`📤 Europass XML: POST /export-europass`);
+console.log(`📝 Plain-text import: POST /import-text`);
+console.log(`📄 PDF re-import: POST /import-pdf`);
+console.log(`🔗 LinkedIn export: POST /import-linkedin`);
+console.log(`📏 Max request size: 1MB (4MB for ZIP archives, 48MB for PDF requests with fonts)`);
 console.log(`🔒 CORS enabled for all origins`);
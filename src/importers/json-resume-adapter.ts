@@ -0,0 +1,451 @@
+/**
+ * JSON Resume Adapter
+ *
+ * Converts between the community JSON Resume schema (jsonresume.org) and
+ * the Resume schema in both directions. Every field that cannot be carried
+ * across is reported as a warning instead of being dropped silently.
+ */
+
+import type {
+  Resume,
+  ContactInfo,
+  WorkExperience,
+  Education,
+  Project,
+} from '../types/resume.types.js';
+import type {
+  JsonResume,
+  JsonResumeBasics,
+  JsonResumeProfile,
+  JsonResumeSkill,
+} from '../types/json-resume.types.js';
+import type { ImportResult, ImportWarning } from '../types/import.types.js';
+import { parseSkillWithCategory, withCategoryPrefix } from '../transformers/resume-to-document.transformer.js';
+import { isPlainObject } from '../utils/depth-check.js';
+import { validateResume } from '../validators/resume-validator.js';
+import { toIsoDate } from '../utils/dates.js';
+
+/**
+ * Schema URL written to exported documents
+ */
+export const JSON_RESUME_SCHEMA_URL =
+  'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json';
+
+/**
+ * JSON Resume sections with no counterpart in the Resume schema
+ */
+const UNSUPPORTED_SECTIONS = [
+  'volunteer',
+  'awards',
+  'certificates',
+  'publications',
+  'languages',
+  'interests',
+  'references',
+] as const;
+
+/**
+ * Result of converting a Resume to JSON Resume
+ */
+export interface JsonResumeExportResult {
+  jsonResume: JsonResume;
+  warnings: ImportWarning[];
+}
+
+/**
+ * Read a non-empty trimmed string, or undefined
+ */
+function readString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+}
+
+/**
+ * Read an array of non-empty strings, skipping anything else
+ */
+function readStringArray(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value.map(readString).filter((item): item is string => item !== undefined);
+}
+
+/**
+ * Read an array of plain objects, skipping anything else
+ */
+function readObjectArray(value: unknown): Record<string, unknown>[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter(isPlainObject);
+}
+
+/**
+ * Check whether data looks like a JSON Resume document rather than a QuickCV resume
+ */
+export function isJsonResume(data: unknown): data is JsonResume {
+  return isPlainObject(data) && isPlainObject(data.basics) && !('contact' in data);
+}
+
+/**
+ * Map a JSON Resume profile to a contact field
+ */
+function applyProfile(
+  contact: ContactInfo,
+  profile: Record<string, unknown>,
+  index: number,
+  warnings: ImportWarning[]
+): void {
+  const network = (readString(profile.network) ?? '').toLowerCase();
+  const username = readString(profile.username);
+  const url = readString(profile.url);
+
+  if (network.includes('linkedin')) {
+    contact.linkedin = url ?? (username ? `linkedin.com/in/${username}` : undefined);
+  } else if (network.includes('github')) {
+    contact.github = url ?? (username ? `github.com/${username}` : undefined);
+  } else if (network.includes('twitter') || network === 'x') {
+    contact.twitter = username ? `@${username.replace(/^@/, '')}` : url;
+  } else {
+    warnings.push({
+      field: `basics.profiles[${index}]`,
+      message: `Profile "${readString(profile.network) ?? 'unknown'}" has no matching contact field and was not imported`,
+    });
+  }
+}
+
+/**
+ * Convert JSON Resume basics to contact information
+ */
+function importBasics(basics: Record<string, unknown>, warnings: ImportWarning[]): ContactInfo {
+  const contact: ContactInfo = {
+    fullName: readString(basics.name) ?? '',
+    email: readString(basics.email) ?? '',
+    phone: readString(basics.phone) ?? '',
+    location: '',
+  };
+
+  const label = readString(basics.label);
+  if (label) contact.jobTitle = label;
+
+  const url = readString(basics.url);
+  if (url) contact.portfolio = url;
+
+  if (isPlainObject(basics.location)) {
+    const { address, city, region, countryCode, postalCode } = basics.location;
+    const parts = [readString(city), readString(region), readString(countryCode)].filter(Boolean);
+    contact.location = parts.length > 0 ? parts.join(', ') : readString(address) ?? '';
+    if (parts.length > 0 && (readString(address) || readString(postalCode))) {
+      warnings.push({ field: 'basics.location', message: 'Street address and postal code were not imported' });
+    }
+  }
+
+  readObjectArray(basics.profiles).forEach((profile, index) => {
+    applyProfile(contact, profile, index, warnings);
+  });
+
+  if (readString(basics.image)) {
+    warnings.push({ field: 'basics.image', message: 'Images are not supported and were not imported' });
+  }
+
+  return contact;
+}
+
+/**
+ * Use highlights as bullets, falling back to the summary text
+ */
+function importBullets(
+  entry: Record<string, unknown>,
+  summaryKey: 'summary' | 'description',
+  field: string,
+  warnings: ImportWarning[]
+): string[] {
+  const highlights = readStringArray(entry.highlights);
+  const summary = readString(entry[summaryKey]);
+
+  if (highlights.length === 0) {
+    return summary ? [summary] : [];
+  }
+  if (summary) {
+    warnings.push({ field: `${field}.${summaryKey}`, message: `${summaryKey} was not imported because highlights are used as bullet points` });
+  }
+  return highlights;
+}
+
+/**
+ * Convert a JSON Resume work entry
+ */
+function importWork(work: Record<string, unknown>, index: number, warnings: ImportWarning[]): WorkExperience {
+  const field = `work[${index}]`;
+  const experience: WorkExperience = {
+    company: readString(work.name) ?? readString(work.company) ?? '',
+    role: readString(work.position) ?? '',
+    startDate: readString(work.startDate) ?? '',
+    description: importBullets(work, 'summary', field, warnings),
+  };
+
+  const location = readString(work.location);
+  if (location) experience.location = location;
+
+  const endDate = readString(work.endDate);
+  if (endDate) experience.endDate = endDate;
+
+  if (readString(work.url)) {
+    warnings.push({ field: `${field}.url`, message: 'Company URL was not imported' });
+  }
+
+  return experience;
+}
+
+/**
+ * Convert a JSON Resume education entry
+ */
+function importEducation(edu: Record<string, unknown>, index: number, warnings: ImportWarning[]): Education {
+  const education: Education = {
+    institution: readString(edu.institution) ?? '',
+    degree: readString(edu.studyType) ?? '',
+    startDate: readString(edu.startDate) ?? '',
+  };
+
+  const area = readString(edu.area);
+  if (area) education.fieldOfStudy = area;
+
+  const endDate = readString(edu.endDate);
+  if (endDate) education.endDate = endDate;
+
+  const score = readString(edu.score);
+  if (score) education.cgpa = score;
+
+  const courses = readStringArray(edu.courses);
+  if (courses.length > 0) education.relevantCourseWork = courses;
+
+  if (readString(edu.url)) {
+    warnings.push({ field: `education[${index}].url`, message: 'Institution URL was not imported' });
+  }
+
+  return education;
+}
+
+/**
+ * Convert JSON Resume skill groups to a flat skills list
+ * Keywords keep their group as a category prefix when it is a known category;
+ * group names are used as skills when a group has no keywords
+ */
+function importSkills(skills: Record<string, unknown>[], warnings: ImportWarning[]): string[] {
+  const result: string[] = [];
+
+  skills.forEach((skill, index) => {
+    const name = readString(skill.name);
+    const keywords = readStringArray(skill.keywords);
+
+    if (keywords.length > 0) {
+      let groupDropped = false;
+      for (const keyword of keywords) {
+        const prefixed = name ? withCategoryPrefix(name, keyword) : keyword;
+        groupDropped = groupDropped || prefixed === null;
+        result.push(prefixed ?? keyword);
+      }
+      if (groupDropped) {
+        warnings.push({ field: `skills[${index}].name`, message: `Group name "${name}" is not a known category; keywords are categorized automatically` });
+      }
+    } else if (name) {
+      result.push(name);
+    }
+
+    if (readString(skill.level)) {
+      warnings.push({ field: `skills[${index}].level`, message: 'Skill levels are not supported and were not imported' });
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Convert a JSON Resume project entry
+ */
+function importProject(project: Record<string, unknown>, index: number, warnings: ImportWarning[]): Project {
+  const field = `projects[${index}]`;
+  const result: Project = {
+    name: readString(project.name) ?? '',
+    description: importBullets(project, 'description', field, warnings),
+  };
+
+  const keywords = readStringArray(project.keywords);
+  if (keywords.length > 0) result.techStack = keywords;
+
+  const url = readString(project.url);
+  if (url) result.link = url;
+
+  for (const key of ['startDate', 'endDate', 'roles', 'entity', 'type']) {
+    if (project[key] !== undefined) {
+      warnings.push({ field: `${field}.${key}`, message: `${key} is not supported and was not imported` });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Convert a JSON Resume document into the Resume schema
+ *
+ * The resume is validated with validateResume(); fields the source did not
+ * provide are left empty so validation reports them.
+ *
+ * @param data - Parsed JSON Resume document
+ * @returns Import result with resume, validation and lossy-field warnings
+ */
+export function importJsonResume(data: unknown): ImportResult {
+  const warnings: ImportWarning[] = [];
+  const source = isPlainObject(data) ? data : {};
+  const basics = isPlainObject(source.basics) ? source.basics : {};
+
+  const resume: Resume = {
+    contact: importBasics(basics, warnings),
+    summary: { summary: readString(basics.summary) ?? '' },
+    experience: readObjectArray(source.work).map((work, index) => importWork(work, index, warnings)),
+    education: readObjectArray(source.education).map((edu, index) => importEducation(edu, index, warnings)),
+    skills: { skills: importSkills(readObjectArray(source.skills), warnings) },
+    projects: readObjectArray(source.projects).map((project, index) => importProject(project, index, warnings)),
+  };
+
+  for (const section of UNSUPPORTED_SECTIONS) {
+    const entries = source[section];
+    if (Array.isArray(entries) && entries.length > 0) {
+      warnings.push({ field: section, message: `${entries.length} ${section} entr${entries.length === 1 ? 'y was' : 'ies were'} not imported (section not supported)` });
+    }
+  }
+
+  return {
+    resume,
+    validation: validateResume(resume),
+    warnings,
+  };
+}
+
+/**
+ * Normalize a free-text date to the ISO 8601 form JSON Resume expects
+ */
+function normalizeDate(value: string, field: string, warnings: ImportWarning[]): string {
+  const isoDate = toIsoDate(value);
+  if (isoDate !== null) {
+    return isoDate;
+  }
+
+  warnings.push({ field, message: `Date "${value}" is not ISO 8601 and was exported unchanged` });
+  return value.trim();
+}
+
+/**
+ * Normalize a link to an absolute URL
+ */
+function toAbsoluteUrl(value: string): string {
+  return /^https?:\/\//i.test(value) ? value : `https://${value}`;
+}
+
+/**
+ * Build a JSON Resume profile from a contact link
+ */
+function exportProfile(network: string, value: string): JsonResumeProfile {
+  if (network === 'Twitter' && value.startsWith('@')) {
+    return { network, username: value.slice(1), url: `https://twitter.com/${value.slice(1)}` };
+  }
+  const url = toAbsoluteUrl(value);
+  const username = url.replace(/\/+$/, '').split('/').pop();
+  return { network, username, url };
+}
+
+/**
+ * Convert contact information and summary to JSON Resume basics
+ */
+function exportBasics(resume: Resume): JsonResumeBasics {
+  const { contact } = resume;
+  const basics: JsonResumeBasics = {
+    name: contact.fullName,
+    email: contact.email,
+    phone: contact.phone,
+    summary: resume.summary.summary,
+  };
+
+  if (contact.jobTitle) basics.label = contact.jobTitle;
+  if (contact.portfolio) basics.url = toAbsoluteUrl(contact.portfolio);
+
+  if (contact.location) {
+    const [city, ...rest] = contact.location.split(',').map(part => part.trim());
+    basics.location = rest.length > 0 ? { city, region: rest.join(', ') } : { city };
+  }
+
+  const profiles: JsonResumeProfile[] = [];
+  if (contact.linkedin) profiles.push(exportProfile('LinkedIn', contact.linkedin));
+  if (contact.github) profiles.push(exportProfile('GitHub', contact.github));
+  if (contact.twitter) profiles.push(exportProfile('Twitter', contact.twitter));
+  if (profiles.length > 0) basics.profiles = profiles;
+
+  return basics;
+}
+
+/**
+ * Group skills by category into JSON Resume skill entries
+ */
+function exportSkills(skills: string[]): JsonResumeSkill[] {
+  const groups = new Map<string, string[]>();
+
+  for (const input of skills) {
+    const { category, skill } = parseSkillWithCategory(input);
+    if (!groups.has(category)) {
+      groups.set(category, []);
+    }
+    groups.get(category)!.push(skill);
+  }
+
+  return Array.from(groups, ([name, keywords]) => ({ name, keywords }));
+}
+
+/**
+ * Convert a validated Resume into a JSON Resume document
+ *
+ * @param resume - Validated Resume object
+ * @returns JSON Resume document and lossy-field warnings
+ */
+export function exportJsonResume(resume: Resume): JsonResumeExportResult {
+  const warnings: ImportWarning[] = [];
+
+  const jsonResume: JsonResume = {
+    $schema: JSON_RESUME_SCHEMA_URL,
+    basics: exportBasics(resume),
+    work: resume.experience.map((exp, index) => ({
+      name: exp.company,
+      position: exp.role,
+      ...(exp.location ? { location: exp.location } : {}),
+      startDate: normalizeDate(exp.startDate, `experience[${index}].startDate`, warnings),
+      ...(exp.endDate ? { endDate: normalizeDate(exp.endDate, `experience[${index}].endDate`, warnings) } : {}),
+      highlights: exp.description,
+    })),
+    education: resume.education.map((edu, index) => ({
+      institution: edu.institution,
+      studyType: edu.degree,
+      ...(edu.fieldOfStudy ? { area: edu.fieldOfStudy } : {}),
+      startDate: normalizeDate(edu.startDate, `education[${index}].startDate`, warnings),
+      ...(edu.endDate ? { endDate: normalizeDate(edu.endDate, `education[${index}].endDate`, warnings) } : {}),
+      ...(edu.cgpa ? { score: edu.cgpa } : {}),
+      ...(edu.relevantCourseWork && edu.relevantCourseWork.length > 0 ? { courses: edu.relevantCourseWork } : {}),
+    })),
+    skills: exportSkills(resume.skills.skills),
+    projects: resume.projects.map(project => ({
+      name: project.name,
+      highlights: project.description,
+      ...(project.techStack && project.techStack.length > 0 ? { keywords: project.techStack } : {}),
+      ...(project.link ? { url: toAbsoluteUrl(project.link) } : {}),
+    })),
+  };
+
+  if (resume.combinedExperienceProjects) {
+    warnings.push({
+      field: 'combinedExperienceProjects',
+      message: 'Combined Experience & Projects layout has no JSON Resume equivalent and was not exported',
+    });
+  }
+
+  if (resume.direction === 'rtl') {
+    warnings.push({
+      field: 'direction',
+      message: 'Right-to-left layout has no JSON Resume equivalent and was not exported',
+    });
+  }
+
+  return { jsonResume, warnings };
+}
@@ -0,0 +1,297 @@
+/**
+ * LinkedIn Data Export Importer
+ *
+ * Converts the ZIP archive from LinkedIn's "Get a copy of your data"
+ * (Profile, Positions, Education, Skills and Projects CSV files, plus
+ * email addresses and phone numbers when included) into the Resume schema.
+ * Server-side only (Node.js).
+ */
+
+import type {
+  Resume,
+  ContactInfo,
+  WorkExperience,
+  Education,
+  Project,
+} from '../types/resume.types.js';
+import type { ImportResult, ImportWarning } from '../types/import.types.js';
+import { DEFAULT_VALIDATION_LIMITS } from '../types/validation.types.js';
+import { validateResume } from '../validators/resume-validator.js';
+import { readZipEntries, readZipEntry, type ZipEntry } from '../utils/zip.js';
+import { parseCsvRecords } from '../utils/csv.js';
+import { toEditorDate } from '../utils/dates.js';
+
+type CsvRecord = Record<string, string>;
+
+/**
+ * Archive files read by the importer, with the column that identifies each header row
+ */
+const LINKEDIN_FILES = {
+  profile: { fileName: 'Profile.csv', headerColumn: 'First Name' },
+  positions: { fileName: 'Positions.csv', headerColumn: 'Company Name' },
+  education: { fileName: 'Education.csv', headerColumn: 'School Name' },
+  skills: { fileName: 'Skills.csv', headerColumn: 'Name' },
+  projects: { fileName: 'Projects.csv', headerColumn: 'Title' },
+  emails: { fileName: 'Email Addresses.csv', headerColumn: 'Email Address' },
+  phones: { fileName: 'PhoneNumbers.csv', headerColumn: 'Number' },
+} as const;
+
+type LinkedInFile = keyof typeof LINKEDIN_FILES;
+
+/**
+ * Profile.csv columns with no Resume counterpart
+ */
+const UNSUPPORTED_PROFILE_COLUMNS = [
+  'Maiden Name',
+  'Address',
+  'Birth Date',
+  'Industry',
+  'Zip Code',
+  'Instant Messengers',
+] as const;
+
+/**
+ * Read the CSV files the importer uses from the archive
+ * Missing, unreadable and oversized files are left out with a warning
+ */
+function readLinkedInFiles(
+  zip: Uint8Array,
+  entries: ZipEntry[],
+  warnings: ImportWarning[]
+): Partial<Record<LinkedInFile, CsvRecord[]>> {
+  const files: Partial<Record<LinkedInFile, CsvRecord[]>> = {};
+
+  // Match by file name only; archives may place files in a folder
+  const byName = new Map<string, ZipEntry>();
+  for (const entry of entries) {
+    const baseName = entry.name.split('/').pop()!.toLowerCase();
+    if (!byName.has(baseName)) byName.set(baseName, entry);
+  }
+
+  for (const [key, { fileName, headerColumn }] of Object.entries(LINKEDIN_FILES) as [LinkedInFile, typeof LINKEDIN_FILES[LinkedInFile]][]) {
+    const entry = byName.get(fileName.toLowerCase());
+    if (!entry) continue;
+
+    let records: CsvRecord[] | null = null;
+    try {
+      const data = readZipEntry(zip, entry, DEFAULT_VALIDATION_LIMITS.maxJsonSize);
+      records = data ? parseCsvRecords(data.toString('utf8'), headerColumn) : null;
+    } catch {
+      // Oversized or corrupt entry
+      records = null;
+    }
+
+    if (records) {
+      files[key] = records;
+    } else {
+      warnings.push({ field: fileName, message: `${fileName} could not be read and was not imported` });
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Convert a LinkedIn date ("Jan 2020", "2020") to the editor's MM/YYYY form
+ * Unrecognized dates are kept as written
+ */
+function importDate(value: string): string {
+  return toEditorDate(value) ?? value;
+}
+
+/**
+ * Split a multi-line description into bullet points
+ * Leading bullet characters are removed
+ */
+function importBullets(description: string): string[] {
+  return description
+    .split(/\r?\n/)
+    .map(line => line.replace(/^\s*(?:[-*•·▪‣–]\s*)+/, '').trim())
+    .filter(line => line !== '');
+}
+
+/**
+ * Parse a bracketed LinkedIn list ("[PERSONAL:https://a.dev,OTHER:https://b.dev]")
+ * Type prefixes are removed
+ */
+function parseBracketList(value: string): string[] {
+  return value
+    .replace(/^\[|\]$/g, '')
+    .split(',')
+    .map(item => item.trim().replace(/^[A-Z_]+:(?!\/\/)/, '').trim())
+    .filter(item => item !== '');
+}
+
+/**
+ * Check whether a URL's host is one of the domains or a subdomain of one
+ * The scheme is optional ("github.com/jane")
+ */
+function hasHost(url: string, domains: string[]): boolean {
+  const host = url.trim().replace(/^[a-z][a-z\d+.-]*:\/\//i, '').split(/[/?#:]/)[0].toLowerCase();
+  return domains.some(domain => host === domain || host.endsWith(`.${domain}`));
+}
+
+/**
+ * Assign profile websites to contact link fields
+ */
+function importWebsites(contact: ContactInfo, websites: string[], warnings: ImportWarning[]): void {
+  for (const url of websites) {
+    if (hasHost(url, ['linkedin.com']) && !contact.linkedin) {
+      contact.linkedin = url;
+    } else if (hasHost(url, ['github.com']) && !contact.github) {
+      contact.github = url;
+    } else if (hasHost(url, ['twitter.com', 'x.com']) && !contact.twitter) {
+      contact.twitter = url;
+    } else if (!contact.portfolio) {
+      contact.portfolio = url;
+    } else {
+      warnings.push({ field: 'Profile.csv.Websites', message: `Website ${url} has no free contact field and was not imported` });
+    }
+  }
+}
+
+/**
+ * Build contact information from the profile, email and phone files
+ */
+function importContact(
+  files: Partial<Record<LinkedInFile, CsvRecord[]>>,
+  warnings: ImportWarning[]
+): ContactInfo {
+  const profile = files.profile?.[0] ?? {};
+
+  const emails = files.emails ?? [];
+  const email = emails.find(record => record['Primary'] === 'Yes') ?? emails[0];
+
+  const phones = (files.phones ?? []).filter(record => record['Number']);
+  const phone = phones.find(record => record['Type'] === 'Mobile') ?? phones[0];
+
+  const contact: ContactInfo = {
+    fullName: [profile['First Name'], profile['Last Name']].filter(Boolean).join(' '),
+    email: email?.['Email Address'] ?? '',
+    phone: phone?.['Number'] ?? '',
+    location: profile['Geo Location'] ?? '',
+  };
+
+  if (profile['Headline']) contact.jobTitle = profile['Headline'];
+
+  const twitterHandles = parseBracketList(profile['Twitter Handles'] ?? '');
+  if (twitterHandles.length > 0) {
+    contact.twitter = `@${twitterHandles[0].replace(/^@/, '')}`;
+  }
+  if (twitterHandles.length > 1) {
+    warnings.push({ field: 'Profile.csv.Twitter Handles', message: 'Only the first Twitter handle was imported' });
+  }
+
+  importWebsites(contact, parseBracketList(profile['Websites'] ?? ''), warnings);
+
+  for (const column of UNSUPPORTED_PROFILE_COLUMNS) {
+    if (profile[column]) {
+      warnings.push({ field: `Profile.csv.${column}`, message: `${column} is not supported and was not imported` });
+    }
+  }
+
+  if (!files.emails) {
+    warnings.push({ field: 'Email Addresses.csv', message: 'Email Addresses.csv is not in the archive; add your email in the editor' });
+  }
+  if (!files.phones) {
+    warnings.push({ field: 'PhoneNumbers.csv', message: 'PhoneNumbers.csv is not in the archive; add your phone number in the editor' });
+  }
+
+  return contact;
+}
+
+/**
+ * Convert a Positions.csv row
+ */
+function importPosition(record: CsvRecord): WorkExperience {
+  const experience: WorkExperience = {
+    company: record['Company Name'] ?? '',
+    role: record['Title'] ?? '',
+    startDate: importDate(record['Started On'] ?? ''),
+    description: importBullets(record['Description'] ?? ''),
+  };
+
+  if (record['Location']) experience.location = record['Location'];
+  if (record['Finished On']) experience.endDate = importDate(record['Finished On']);
+
+  return experience;
+}
+
+/**
+ * Convert an Education.csv row
+ */
+function importEducation(record: CsvRecord, index: number, warnings: ImportWarning[]): Education {
+  const education: Education = {
+    institution: record['School Name'] ?? '',
+    degree: record['Degree Name'] ?? '',
+    startDate: importDate(record['Start Date'] ?? ''),
+  };
+
+  if (record['End Date']) education.endDate = importDate(record['End Date']);
+
+  for (const column of ['Notes', 'Activities']) {
+    if (record[column]) {
+      warnings.push({ field: `Education.csv[${index}].${column}`, message: `${column} is not supported and was not imported` });
+    }
+  }
+
+  return education;
+}
+
+/**
+ * Convert a Projects.csv row
+ */
+function importProject(record: CsvRecord, index: number, warnings: ImportWarning[]): Project {
+  const project: Project = {
+    name: record['Title'] ?? '',
+    description: importBullets(record['Description'] ?? ''),
+  };
+
+  if (record['Url']) project.link = record['Url'];
+
+  if (record['Started On'] || record['Finished On']) {
+    warnings.push({ field: `Projects.csv[${index}]`, message: 'Project dates are not supported and were not imported' });
+  }
+
+  return project;
+}
+
+/**
+ * Convert a LinkedIn data export archive into the Resume schema
+ *
+ * The resume is validated with validateResume(); fields the export did not
+ * provide are left empty so validation reports them.
+ *
+ * @param zip - ZIP archive contents
+ * @returns Import result, or null when the data is not a LinkedIn export archive
+ */
+export function importLinkedInExport(zip: Uint8Array): ImportResult | null {
+  const entries = readZipEntries(zip);
+  if (!entries) return null;
+
+  const warnings: ImportWarning[] = [];
+  const files = readLinkedInFiles(zip, entries, warnings);
+  if (Object.keys(files).length === 0) return null;
+
+  for (const key of ['profile', 'positions', 'education', 'skills', 'projects'] as const) {
+    if (!files[key]) {
+      const { fileName } = LINKEDIN_FILES[key];
+      warnings.push({ field: fileName, message: `${fileName} is not in the archive; that section was left empty` });
+    }
+  }
+
+  const resume: Resume = {
+    contact: importContact(files, warnings),
+    summary: { summary: files.profile?.[0]?.['Summary'] ?? '' },
+    experience: (files.positions ?? []).map(importPosition),
+    education: (files.education ?? []).map((record, index) => importEducation(record, index, warnings)),
+    skills: { skills: (files.skills ?? []).map(record => record['Name']).filter(Boolean) },
+    projects: (files.projects ?? []).map((record, index) => importProject(record, index, warnings)),
+  };
+
+  return {
+    resume,
+    validation: validateResume(resume),
+    warnings,
+  };
+}
@@ -0,0 +1,482 @@
+/**
+ * Markdown Resume Importer
+ *
+ * Parses a conventionally structured Markdown resume (H1 name, H2 sections,
+ * H3 entries, bullet lists) into the Resume schema. Accepts the output of
+ * renderDocumentToMarkdown() as well as hand-written files following the
+ * same conventions.
+ */
+
+import type {
+  Resume,
+  ContactInfo,
+  WorkExperience,
+  Education,
+  Project,
+} from '../types/resume.types.js';
+import type { ImportResult, ImportWarning } from '../types/import.types.js';
+import type { TextSpan } from '../types/document.types.js';
+import type { SectionKey } from '../transformers/resume-to-document.transformer.js';
+import { withCategoryPrefix } from '../transformers/resume-to-document.transformer.js';
+import { validateResume } from '../validators/resume-validator.js';
+import { formatInlineMarkup } from '../utils/inline-markup.js';
+
+/**
+ * Section title synonyms (lowercase) mapped to section keys
+ */
+const SECTION_TITLES: Record<string, SectionKey> = {
+  'summary': 'summary',
+  'professional summary': 'summary',
+  'profile': 'summary',
+  'about': 'summary',
+  'about me': 'summary',
+  'experience': 'experience',
+  'work experience': 'experience',
+  'professional experience': 'experience',
+  'employment': 'experience',
+  'employment history': 'experience',
+  'education': 'education',
+  'skills': 'skills',
+  'technical skills': 'skills',
+  'projects': 'projects',
+  'personal projects': 'projects',
+  'experience & projects': 'experienceProjects',
+  'experience and projects': 'experienceProjects',
+};
+
+/**
+ * H3 entry with its text lines and bullets
+ */
+interface MarkdownEntry {
+  heading: string;
+  lines: string[];
+  bullets: string[];
+}
+
+/**
+ * H2 section with loose content and entries
+ */
+interface MarkdownSection {
+  key: SectionKey;
+  lines: string[];
+  bullets: string[];
+  entries: MarkdownEntry[];
+}
+
+/**
+ * Parsed document outline
+ */
+interface MarkdownOutline {
+  name: string;
+  contactLines: string[];
+  sections: MarkdownSection[];
+}
+
+/**
+ * Strip inline Markdown (links, emphasis, escapes) down to plain text
+ * With keepEmphasis, bold and italic become resume markup (**bold**, _italic_)
+ * and literal markers are escaped so they stay literal
+ */
+function cleanInline(text: string, keepEmphasis = false): string {
+  // Emphasis is parked on NUL and SOH (never valid input) until escapes are resolved
+  const plain = text
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__)(.+?)\1/g, keepEmphasis ? '\0$2\0' : '$2')
+    .replace(/(^|[^\\\w])([*_])(\S(?:.*?\S)?)\2(?!\w)/g, keepEmphasis ? '$1\u0001$3\u0001' : '$1$3')
+    .replace(/\\([\\`*_[\]<>#+\-.!()|])/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (!keepEmphasis) return plain;
+
+  const spans: TextSpan[] = plain
+    .split(/(\0[^\0]*\0|\u0001[^\u0001]*\u0001)/)
+    .filter(part => part !== '')
+    .map(part => {
+      if (part[0] === '\0') return { text: part.slice(1, -1), bold: true };
+      if (part[0] === '\u0001') return { text: part.slice(1, -1), italic: true };
+      return { text: part };
+    });
+  return formatInlineMarkup(spans);
+}
+
+/**
+ * Split Markdown source into an outline of name, contact lines and sections
+ */
+function buildOutline(markdown: string, warnings: ImportWarning[]): MarkdownOutline {
+  const outline: MarkdownOutline = { name: '', contactLines: [], sections: [] };
+  let section: MarkdownSection | null = null;
+  let skippingSection = false;
+  let entry: MarkdownEntry | null = null;
+  let lastBullets: string[] | null = null;
+
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+
+  for (const rawLine of lines) {
+    const line = rawLine.replace(/\\$/, '').trimEnd();
+
+    if (line.trim() === '') {
+      lastBullets = null;
+      continue;
+    }
+
+    const heading = /^(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+    if (heading) {
+      const level = heading[1].length;
+      const text = cleanInline(heading[2]);
+      lastBullets = null;
+
+      if (level === 1) {
+        if (outline.name === '') {
+          outline.name = text;
+        } else {
+          warnings.push({ field: 'contact.fullName', message: `Ignored additional H1 heading "${text}"` });
+        }
+        continue;
+      }
+
+      if (level === 2) {
+        entry = null;
+        const key = SECTION_TITLES[text.toLowerCase()];
+        if (key === undefined) {
+          section = null;
+          skippingSection = true;
+          warnings.push({ field: 'sections', message: `Skipped unrecognized section "${text}"` });
+        } else {
+          section = { key, lines: [], bullets: [], entries: [] };
+          skippingSection = false;
+          outline.sections.push(section);
+        }
+        continue;
+      }
+
+      if (section) {
+        entry = { heading: text, lines: [], bullets: [] };
+        section.entries.push(entry);
+      }
+      continue;
+    }
+
+    if (skippingSection) continue;
+
+    // Entry bullets and the summary keep emphasis as resume markup
+    const keepEmphasis = entry !== null || section?.key === 'summary';
+
+    const bullet = /^\s*[-*+]\s+(.*)$/.exec(line);
+    if (bullet) {
+      const target = entry ? entry.bullets : section ? section.bullets : null;
+      if (target) {
+        target.push(cleanInline(bullet[1], keepEmphasis));
+        lastBullets = target;
+      } else {
+        outline.contactLines.push(cleanInline(bullet[1]));
+      }
+      continue;
+    }
+
+    // Indented continuation of the previous bullet
+    if (lastBullets && /^\s+\S/.test(line)) {
+      lastBullets[lastBullets.length - 1] += ` ${cleanInline(line, keepEmphasis)}`;
+      continue;
+    }
+    lastBullets = null;
+
+    if (entry) {
+      entry.lines.push(cleanInline(line));
+    } else if (section) {
+      section.lines.push(cleanInline(line, section.key === 'summary'));
+    } else {
+      outline.contactLines.push(cleanInline(line));
+    }
+  }
+
+  return outline;
+}
+
+/**
+ * Detect a date range line such as "2021-03 - Present" or "Jan 2020 – Dec 2022"
+ */
+function isDateRange(text: string): boolean {
+  return /\b(19|20)\d{2}\b|\bpresent\b|\bcurrent\b/i.test(text) && text.length <= 60;
+}
+
+/**
+ * Parse a date range into start and optional end date
+ */
+function parseDateRange(text: string): { startDate: string; endDate?: string } {
+  const [start, end] = text.split(/\s+[-–—]\s+|\s+to\s+/i).map(part => part.trim());
+  if (!end || /^(present|current|now)$/i.test(end)) {
+    return { startDate: start };
+  }
+  return { startDate: start, endDate: end };
+}
+
+/**
+ * Detect a bare link (URL or domain path without spaces)
+ */
+function isLink(text: string): boolean {
+  return /^(https?:\/\/)?[\w-]+(\.[\w-]+)+(\/\S*)?$/i.test(text);
+}
+
+/**
+ * Assign contact parts (email, phone, links, location) by their shape
+ */
+function parseContact(name: string, lines: string[]): ContactInfo {
+  const contact: ContactInfo = { fullName: name, email: '', phone: '', location: '' };
+
+  for (const line of lines) {
+    const parts = line.split(/\s+[|•·]\s+/).map(part => part.trim()).filter(Boolean);
+
+    // A single plain line before any contact details is the job title
+    if (parts.length === 1 && !contact.jobTitle && !contact.email && !contact.phone) {
+      const part = parts[0];
+      if (!/@/.test(part) && !isLink(part) && !/\d{3}/.test(part)) {
+        contact.jobTitle = part;
+        continue;
+      }
+    }
+
+    for (const part of parts) {
+      const lower = part.toLowerCase();
+      if (/^[^\s@]+@[^\s@]+\.[a-z]{2,}$/i.test(part)) {
+        contact.email = part;
+      } else if (lower.includes('linkedin.')) {
+        contact.linkedin = part;
+      } else if (lower.includes('github.')) {
+        contact.github = part;
+      } else if (/^@\w+$/.test(part) || lower.includes('twitter.') || lower.includes('x.com/')) {
+        contact.twitter = part;
+      } else if (isLink(part)) {
+        contact.portfolio = part;
+      } else if (/^[+()\d][\d\s().-]{6,}$/.test(part)) {
+        contact.phone = part;
+      } else if (!contact.location) {
+        contact.location = part;
+      }
+    }
+  }
+
+  return contact;
+}
+
+/**
+ * Split "Company - Location" into its parts
+ */
+function parseCompanyLine(text: string): { company: string; location?: string } {
+  const index = text.lastIndexOf(' - ');
+  if (index <= 0) {
+    return { company: text };
+  }
+  return { company: text.slice(0, index).trim(), location: text.slice(index + 3).trim() };
+}
+
+/**
+ * Split a "Title — Organization" entry heading at the first em dash
+ */
+function splitEntryHeading(heading: string): { title: string; organization?: string } {
+  const index = heading.indexOf(' — ');
+  if (index <= 0) {
+    return { title: heading };
+  }
+  return { title: heading.slice(0, index).trim(), organization: heading.slice(index + 3).trim() };
+}
+
+/**
+ * Parse a work experience entry
+ * Accepts "Role — Company" headings (location on its own line) and
+ * plain role headings followed by a "Company - Location" line
+ */
+function parseExperienceEntry(entry: MarkdownEntry): WorkExperience {
+  const { title, organization } = splitEntryHeading(entry.heading);
+  const experience: WorkExperience = {
+    role: title,
+    company: organization ?? '',
+    startDate: '',
+    description: entry.bullets,
+  };
+
+  for (const line of entry.lines) {
+    if (!experience.startDate && isDateRange(line)) {
+      Object.assign(experience, parseDateRange(line));
+    } else if (!experience.company) {
+      Object.assign(experience, parseCompanyLine(line));
+    } else if (organization && !experience.location) {
+      experience.location = line;
+    }
+  }
+
+  return experience;
+}
+
+/**
+ * Parse an education entry
+ */
+function parseEducationEntry(entry: MarkdownEntry): Education {
+  const { title, organization } = splitEntryHeading(entry.heading);
+  const inIndex = title.indexOf(' in ');
+  const education: Education = {
+    degree: inIndex > 0 ? title.slice(0, inIndex).trim() : title,
+    institution: organization ?? '',
+    startDate: '',
+  };
+  if (inIndex > 0) {
+    education.fieldOfStudy = title.slice(inIndex + 4).trim();
+  }
+
+  for (const line of entry.lines) {
+    const coursework = /^relevant coursework:\s*(.*)$/i.exec(line);
+    if (coursework) {
+      education.relevantCourseWork = coursework[1].split(/,\s*/).filter(Boolean);
+      continue;
+    }
+
+    const parts = line.split(/\s+[•|]\s+/);
+    const gpaPart = parts.find(part => /^c?gpa:/i.test(part));
+    const datePart = parts.find(part => isDateRange(part) && !/^c?gpa:/i.test(part));
+
+    if (gpaPart || (datePart && !education.startDate)) {
+      if (gpaPart) education.cgpa = gpaPart.replace(/^c?gpa:\s*/i, '');
+      if (datePart) Object.assign(education, parseDateRange(datePart));
+    } else if (!education.institution) {
+      education.institution = line;
+    }
+  }
+
+  return education;
+}
+
+/**
+ * Parse a project entry
+ */
+function parseProjectEntry(entry: MarkdownEntry): Project {
+  const project: Project = { name: entry.heading, description: entry.bullets };
+
+  for (const line of entry.lines) {
+    for (const part of line.split(/\s+•\s+/)) {
+      if (!project.link && isLink(part)) {
+        project.link = part;
+      } else {
+        project.techStack = [...(project.techStack ?? []), ...part.split(/,\s*/).filter(Boolean)];
+      }
+    }
+  }
+
+  return project;
+}
+
+/**
+ * Parse a combined "Experience & Projects" entry
+ * "Role — Company" (or "Role at Company") headings with a date line are
+ * experience, others projects
+ */
+function parseCombinedEntry(entry: MarkdownEntry): WorkExperience | Project {
+  const { title, organization } = splitEntryHeading(entry.heading);
+  const atIndex = entry.heading.lastIndexOf(' at ');
+  const metaParts = entry.lines.flatMap(line => line.split(/\s+•\s+/));
+  const datePart = metaParts.find(isDateRange);
+
+  if ((!organization && atIndex <= 0) || !datePart) {
+    return parseProjectEntry(entry);
+  }
+
+  const location = metaParts.find(part => part !== datePart);
+  return {
+    role: organization ? title : entry.heading.slice(0, atIndex).trim(),
+    company: organization ?? entry.heading.slice(atIndex + 4).trim(),
+    ...(location ? { location } : {}),
+    ...parseDateRange(datePart),
+    description: entry.bullets,
+  };
+}
+
+/**
+ * Parse skills lines, restoring category prefixes that keyword
+ * categorization would not reproduce
+ */
+function parseSkills(lines: string[]): string[] {
+  const skills: string[] = [];
+
+  for (const line of lines) {
+    const categorized = /^([^:,]+):\s+(.+)$/.exec(line);
+    const category = categorized ? categorized[1].trim() : null;
+    const items = (categorized ? categorized[2] : line).split(/,\s*/).map(item => item.trim()).filter(Boolean);
+
+    for (const item of items) {
+      skills.push(category ? withCategoryPrefix(category, item) ?? `${category}: ${item}` : item);
+    }
+  }
+
+  return skills;
+}
+
+/**
+ * Parse a Markdown resume into the Resume schema
+ *
+ * The resume is validated with validateResume(); fields the Markdown did not
+ * provide are left empty so validation reports them.
+ *
+ * @param markdown - Markdown source
+ * @returns Import result with resume, section order, validation and warnings
+ */
+export function parseMarkdownResume(markdown: string): ImportResult {
+  const warnings: ImportWarning[] = [];
+  const outline = buildOutline(markdown, warnings);
+
+  const resume: Resume = {
+    contact: parseContact(outline.name, outline.contactLines),
+    summary: { summary: '' },
+    experience: [],
+    education: [],
+    skills: { skills: [] },
+    projects: [],
+  };
+  const sectionOrder: string[] = ['contact'];
+
+  for (const section of outline.sections) {
+    if (!sectionOrder.includes(section.key)) {
+      sectionOrder.push(section.key);
+    }
+
+    switch (section.key) {
+      case 'summary':
+        resume.summary.summary = [...section.lines, ...section.bullets].join(' ');
+        break;
+      case 'experience':
+        resume.experience.push(...section.entries.map(parseExperienceEntry));
+        break;
+      case 'education':
+        resume.education.push(...section.entries.map(parseEducationEntry));
+        break;
+      case 'skills':
+        resume.skills.skills.push(...parseSkills([...section.lines, ...section.bullets]));
+        break;
+      case 'projects':
+        resume.projects.push(...section.entries.map(parseProjectEntry));
+        break;
+      case 'experienceProjects':
+        resume.combinedExperienceProjects = true;
+        for (const entry of section.entries.map(parseCombinedEntry)) {
+          if ('role' in entry) {
+            resume.experience.push(entry);
+          } else {
+            resume.projects.push(entry);
+          }
+        }
+        break;
+    }
+
+    const looseCount = section.lines.length + section.bullets.length;
+    if (section.key !== 'summary' && section.key !== 'skills' && looseCount > 0) {
+      warnings.push({
+        field: section.key,
+        message: `Ignored ${looseCount} line(s) outside of "###" entries`,
+      });
+    }
+  }
+
+  return {
+    resume,
+    sectionOrder,
+    validation: validateResume(resume),
+    warnings,
+  };
+}
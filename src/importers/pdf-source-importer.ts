@@ -0,0 +1,148 @@
+/**
+ * QuickCV PDF Importer
+ *
+ * Restores editable resume data from the JSON file the PDF renderer
+ * attaches to generated PDFs. Reads the object layout PDFKit writes
+ * (no object streams); PDFs rewritten by other tools may not be readable.
+ * Server-side only (Node.js).
+ */
+
+import type { Resume } from '../types/resume.types.js';
+import type { PdfImportResult, ImportWarning } from '../types/import.types.js';
+import { DEFAULT_VALIDATION_LIMITS } from '../types/validation.types.js';
+import {
+  EMBEDDED_SOURCE_CONFIG,
+  isValidPageSize,
+  isValidPageMargins,
+  isValidFitToPages,
+  isValidTextAlignment,
+} from '../renderer/renderer-config.js';
+import { isPlainObject, isStructureSafe } from '../utils/depth-check.js';
+import { validateResume } from '../validators/resume-validator.js';
+import { openPdf, readStream } from '../utils/pdf-objects.js';
+
+const FONT_PROFILES = ['sans', 'serif', 'mono'] as const;
+const DENSITY_PRESETS = ['normal', 'compact', 'ultra-compact'] as const;
+
+/**
+ * Find the object number of the embedded source file stream
+ */
+function findAttachmentObject(pdf: string): number | null {
+  const fileName = `(${EMBEDDED_SOURCE_CONFIG.fileName})`;
+  const fileSpecs = pdf.match(/\/Type\s*\/Filespec[\s\S]*?endobj/g) ?? [];
+
+  for (const fileSpec of fileSpecs) {
+    if (!fileSpec.includes(fileName)) continue;
+
+    const embeddedFile = /\/EF\s*<<\s*\/F\s+(\d+)\s+0\s+R/.exec(fileSpec);
+    if (embeddedFile) {
+      return parseInt(embeddedFile[1], 10);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Restore resume data from a QuickCV-generated PDF
+ *
+ * @param pdf - PDF file contents
+ * @returns Import result, or null when the PDF carries no readable QuickCV data
+ */
+export function importResumeFromPdf(pdf: Uint8Array): PdfImportResult | null {
+  const source = openPdf(pdf);
+  if (!source) return null;
+
+  const objectNumber = findAttachmentObject(source.text);
+  if (objectNumber === null) return null;
+
+  let data: unknown;
+  try {
+    // Output is capped at the JSON size limit to guard against compression bombs
+    const stream = readStream(source, objectNumber, DEFAULT_VALIDATION_LIMITS.maxJsonSize);
+    if (!stream) return null;
+    data = JSON.parse(stream.toString('utf8'));
+  } catch {
+    // Corrupt stream, oversized payload or invalid JSON
+    return null;
+  }
+
+  if (!isPlainObject(data) || !isStructureSafe(data, DEFAULT_VALIDATION_LIMITS.maxObjectDepth)) {
+    return null;
+  }
+
+  const {
+    sectionOrder,
+    fontProfile,
+    densityPreset,
+    pageSize,
+    margins,
+    fitToPages,
+    runningHeader,
+    textAlign,
+    hyphenate,
+    ...resume
+  } = data;
+  const warnings: ImportWarning[] = [];
+  const result: PdfImportResult = {
+    resume: resume as unknown as Resume,
+    validation: validateResume(resume),
+    warnings,
+  };
+
+  if (Array.isArray(sectionOrder) && sectionOrder.every(key => typeof key === 'string')) {
+    result.sectionOrder = sectionOrder;
+  } else if (sectionOrder !== undefined) {
+    warnings.push({ field: 'sectionOrder', message: 'Stored section order is invalid; default order used' });
+  }
+
+  if (FONT_PROFILES.includes(fontProfile as typeof FONT_PROFILES[number])) {
+    result.fontProfile = fontProfile as typeof FONT_PROFILES[number];
+  } else if (fontProfile !== undefined) {
+    warnings.push({ field: 'fontProfile', message: `Unknown font profile "${String(fontProfile)}" ignored` });
+  }
+
+  if (DENSITY_PRESETS.includes(densityPreset as typeof DENSITY_PRESETS[number])) {
+    result.densityPreset = densityPreset as typeof DENSITY_PRESETS[number];
+  } else if (densityPreset !== undefined) {
+    warnings.push({ field: 'densityPreset', message: `Unknown density preset "${String(densityPreset)}" ignored` });
+  }
+
+  if (isValidPageSize(pageSize)) {
+    result.pageSize = pageSize;
+  } else if (pageSize !== undefined) {
+    warnings.push({ field: 'pageSize', message: `Unknown page size "${String(pageSize)}" ignored` });
+  }
+
+  if (isValidPageMargins(margins)) {
+    result.margins = margins;
+  } else if (margins !== undefined) {
+    warnings.push({ field: 'margins', message: 'Stored margins are invalid; default margins used' });
+  }
+
+  if (isValidFitToPages(fitToPages)) {
+    result.fitToPages = fitToPages;
+  } else if (fitToPages !== undefined) {
+    warnings.push({ field: 'fitToPages', message: 'Stored fit-to-pages target is invalid and was ignored' });
+  }
+
+  if (typeof runningHeader === 'boolean') {
+    result.runningHeader = runningHeader;
+  } else if (runningHeader !== undefined) {
+    warnings.push({ field: 'runningHeader', message: 'Stored running header setting is invalid and was ignored' });
+  }
+
+  if (isValidTextAlignment(textAlign)) {
+    result.textAlign = textAlign;
+  } else if (textAlign !== undefined) {
+    warnings.push({ field: 'textAlign', message: `Unknown text alignment "${String(textAlign)}" ignored` });
+  }
+
+  if (typeof hyphenate === 'boolean') {
+    result.hyphenate = hyphenate;
+  } else if (hyphenate !== undefined) {
+    warnings.push({ field: 'hyphenate', message: 'Stored hyphenation setting is invalid and was ignored' });
+  }
+
+  return result;
+}
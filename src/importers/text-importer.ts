@@ -0,0 +1,864 @@
+/**
+ * Plain-Text Resume Importer
+ *
+ * Builds a draft Resume from unstructured text, such as a resume copied
+ * out of a word processor or PDF viewer. Section headings are recognized
+ * by a synonym dictionary and entries are split at date ranges. Every
+ * detected field is annotated with a confidence level for review.
+ */
+
+import type {
+  Resume,
+  ContactInfo,
+  WorkExperience,
+  Education,
+  Project,
+} from '../types/resume.types.js';
+import type {
+  TextImportResult,
+  ImportWarning,
+  FieldConfidence,
+  ImportConfidence,
+} from '../types/import.types.js';
+import type { SectionKey } from '../transformers/resume-to-document.transformer.js';
+import { withCategoryPrefix } from '../transformers/resume-to-document.transformer.js';
+import { validateResume } from '../validators/resume-validator.js';
+import { toEditorDate } from '../utils/dates.js';
+import { TEXT_CONFIG } from '../renderer/renderer-config.js';
+
+type TextSectionKey = Exclude<SectionKey, 'contact' | 'experienceProjects'>;
+
+/**
+ * Section heading synonyms (lowercase) mapped to section keys
+ */
+const SECTION_SYNONYMS: Record<string, TextSectionKey> = {
+  'summary': 'summary',
+  'professional summary': 'summary',
+  'career summary': 'summary',
+  'executive summary': 'summary',
+  'profile': 'summary',
+  'professional profile': 'summary',
+  'personal profile': 'summary',
+  'about': 'summary',
+  'about me': 'summary',
+  'overview': 'summary',
+  'objective': 'summary',
+  'career objective': 'summary',
+  'experience': 'experience',
+  'work experience': 'experience',
+  'professional experience': 'experience',
+  'relevant experience': 'experience',
+  'employment': 'experience',
+  'employment history': 'experience',
+  'work history': 'experience',
+  'career history': 'experience',
+  'professional background': 'experience',
+  'positions held': 'experience',
+  'education': 'education',
+  'education and training': 'education',
+  'education & training': 'education',
+  'academic background': 'education',
+  'academic history': 'education',
+  'academic qualifications': 'education',
+  'qualifications': 'education',
+  'skills': 'skills',
+  'technical skills': 'skills',
+  'key skills': 'skills',
+  'core skills': 'skills',
+  'core competencies': 'skills',
+  'competencies': 'skills',
+  'areas of expertise': 'skills',
+  'expertise': 'skills',
+  'technologies': 'skills',
+  'technical proficiencies': 'skills',
+  'skills & tools': 'skills',
+  'skills and tools': 'skills',
+  'projects': 'projects',
+  'personal projects': 'projects',
+  'selected projects': 'projects',
+  'key projects': 'projects',
+  'side projects': 'projects',
+  'academic projects': 'projects',
+};
+
+/**
+ * Words that mark a job title
+ */
+const ROLE_KEYWORDS = /\b(engineer|developer|programmer|manager|intern|analyst|designer|consultant|lead|director|architect|scientist|specialist|officer|assistant|administrator|coordinator|head|founder|co-founder|associate|president|vp|cto|ceo|cfo|coo|owner|technician|teacher|lecturer|researcher|editor|writer|accountant|representative|supervisor|advisor|strategist|executive|contractor|freelancer)s?\b/i;
+
+/**
+ * Words that mark an educational institution
+ */
+const INSTITUTION_KEYWORDS = /\b(university|universität|universidad|université|college|institute|school|academy|polytechnic|conservatory|bootcamp)\b/i;
+
+/**
+ * Words and abbreviations that mark a degree
+ */
+const DEGREE_KEYWORDS = /\b(bachelor|master|doctor|doctorate|ph\.?\s?d|mba|diploma|degree|certificate|b\.?\s?sc|m\.?\s?sc|b\.?\s?a|m\.?\s?a|b\.?\s?s|m\.?\s?s|b\.?\s?eng|m\.?\s?eng|b\.?\s?tech|m\.?\s?tech)\b/i;
+
+/**
+ * Legal-form suffixes that mark a company name
+ */
+const COMPANY_SUFFIXES = /\b(inc|ltd|llc|llp|gmbh|corp|corporation|plc|ag|bv|pty|limited)\b/i;
+
+/**
+ * Place names separated by commas: "City, Region" up to "City, Region, Country"
+ */
+const PLACE_NAME = "\\p{Lu}[\\p{L}.'-]*(?:[ -](?:\\p{Lu}[\\p{L}.'-]*|de|del|do|da|am|an|upon|on)){0,3}";
+const PLACE_LIST = new RegExp(`^${PLACE_NAME}(?:,\\s*${PLACE_NAME}){1,2}$`, 'u');
+
+/**
+ * Date patterns: "Jan 2020", "January 2020", "01/2020", "2020-01", "2020"
+ */
+const MONTH_PATTERN = '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+const DATE_PATTERN = `(?:${MONTH_PATTERN}\\s+\\d{4}|\\d{1,2}\\/\\d{4}|\\d{4}-\\d{2}|(?:19|20)\\d{2})`;
+const DATE_RANGE = new RegExp(`\\b(${DATE_PATTERN})\\s*(?:-|–|—|to|until)\\s*(${DATE_PATTERN}|present|current|now|today)\\b`, 'i');
+const SINGLE_DATE = new RegExp(`\\b(${DATE_PATTERN})\\b`, 'i');
+
+/**
+ * Separators between parts of a heading or contact line
+ * (pipes, bullets, dashes between spaces, tabs and column gaps)
+ */
+const PART_SEPARATOR = /\s*[|•·◆]\s*|\t+|\s{3,}|\s+[–—-]\s+/;
+
+/**
+ * Bullet markers at the start of a line
+ */
+const BULLET_MARKER = /^(?:[•·▪◦‣●○■□➢➤►✓✔*-])\s*/;
+
+/**
+ * Labeled detail line ("Tech stack: Go, SQLite")
+ */
+const LABELED_LINE = /^[^:]{1,25}:\s/;
+
+/**
+ * Non-empty line of pasted text
+ */
+interface TextLine {
+  text: string;
+  bullet: boolean;
+  blankBefore: boolean; // Preceded by an empty line
+}
+
+/**
+ * Section with its lines, headed by a recognized heading
+ */
+interface TextSection {
+  key: TextSectionKey;
+  heading: string;
+  lines: TextLine[];
+}
+
+/**
+ * Parsed text outline
+ */
+interface TextOutline {
+  headerLines: TextLine[]; // Lines before the first heading
+  sections: TextSection[];
+}
+
+/**
+ * Entry heading split into parts, with its date and remaining lines
+ */
+interface TextEntry {
+  parts: string[];
+  dateRange: RegExpExecArray | null;
+  singleDate: string | null;
+  body: TextLine[];
+}
+
+/**
+ * Split text into non-empty lines, marking bullets and preceding blank lines
+ */
+function splitLines(text: string): TextLine[] {
+  const lines: TextLine[] = [];
+  let blankBefore = false;
+
+  for (const rawLine of text.replace(/\r\n?/g, '\n').split('\n')) {
+    const trimmed = rawLine.replace(/\u00a0/g, ' ').replace(/[\u200e\u200f]/g, '').trim();
+    if (trimmed === '') {
+      blankBefore = true;
+      continue;
+    }
+
+    // Heading underlines ("=====") carry no text
+    if (/^[=_~-]{3,}$/.test(trimmed)) {
+      continue;
+    }
+
+    const bullet = BULLET_MARKER.test(trimmed) && trimmed.length > 2;
+    lines.push({
+      text: bullet ? trimmed.replace(BULLET_MARKER, '') : trimmed,
+      bullet,
+      blankBefore,
+    });
+    blankBefore = false;
+  }
+
+  return lines;
+}
+
+/**
+ * Collapse whitespace and trim stray punctuation left by removed parts
+ */
+function cleanPart(text: string): string {
+  return text.replace(/\s+/g, ' ').replace(/^[\s,;:()[\]]+|[\s,;:()[\]]+$/g, '');
+}
+
+/**
+ * Split a heading or contact line into its parts
+ */
+function splitParts(text: string): string[] {
+  return text.split(PART_SEPARATOR).map(cleanPart).filter(part => part !== '');
+}
+
+/**
+ * Match a line against the section synonym dictionary
+ */
+function matchSectionHeading(line: TextLine): TextSectionKey | null {
+  if (line.bullet || line.text.length > 40) return null;
+  const title = line.text
+    .replace(/^#+\s*/, '')
+    .replace(/[\s:]+$/, '')
+    .replace(/\s+/g, ' ')
+    .toLowerCase();
+  return SECTION_SYNONYMS[title] ?? null;
+}
+
+/**
+ * Detect a heading outside the dictionary ("CERTIFICATIONS", "Interests:")
+ */
+function looksLikeHeading(line: TextLine): boolean {
+  if (line.bullet || line.text.length > 40 || /\d/.test(line.text)) return false;
+  const words = line.text.split(/\s+/).length;
+  return words <= 4 && (/^[A-Z][A-Z &/'-]{2,}$/.test(line.text) || /^[A-Z][\w &/'-]*:$/.test(line.text));
+}
+
+/**
+ * Detect a short line that can head an entry
+ */
+function isHeadingLine(line: TextLine): boolean {
+  return !line.bullet && line.text.length <= 100 && !/[.!?]$/.test(line.text);
+}
+
+/**
+ * Detect sentence text (mostly lowercase words) rather than a name or title
+ */
+function looksLikeSentence(text: string): boolean {
+  const words = text.split(/\s+/);
+  return words.length >= 4 && words.filter(word => /^\p{Ll}/u.test(word)).length * 2 > words.length;
+}
+
+/**
+ * Split lines into the header block and recognized sections
+ * Sections under unrecognized headings are skipped with a warning
+ */
+function buildOutline(lines: TextLine[], warnings: ImportWarning[]): TextOutline {
+  const outline: TextOutline = { headerLines: [], sections: [] };
+  let section: TextSection | null = null;
+  let skipping = false;
+
+  for (const line of lines) {
+    const key = matchSectionHeading(line);
+    if (key !== null) {
+      section = { key, heading: cleanPart(line.text.replace(/^#+/, '')), lines: [] };
+      skipping = false;
+      outline.sections.push(section);
+      continue;
+    }
+
+    // Name and contact lines often look like headings, so only check after the first section
+    if (outline.sections.length > 0 && looksLikeHeading(line)) {
+      warnings.push({ field: 'sections', message: `Skipped unrecognized section "${cleanPart(line.text)}"` });
+      section = null;
+      skipping = true;
+      continue;
+    }
+
+    if (skipping) continue;
+
+    if (section) {
+      section.lines.push(line);
+    } else {
+      outline.headerLines.push(line);
+    }
+  }
+
+  return outline;
+}
+
+/**
+ * Record a confidence annotation
+ */
+function annotate(
+  confidence: FieldConfidence[],
+  field: string,
+  level: ImportConfidence,
+  reason: string
+): void {
+  confidence.push({ field, confidence: level, reason });
+}
+
+/**
+ * Detect a person's name (two to four capitalized words)
+ */
+function looksLikeName(text: string): boolean {
+  return /^\p{Lu}[\p{L}'.-]*(\s+\p{Lu}[\p{L}'.-]*){1,3}$/u.test(text);
+}
+
+/**
+ * Detect a location such as "Austin, TX", "Berlin, Germany", "São Paulo, SP, Brazil" or "Remote"
+ * Places are up to four capitalized words; names of roles, schools, degrees and companies are not places
+ */
+function looksLikeLocation(text: string): boolean {
+  if (/^remote$/i.test(text)) return true;
+  // Region codes such as MA and MS read as degree abbreviations
+  const words = text.replace(/\b[A-Z]{2}\b/g, '');
+  return PLACE_LIST.test(text) &&
+    !ROLE_KEYWORDS.test(text) && !INSTITUTION_KEYWORDS.test(text) && !DEGREE_KEYWORDS.test(words) && !COMPANY_SUFFIXES.test(text);
+}
+
+/**
+ * Detect a bare link (URL or domain path without spaces)
+ */
+function isLink(text: string): boolean {
+  return /^(https?:\/\/)?(www\.)?[\w-]+(\.[\w-]+)+(\/\S*)?$/i.test(text);
+}
+
+/**
+ * Parse the header block into contact details
+ * Long sentences in the header are returned as summary text
+ */
+function parseHeader(
+  lines: TextLine[],
+  confidence: FieldConfidence[],
+  warnings: ImportWarning[]
+): { contact: ContactInfo; summaryLines: string[] } {
+  const contact: ContactInfo = { fullName: '', email: '', phone: '', location: '' };
+  const summaryLines: string[] = [];
+
+  lines.forEach((line, lineIndex) => {
+    // Paragraph text in the header is an unlabeled summary
+    if (line.text.length > 120 || (line.text.split(/\s+/).length >= 12 && /[.!?]$/.test(line.text))) {
+      summaryLines.push(line.text);
+      return;
+    }
+
+    const parts = splitParts(line.text);
+
+    parts.forEach((rawPart, partIndex) => {
+      const label = /^(e-?mail|phone|tel|mobile|cell|linkedin|github|twitter|web(?:site)?|portfolio|location|address)\s*:\s*/i.exec(rawPart);
+      const part = label ? rawPart.slice(label[0].length) : rawPart;
+      const lower = part.toLowerCase();
+
+      if (lineIndex === 0 && partIndex === 0) {
+        contact.fullName = part;
+        if (looksLikeName(part)) {
+          annotate(confidence, 'contact.fullName', 'high', 'first line, capitalized words');
+        } else {
+          annotate(confidence, 'contact.fullName', 'low', 'first line of the text');
+        }
+      } else if (/^[^\s@]+@[^\s@]+\.[a-z]{2,}$/i.test(part)) {
+        contact.email = part;
+        annotate(confidence, 'contact.email', 'high', 'email address format');
+      } else if (/^[+(]?\d[\d\s().-]{6,}\d$/.test(part)) {
+        contact.phone = part;
+        annotate(confidence, 'contact.phone', 'high', 'phone number format');
+      } else if (lower.includes('linkedin.')) {
+        contact.linkedin = part;
+        annotate(confidence, 'contact.linkedin', 'high', 'linkedin.com link');
+      } else if (lower.includes('github.')) {
+        contact.github = part;
+        annotate(confidence, 'contact.github', 'high', 'github.com link');
+      } else if (/^@\w+$/.test(part) || lower.includes('twitter.') || lower.includes('x.com/')) {
+        contact.twitter = part;
+        annotate(confidence, 'contact.twitter', 'medium', 'handle or twitter.com link');
+      } else if (isLink(part) && !contact.portfolio) {
+        contact.portfolio = part;
+        annotate(confidence, 'contact.portfolio', 'medium', 'other link in the header');
+      } else if (!contact.location && (looksLikeLocation(part) || /^(location|address)/i.test(label?.[1] ?? ''))) {
+        contact.location = part;
+        annotate(confidence, 'contact.location', 'medium', label ? 'labeled location' : 'place name format');
+      } else if (!contact.jobTitle && parts.length === 1 && lineIndex === 1 && !/\d/.test(part)) {
+        contact.jobTitle = part;
+        if (ROLE_KEYWORDS.test(part)) {
+          annotate(confidence, 'contact.jobTitle', 'medium', 'line under the name with a job title keyword');
+        } else {
+          annotate(confidence, 'contact.jobTitle', 'low', 'line under the name');
+        }
+      } else {
+        warnings.push({ field: 'contact', message: `Ignored header text "${part}"` });
+      }
+    });
+  });
+
+  return { contact, summaryLines };
+}
+
+/**
+ * Detect a line carrying an entry's dates
+ */
+function isDateLine(line: TextLine, allowSingleDate: boolean): boolean {
+  return !line.bullet && (DATE_RANGE.test(line.text) || (allowSingleDate && SINGLE_DATE.test(line.text)));
+}
+
+/**
+ * Find where entries start
+ * Date lines anchor entries and take up to two heading lines above them;
+ * without dates, entries are blocks of text separated by blank lines
+ */
+function findEntryStarts(lines: TextLine[], allowSingleDate: boolean): number[] {
+  const anchors = lines.flatMap((line, index) => (isDateLine(line, allowSingleDate) ? [index] : []));
+
+  if (anchors.length === 0) {
+    return lines.flatMap((line, index) =>
+      isHeadingLine(line) && !LABELED_LINE.test(line.text) &&
+      (index === 0 || line.blankBefore || lines[index - 1].bullet) ? [index] : []);
+  }
+
+  const starts: number[] = [];
+  let previous = -1;
+  for (const anchor of anchors) {
+    let start = anchor;
+    while (
+      start - 1 > previous &&
+      anchor - start < 2 &&
+      isHeadingLine(lines[start - 1]) &&
+      !lines[start].blankBefore
+    ) {
+      start--;
+    }
+    starts.push(start);
+    previous = anchor;
+  }
+  return starts;
+}
+
+/**
+ * Split an entry into heading parts, date and body
+ */
+function readEntry(lines: TextLine[], allowSingleDate: boolean): TextEntry {
+  const entry: TextEntry = { parts: [], dateRange: null, singleDate: null, body: [] };
+  let index = 0;
+  let dated = false;
+
+  for (; index < lines.length; index++) {
+    const line = lines[index];
+    if (!isHeadingLine(line) || (index > 0 && line.blankBefore)) break;
+
+    // After the date line, only short lines can still supply a missing role
+    if (dated) {
+      const hasRole = entry.parts.some(part => ROLE_KEYWORDS.test(part));
+      if (line.text.length > 60 || LABELED_LINE.test(line.text) || looksLikeSentence(line.text)) break;
+      const locationLine = looksLikeLocation(line.text) && !entry.parts.some(looksLikeLocation);
+      if (entry.parts.length >= 3 || (entry.parts.length >= 2 && hasRole && !locationLine)) break;
+    }
+
+    let text = line.text;
+    if (!dated) {
+      const range = DATE_RANGE.exec(text);
+      const single = range ? null : allowSingleDate ? SINGLE_DATE.exec(text) : null;
+      if (range) {
+        entry.dateRange = range;
+        text = text.replace(range[0], ' | ');
+        dated = true;
+      } else if (single) {
+        entry.singleDate = single[1];
+        text = text.replace(single[0], ' | ');
+        dated = true;
+      }
+    }
+
+    entry.parts.push(...splitParts(text));
+
+    // Without dates the entry heading is its first line
+    if (!dated && !lines.slice(index + 1).some(next => isHeadingLine(next) && isDateLine(next, allowSingleDate))) {
+      index++;
+      break;
+    }
+  }
+
+  entry.body = lines.slice(index);
+  return entry;
+}
+
+/**
+ * Join body lines into description items
+ * Unbulleted lines right after a bullet continue it (wrapped text)
+ */
+function readDescription(body: TextLine[]): { items: string[]; bulleted: boolean } {
+  const items: string[] = [];
+  let inBullet = false;
+
+  for (const line of body) {
+    if (line.bullet) {
+      items.push(line.text);
+      inBullet = true;
+    } else if (inBullet && !line.blankBefore) {
+      items[items.length - 1] += ` ${line.text}`;
+    } else {
+      items.push(line.text);
+      inBullet = false;
+    }
+  }
+
+  return { items: items.map(cleanPart).filter(item => item !== ''), bulleted: body.some(line => line.bullet) };
+}
+
+/**
+ * Convert a matched date to the editor format and annotate it
+ */
+function readDate(value: string, field: string, confidence: FieldConfidence[]): string {
+  const date = toEditorDate(value);
+  if (date === null) {
+    annotate(confidence, field, 'low', 'date kept as written');
+    return value;
+  }
+  annotate(confidence, field, date.includes('/') ? 'high' : 'medium', date.includes('/') ? 'month and year' : 'year only');
+  return date;
+}
+
+/**
+ * Read start and end dates from a date range
+ * "Present" and similar end dates leave endDate unset
+ */
+function readDateRange(
+  range: RegExpExecArray,
+  field: string,
+  confidence: FieldConfidence[]
+): { startDate: string; endDate?: string } {
+  const startDate = readDate(range[1], `${field}.startDate`, confidence);
+  if (/^(present|current|now|today)$/i.test(range[2])) {
+    return { startDate };
+  }
+  return { startDate, endDate: readDate(range[2], `${field}.endDate`, confidence) };
+}
+
+/**
+ * Parse a work experience entry
+ */
+function parseExperienceEntry(
+  entry: TextEntry,
+  field: string,
+  confidence: FieldConfidence[],
+  warnings: ImportWarning[]
+): WorkExperience {
+  const experience: WorkExperience = { company: '', role: '', startDate: '', description: [] };
+
+  if (entry.dateRange) {
+    Object.assign(experience, readDateRange(entry.dateRange, field, confidence));
+  } else if (entry.singleDate) {
+    experience.startDate = readDate(entry.singleDate, `${field}.startDate`, confidence);
+  }
+
+  for (const part of entry.parts) {
+    const roleAtCompany = /^(.+?)(\s+(?:at|@)\s+|,\s+)(.+)$/i.exec(part);
+
+    if (!experience.role && roleAtCompany && ROLE_KEYWORDS.test(roleAtCompany[1])) {
+      experience.role = roleAtCompany[1];
+      experience.company = roleAtCompany[3];
+      annotate(confidence, `${field}.role`, 'high', 'job title keyword');
+      annotate(confidence, `${field}.company`, 'medium',
+        roleAtCompany[2].trim() === ',' ? '"Role, Company" pattern' : '"Role at Company" pattern');
+    } else if (!experience.role && ROLE_KEYWORDS.test(part)) {
+      experience.role = part;
+      annotate(confidence, `${field}.role`, 'high', 'job title keyword');
+    } else if (!experience.location && looksLikeLocation(part)) {
+      experience.location = part;
+      annotate(confidence, `${field}.location`, 'medium', 'place name format');
+    } else if (!experience.company) {
+      experience.company = part;
+      annotate(confidence, `${field}.company`, 'medium', 'entry heading text that is not a job title');
+    } else if (!experience.role) {
+      experience.role = part;
+      annotate(confidence, `${field}.role`, 'low', 'entry heading text after the company');
+    } else if (!experience.location) {
+      experience.location = part;
+      annotate(confidence, `${field}.location`, 'low', 'remaining entry heading text');
+    } else {
+      warnings.push({ field, message: `Ignored heading text "${part}"` });
+    }
+  }
+
+  const description = readDescription(entry.body);
+  experience.description = description.items;
+  if (description.items.length > 0) {
+    annotate(confidence, `${field}.description`, description.bulleted ? 'medium' : 'low',
+      description.bulleted ? 'bulleted lines under the entry' : 'text lines under the entry');
+  }
+
+  return experience;
+}
+
+/**
+ * Split a degree from an institution in one heading part
+ * ("B.Sc. Computer Science, Technical University of Munich")
+ */
+function splitDegree(part: string): string[] {
+  const pieces = part.split(/,\s+/);
+  if (pieces.length < 2 || !INSTITUTION_KEYWORDS.test(part)) return [part];
+  if (DEGREE_KEYWORDS.test(pieces[0]) && !INSTITUTION_KEYWORDS.test(pieces[0])) {
+    return [pieces[0], pieces.slice(1).join(', ')];
+  }
+  const last = pieces[pieces.length - 1];
+  if (DEGREE_KEYWORDS.test(last) && !INSTITUTION_KEYWORDS.test(last)) {
+    return [pieces.slice(0, -1).join(', '), last];
+  }
+  return [part];
+}
+
+/**
+ * Parse an education entry
+ */
+function parseEducationEntry(
+  entry: TextEntry,
+  field: string,
+  confidence: FieldConfidence[],
+  warnings: ImportWarning[]
+): Education {
+  const education: Education = { institution: '', degree: '', startDate: '' };
+
+  if (entry.dateRange) {
+    Object.assign(education, readDateRange(entry.dateRange, field, confidence));
+  } else if (entry.singleDate) {
+    // A single date is usually the graduation date
+    education.endDate = readDate(entry.singleDate, `${field}.endDate`, confidence);
+  }
+
+  const readGrade = (text: string): string => {
+    const grade = /\b(?:c?gpa|grade)\s*:?\s*([\d.,]+(?:\s*\/\s*[\d.]+)?)/i.exec(text);
+    if (!grade) return text;
+    education.cgpa = grade[1];
+    annotate(confidence, `${field}.cgpa`, 'high', 'GPA label');
+    return cleanPart(text.replace(grade[0], ''));
+  };
+
+  for (const rawPart of entry.parts.flatMap(splitDegree)) {
+    const part = readGrade(rawPart);
+    if (part === '') continue;
+
+    if (!education.institution && INSTITUTION_KEYWORDS.test(part)) {
+      education.institution = part;
+      annotate(confidence, `${field}.institution`, 'high', 'institution keyword');
+    } else if (!education.degree && DEGREE_KEYWORDS.test(part)) {
+      const inIndex = part.search(/\s+in\s+/i);
+      education.degree = inIndex > 0 ? part.slice(0, inIndex).trim() : part;
+      annotate(confidence, `${field}.degree`, 'high', 'degree keyword');
+      if (inIndex > 0) {
+        education.fieldOfStudy = part.slice(inIndex).replace(/^\s+in\s+/i, '').trim();
+        annotate(confidence, `${field}.fieldOfStudy`, 'medium', '"Degree in Field" pattern');
+      }
+    } else if (!education.institution) {
+      education.institution = part;
+      annotate(confidence, `${field}.institution`, 'low', 'entry heading text that is not a degree');
+    } else if (!education.degree) {
+      education.degree = part;
+      annotate(confidence, `${field}.degree`, 'low', 'entry heading text after the institution');
+    } else {
+      warnings.push({ field, message: `Ignored heading text "${part}"` });
+    }
+  }
+
+  for (const text of readDescription(entry.body).items) {
+    const coursework = /^(?:relevant\s+)?course\s*work\s*:\s*(.*)$/i.exec(text);
+    if (coursework) {
+      education.relevantCourseWork = coursework[1].split(/\s*[,;]\s*/).map(cleanPart).filter(Boolean);
+      annotate(confidence, `${field}.relevantCourseWork`, 'high', 'coursework label');
+      continue;
+    }
+
+    const remainder = readGrade(text);
+    if (remainder !== '') {
+      warnings.push({ field, message: `Ignored education detail "${remainder}"` });
+    }
+  }
+
+  return education;
+}
+
+/**
+ * Parse a project entry
+ */
+function parseProjectEntry(
+  entry: TextEntry,
+  field: string,
+  confidence: FieldConfidence[]
+): Project {
+  const project: Project = { name: '', description: [] };
+  const techStack: string[] = [];
+
+  for (const part of entry.parts) {
+    if (!project.name) {
+      project.name = part;
+      annotate(confidence, `${field}.name`, 'medium', 'first line of the entry');
+    } else if (!project.link && isLink(part)) {
+      project.link = part;
+      annotate(confidence, `${field}.link`, 'high', 'link format');
+    } else {
+      techStack.push(...part.split(/\s*,\s*/));
+    }
+  }
+
+  const description: string[] = [];
+  for (const text of readDescription(entry.body).items) {
+    const tech = /^(?:tech(?:nologies|\s*stack)?|stack|built with|tools)\s*:\s*(.*)$/i.exec(text);
+    if (tech) {
+      techStack.push(...tech[1].split(/\s*,\s*/));
+    } else if (!project.link && isLink(text)) {
+      project.link = text;
+      annotate(confidence, `${field}.link`, 'high', 'link format');
+    } else {
+      description.push(text);
+    }
+  }
+
+  project.description = description;
+  if (description.length > 0) {
+    annotate(confidence, `${field}.description`, 'medium', 'lines under the project name');
+  }
+
+  const stack = techStack.map(cleanPart).filter(Boolean);
+  if (stack.length > 0) {
+    project.techStack = stack;
+    annotate(confidence, `${field}.techStack`, 'medium', 'comma-separated list');
+  }
+
+  return project;
+}
+
+/**
+ * Parse skills lines, keeping "Category: a, b" groups as category prefixes
+ */
+function parseSkills(lines: TextLine[]): string[] {
+  const skills: string[] = [];
+
+  for (const line of lines) {
+    const categorized = /^([^:,]{2,40}):\s*(.+)$/.exec(line.text);
+    const category = categorized ? categorized[1].trim() : null;
+    const items = (categorized ? categorized[2] : line.text)
+      .split(/\s*[,;|•·]\s*|\t+|\s{3,}/)
+      .map(item => cleanPart(item).replace(/\.$/, ''))
+      .filter(Boolean);
+
+    for (const item of items) {
+      skills.push(category ? withCategoryPrefix(category, item) ?? `${category}: ${item}` : item);
+    }
+  }
+
+  return skills;
+}
+
+/**
+ * Split section lines into entries
+ */
+function readEntries(lines: TextLine[], allowSingleDate: boolean): { entries: TextEntry[]; ignored: number } {
+  const starts = findEntryStarts(lines, allowSingleDate);
+  const entries = starts.map((start, index) =>
+    readEntry(lines.slice(start, starts[index + 1] ?? lines.length), allowSingleDate));
+  return { entries, ignored: starts.length > 0 ? starts[0] : lines.length };
+}
+
+/**
+ * Parse pasted resume text into a draft Resume
+ *
+ * The resume is validated with validateResume(); fields the text did not
+ * provide are left empty so validation reports them. Each detected field
+ * is annotated with a confidence level and the reason it was recognized.
+ *
+ * @param text - Plain resume text
+ * @returns Import result with resume, section order, validation, warnings and confidence
+ */
+export function parseResumeText(text: string): TextImportResult {
+  const warnings: ImportWarning[] = [];
+  const confidence: FieldConfidence[] = [];
+  const outline = buildOutline(splitLines(text), warnings);
+
+  const header = parseHeader(outline.headerLines, confidence, warnings);
+  const resume: Resume = {
+    contact: header.contact,
+    summary: { summary: '' },
+    experience: [],
+    education: [],
+    skills: { skills: [] },
+    projects: [],
+    // Right-to-left plain-text exports mark every line
+    ...(text.includes(TEXT_CONFIG.rtlLineMark) ? { direction: 'rtl' as const } : {}),
+  };
+  const sectionOrder: string[] = ['contact'];
+
+  if (outline.sections.length === 0) {
+    warnings.push({ field: 'sections', message: 'No section headings recognized; only contact details were imported' });
+  }
+
+  for (const section of outline.sections) {
+    if (!sectionOrder.includes(section.key)) {
+      sectionOrder.push(section.key);
+    }
+
+    let ignored = 0;
+
+    switch (section.key) {
+      case 'summary': {
+        const summary = section.lines.map(line => line.text).join(' ');
+        resume.summary.summary = [resume.summary.summary, summary].filter(Boolean).join(' ');
+        annotate(confidence, 'summary.summary', 'high', `text under the "${section.heading}" heading`);
+        break;
+      }
+      case 'experience': {
+        const { entries, ignored: skipped } = readEntries(section.lines, false);
+        for (const entry of entries) {
+          const field = `experience[${resume.experience.length}]`;
+          resume.experience.push(parseExperienceEntry(entry, field, confidence, warnings));
+        }
+        ignored = skipped;
+        break;
+      }
+      case 'education': {
+        const { entries, ignored: skipped } = readEntries(section.lines, true);
+        for (const entry of entries) {
+          const field = `education[${resume.education.length}]`;
+          resume.education.push(parseEducationEntry(entry, field, confidence, warnings));
+        }
+        ignored = skipped;
+        break;
+      }
+      case 'skills':
+        resume.skills.skills.push(...parseSkills(section.lines));
+        annotate(confidence, 'skills.skills', 'medium', 'list items split on commas and separators');
+        break;
+      case 'projects': {
+        const { entries, ignored: skipped } = readEntries(section.lines, false);
+        for (const entry of entries) {
+          const field = `projects[${resume.projects.length}]`;
+          resume.projects.push(parseProjectEntry(entry, field, confidence));
+        }
+        ignored = skipped;
+        break;
+      }
+    }
+
+    if (ignored > 0) {
+      warnings.push({
+        field: section.key,
+        message: `Ignored ${ignored} line(s) before the first entry under "${section.heading}"`,
+      });
+    }
+  }
+
+  // Paragraph text above the first heading stands in for a missing summary
+  if (!resume.summary.summary && header.summaryLines.length > 0) {
+    resume.summary.summary = header.summaryLines.join(' ');
+    annotate(confidence, 'summary.summary', 'low', 'paragraph text in the header without a heading');
+    sectionOrder.splice(1, 0, 'summary');
+  } else if (header.summaryLines.length > 0) {
+    warnings.push({ field: 'summary', message: 'Ignored paragraph text above the first section heading' });
+  }
+
+  return {
+    resume,
+    sectionOrder,
+    validation: validateResume(resume),
+    warnings,
+    confidence,
+  };
+}
@@ -13,10 +13,13 @@ export {
   validateEducation,
   validateSkills,
   validateProject,
+  validatePdfDocumentInfo,
 } from './validators/field-validators.js';
 
 export { sanitizeString, sanitizeStringArray, isSafeString } from './utils/sanitization.js';
 export { isStructureSafe, getObjectDepth } from './utils/depth-check.js';
+export { parseInlineMarkup, formatInlineMarkup } from './utils/inline-markup.js';
+export type { InlineMarkupResult } from './utils/inline-markup.js';
 
 // Document Transformation
 export {
@@ -34,7 +37,67 @@ export {
   generatePDFFromDocument,
 } from './renderer/resume-to-pdf.js';
 
-export { renderDocumentToPDF } from './renderer/pdf-renderer.js';
+export {
+  renderDocumentToPDF,
+  renderDocumentToPDFWithMetadata,
+  findUnsupportedCharacters,
+  PdfTextLayerError,
+} from './renderer/pdf-renderer.js';
+export type { PdfRenderOptions, PdfRenderResult } from './renderer/pdf-renderer.js';
+export { isWinAnsiText, findMissingGlyphs, decodeEmbeddedFonts } from './renderer/embedded-fonts.js';
+export type { EmbeddedFontFiles } from './renderer/embedded-fonts.js';
+export { buildPdfDocumentInfo } from './renderer/pdf-metadata.js';
+export { renderDocumentToPDFFitted } from './renderer/pdf-fit.js';
+export type { PdfFitResult, PdfFitSettings } from './renderer/pdf-fit.js';
+export { extractPdfText } from './renderer/pdf-text-extractor.js';
+export { hasRtlText, splitDirectionalRuns, orderRunsVisually } from './renderer/bidi.js';
+export type { DirectionalRun } from './renderer/bidi.js';
+
+// DOCX Rendering
+export { renderDocumentToDOCX } from './renderer/docx-renderer.js';
+
+// Plain-Text Rendering
+export { renderDocumentToText } from './renderer/text-renderer.js';
+export type { TextRenderOptions } from './renderer/text-renderer.js';
+export { TEXT_CONFIG, isValidWrapColumn } from './renderer/renderer-config.js';
+
+// HTML Rendering
+export { renderDocumentToHTML, buildPersonJsonLd } from './renderer/html-renderer.js';
+export type { HtmlRenderOptions } from './renderer/html-renderer.js';
+
+// LaTeX Source Export
+export { renderDocumentToLaTeX, escapeLatex } from './renderer/latex-renderer.js';
+
+// vCard Contact Card Export
+export { renderContactToVCard } from './renderer/vcard-renderer.js';
+
+// Europass XML Export
+export { renderResumeToEuropassXml } from './renderer/europass-renderer.js';
+export type { EuropassExportResult } from './renderer/europass-renderer.js';
+export { EUROPASS_CANDIDATE_SCHEMA } from './schemas/europass-candidate.schema.js';
+export { validateXml } from './validators/xml-schema-validator.js';
+
+// Markdown Export / Import
+export { renderDocumentToMarkdown, renderResumeToMarkdown } from './renderer/markdown-renderer.js';
+export { parseMarkdownResume } from './importers/markdown-importer.js';
+
+// QuickCV PDF Import (embedded source data)
+export { importResumeFromPdf } from './importers/pdf-source-importer.js';
+
+// LinkedIn Data Export Import
+export { importLinkedInExport } from './importers/linkedin-importer.js';
+
+// Plain-Text Import
+export { parseResumeText } from './importers/text-importer.js';
+
+// JSON Resume (jsonresume.org) Adapter
+export {
+  importJsonResume,
+  exportJsonResume,
+  isJsonResume,
+  JSON_RESUME_SCHEMA_URL,
+} from './importers/json-resume-adapter.js';
+export type { JsonResumeExportResult } from './importers/json-resume-adapter.js';
 
 // Types - Resume Schema
 export type {
@@ -45,6 +108,7 @@ export type {
   Education,
   Skills,
   Project,
+  TextDirection,
 } from './types/resume.types.js';
 
 // Types - Validation
@@ -57,6 +121,32 @@ export type {
 
 export { DEFAULT_VALIDATION_LIMITS } from './types/validation.types.js';
 
+// Types - Import
+export type {
+  ImportResult,
+  ImportWarning,
+  PdfImportResult,
+  TextImportResult,
+  FieldConfidence,
+  ImportConfidence,
+} from './types/import.types.js';
+export type {
+  JsonResume,
+  JsonResumeBasics,
+  JsonResumeLocation,
+  JsonResumeProfile,
+  JsonResumeWork,
+  JsonResumeEducation,
+  JsonResumeSkill,
+  JsonResumeProject,
+} from './types/json-resume.types.js';
+
+// Types - XML Schema
+export type { XmlSchema, XmlElementRule, XmlChildRule, XmlValueRule } from './types/xml-schema.types.js';
+
+// Types - PDF Metadata
+export type { PdfDocumentInfo, EmbeddedResumeSource } from './types/pdf-metadata.types.js';
+
 // Types - Document Model
 export type {
   Document,
@@ -70,5 +160,7 @@ export type {
   TextLineElement,
   ListElement,
   ListItem,
+  RowElement,
+  TextSpan,
   SectionBreakElement,
 } from './types/document.types.js';
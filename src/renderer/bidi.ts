@@ -0,0 +1,115 @@
+/**
+ * Bidirectional Text Layout
+ *
+ * Minimal bidi support for right-to-left documents: splits a line into
+ * right-to-left (Hebrew, Arabic and related scripts) and left-to-right
+ * runs, and orders those runs for display. Characters inside a run stay in
+ * logical order; the PDF font shaper reverses right-to-left runs itself.
+ * Pure functions, no I/O.
+ */
+
+/**
+ * Directional run of a line, as offsets into the logical text
+ */
+export interface DirectionalRun {
+  start: number;
+  end: number; // Exclusive
+  rtl: boolean;
+}
+
+/**
+ * Strong right-to-left characters: Hebrew, Arabic, Syriac, Thaana, NKo and
+ * the Hebrew and Arabic presentation forms
+ */
+const RTL_CHAR = /[\u0590-\u08ff\ufb1d-\ufdff\ufe70-\ufefc]/u;
+
+/**
+ * Strong left-to-right characters (digits are treated as left-to-right)
+ */
+const LTR_CHAR = /[\p{L}\p{N}]/u;
+
+/**
+ * Check whether text contains any right-to-left character
+ */
+export function hasRtlText(text: string): boolean {
+  return RTL_CHAR.test(text);
+}
+
+/**
+ * Split a line into directional runs in logical order
+ *
+ * Neutral characters (spaces, punctuation) take the direction of the runs
+ * around them when both sides agree, and the base direction otherwise.
+ *
+ * @param text - Line text in logical order
+ * @param rtl - Whether the base direction is right-to-left
+ * @returns Runs covering the whole text
+ */
+export function splitDirectionalRuns(text: string, rtl: boolean): DirectionalRun[] {
+  const offsets: number[] = [];
+  const strong: (boolean | null)[] = []; // true RTL, false LTR, null neutral
+
+  let offset = 0;
+  for (const char of text) {
+    offsets.push(offset);
+    strong.push(RTL_CHAR.test(char) ? true : LTR_CHAR.test(char) ? false : null);
+    offset += char.length;
+  }
+  offsets.push(offset);
+
+  // Resolve each stretch of neutrals from its strong neighbours
+  const resolved = [...strong];
+  for (let i = 0; i < resolved.length; i++) {
+    if (resolved[i] !== null) continue;
+    let end = i;
+    while (end < strong.length && strong[end] === null) end++;
+    const before = i > 0 ? resolved[i - 1] : rtl;
+    const after = end < strong.length ? strong[end] : rtl;
+    resolved.fill(before === after ? before : rtl, i, end);
+    i = end - 1;
+  }
+
+  const runs: DirectionalRun[] = [];
+  resolved.forEach((direction, index) => {
+    const previous = runs[runs.length - 1];
+    if (previous && previous.rtl === direction) {
+      previous.end = offsets[index + 1];
+    } else {
+      runs.push({ start: offsets[index], end: offsets[index + 1], rtl: direction === true });
+    }
+  });
+
+  return runs;
+}
+
+/**
+ * Order runs for display from left to right
+ *
+ * Embedding levels follow the Unicode bidi algorithm (right-to-left runs
+ * odd, left-to-right runs even, above the base level); each maximal
+ * sequence at or above a level is reversed, from the highest level down.
+ *
+ * @param runs - Runs in logical order
+ * @param rtl - Whether the base direction is right-to-left
+ * @returns Runs in visual order
+ */
+export function orderRunsVisually<T extends { rtl: boolean }>(runs: T[], rtl: boolean): T[] {
+  const levels = runs.map(run => (run.rtl ? 1 : rtl ? 2 : 0));
+  let order = runs.map((_, index) => index);
+
+  for (let level = Math.max(0, ...levels); level >= 1; level--) {
+    let index = 0;
+    while (index < order.length) {
+      if (levels[order[index]] < level) {
+        index++;
+        continue;
+      }
+      let end = index;
+      while (end < order.length && levels[order[end]] >= level) end++;
+      order = [...order.slice(0, index), ...order.slice(index, end).reverse(), ...order.slice(end)];
+      index = end;
+    }
+  }
+
+  return order.map(index => runs[index]);
+}
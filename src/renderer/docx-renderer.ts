@@ -0,0 +1,350 @@
+/**
+ * DOCX Renderer using docx
+ *
+ * Consumes Document model and produces a Word (.docx) package with
+ * native heading styles and bullet lists.
+ * Server-side only (Node.js).
+ */
+
+import {
+  AlignmentType,
+  Document as DocxDocument,
+  HeadingLevel as DocxHeadingLevel,
+  LevelFormat,
+  LineRuleType,
+  Packer,
+  Paragraph,
+  Tab,
+  TabStopType,
+  TextRun,
+} from 'docx';
+import type {
+  Document,
+  DocumentElement,
+  HeadingElement,
+  ParagraphElement,
+  TextLineElement,
+  ListElement,
+  RowElement,
+  TextSpan,
+} from '../types/document.types.js';
+import {
+  PAGE_CONFIG,
+  CONTENT_WIDTH,
+  BULLET_MARKER,
+  LINE_HEIGHT,
+  getDocxFontForProfile,
+  getConfigForDensity,
+  type DensityPreset,
+} from './renderer-config.js';
+
+/**
+ * Numbering reference used by every bullet list
+ */
+const BULLET_NUMBERING_REFERENCE = 'quickcv-bullets';
+
+/**
+ * Renderer state to track emitted paragraphs and pending spacing
+ */
+interface DocxRendererState {
+  paragraphs: Paragraph[];
+  config: ReturnType<typeof getConfigForDensity>;
+  pendingSpaceBefore: number;
+  isFirstTextLine: boolean;
+  rtl: boolean; // Right-to-left document
+}
+
+/**
+ * Convert points to twentieths of a point (DOCX spacing and page units)
+ */
+function toTwips(points: number): number {
+  return Math.round(points * 20);
+}
+
+/**
+ * Convert points to half-points (DOCX font size unit)
+ */
+function toHalfPoints(points: number): number {
+  return Math.round(points * 2);
+}
+
+/**
+ * Line spacing matching LINE_HEIGHT (240 = single spacing)
+ */
+const DOCX_LINE_SPACING = Math.round(240 * LINE_HEIGHT);
+
+/**
+ * Consume spacing queued by a preceding section break
+ */
+function takeSpaceBefore(state: DocxRendererState): number {
+  const space = state.pendingSpaceBefore;
+  state.pendingSpaceBefore = 0;
+  return toTwips(space);
+}
+
+/**
+ * Paragraph options for the document's direction
+ * Right-to-left paragraphs (w:bidi) also mirror indents and tab stops
+ */
+function directionOptions(state: DocxRendererState): { bidirectional?: boolean } {
+  return state.rtl ? { bidirectional: true } : {};
+}
+
+/**
+ * Render a heading element
+ */
+function renderHeading(state: DocxRendererState, element: HeadingElement): void {
+  const heading = element.level === 1
+    ? DocxHeadingLevel.HEADING_1
+    : element.level === 2
+      ? DocxHeadingLevel.HEADING_2
+      : DocxHeadingLevel.HEADING_3;
+
+  // Tighter spacing for H1 (name) to bring contact line closer, as in the PDF
+  const spacingAfter = element.level === 1 ? state.config.spacing.afterNameHeading : state.config.spacing.afterHeading;
+
+  state.paragraphs.push(new Paragraph({
+    ...directionOptions(state),
+    heading,
+    keepNext: true,
+    spacing: {
+      before: takeSpaceBefore(state),
+      after: toTwips(spacingAfter),
+    },
+    children: [new TextRun(element.text)],
+  }));
+}
+
+/**
+ * Build text runs, with emphasis spans as bold and italic runs
+ */
+function inlineRuns(text: string, spans: TextSpan[] | undefined): TextRun[] {
+  if (!spans) {
+    return [new TextRun(text)];
+  }
+  return spans.map(span => new TextRun({ text: span.text, bold: span.bold, italics: span.italic }));
+}
+
+/**
+ * Render a paragraph element
+ */
+function renderParagraph(state: DocxRendererState, element: ParagraphElement): void {
+  state.paragraphs.push(new Paragraph({
+    ...directionOptions(state),
+    spacing: {
+      before: takeSpaceBefore(state),
+      after: toTwips(state.config.spacing.afterParagraph),
+    },
+    children: inlineRuns(element.text, element.spans),
+  }));
+}
+
+/**
+ * Render a text line element
+ */
+function renderTextLine(state: DocxRendererState, element: TextLineElement): void {
+  // Detect if this is the contact info line (first TEXT_LINE in document, after name)
+  const isContactLine = state.isFirstTextLine;
+  if (isContactLine) {
+    state.isFirstTextLine = false;
+  }
+
+  const spacingAfter = isContactLine ? state.config.spacing.afterContactLine : state.config.spacing.afterTextLine;
+
+  state.paragraphs.push(new Paragraph({
+    ...directionOptions(state),
+    spacing: {
+      before: takeSpaceBefore(state),
+      after: toTwips(spacingAfter),
+    },
+    children: [
+      new TextRun({
+        text: element.text,
+        size: isContactLine ? toHalfPoints(state.config.fontSizes.contactInfo) : undefined,
+      }),
+    ],
+  }));
+}
+
+/**
+ * Render a list element (native Word bullets)
+ */
+function renderList(state: DocxRendererState, element: ListElement): void {
+  element.items.forEach((item, index) => {
+    const isLast = index === element.items.length - 1;
+
+    state.paragraphs.push(new Paragraph({
+      ...directionOptions(state),
+      numbering: { reference: BULLET_NUMBERING_REFERENCE, level: 0 },
+      spacing: {
+        before: takeSpaceBefore(state),
+        after: toTwips(isLast ? state.config.spacing.afterList : state.config.spacing.betweenListItems),
+      },
+      children: inlineRuns(item.text, item.spans),
+    }));
+  });
+}
+
+/**
+ * Render a row element (H3 with the right text on a right tab stop)
+ */
+function renderRow(state: DocxRendererState, element: RowElement): void {
+  state.paragraphs.push(new Paragraph({
+    ...directionOptions(state),
+    heading: DocxHeadingLevel.HEADING_3,
+    keepNext: true,
+    tabStops: [{ type: TabStopType.RIGHT, position: toTwips(CONTENT_WIDTH) }],
+    spacing: {
+      before: takeSpaceBefore(state),
+      after: toTwips(state.config.spacing.afterHeading),
+    },
+    children: [
+      new TextRun(element.left),
+      new TextRun({ children: [new Tab(), element.right], bold: false }),
+    ],
+  }));
+}
+
+/**
+ * Render a section break
+ */
+function renderSectionBreak(state: DocxRendererState): void {
+  state.pendingSpaceBefore += state.config.spacing.sectionBreak;
+}
+
+/**
+ * Render a single document element
+ */
+function renderElement(state: DocxRendererState, element: DocumentElement): void {
+  switch (element.type) {
+    case 'HEADING':
+      renderHeading(state, element);
+      break;
+    case 'PARAGRAPH':
+      renderParagraph(state, element);
+      break;
+    case 'TEXT_LINE':
+      renderTextLine(state, element);
+      break;
+    case 'LIST':
+      renderList(state, element);
+      break;
+    case 'ROW':
+      renderRow(state, element);
+      break;
+    case 'SECTION_BREAK':
+      renderSectionBreak(state);
+      break;
+  }
+}
+
+/**
+ * Build heading style options for a given font size
+ */
+function headingStyle(font: string, fontSize: number) {
+  return {
+    run: {
+      font,
+      size: toHalfPoints(fontSize),
+      bold: true,
+      color: '000000',
+    },
+    paragraph: {
+      spacing: { line: DOCX_LINE_SPACING, lineRule: LineRuleType.AUTO },
+    },
+  };
+}
+
+/**
+ * Render complete document to DOCX
+ *
+ * Assumes document has already been validated.
+ *
+ * @param document - Document model to render
+ * @param fontProfile - Font profile to use ('sans', 'serif', or 'mono')
+ * @param densityPreset - Density preset for spacing and font sizes
+ * @returns Promise that resolves to DOCX buffer
+ */
+export async function renderDocumentToDOCX(
+  document: Document,
+  fontProfile: 'sans' | 'serif' | 'mono' = 'sans',
+  densityPreset: DensityPreset = 'normal'
+): Promise<Buffer> {
+  const font = getDocxFontForProfile(fontProfile);
+  const config = getConfigForDensity(densityPreset);
+  const state: DocxRendererState = {
+    paragraphs: [],
+    config,
+    pendingSpaceBefore: 0,
+    isFirstTextLine: true,
+    rtl: document.direction === 'rtl',
+  };
+
+  // Render all elements in exact order
+  document.elements.forEach((element) => {
+    renderElement(state, element);
+  });
+
+  const docx = new DocxDocument({
+    styles: {
+      default: {
+        document: {
+          run: {
+            font,
+            size: toHalfPoints(config.fontSizes.body),
+          },
+          paragraph: {
+            spacing: { line: DOCX_LINE_SPACING, lineRule: LineRuleType.AUTO },
+          },
+        },
+        heading1: headingStyle(font, config.fontSizes.h1),
+        heading2: headingStyle(font, config.fontSizes.h2),
+        heading3: headingStyle(font, config.fontSizes.h3),
+      },
+    },
+    numbering: {
+      config: [
+        {
+          reference: BULLET_NUMBERING_REFERENCE,
+          levels: [
+            {
+              level: 0,
+              format: LevelFormat.BULLET,
+              text: BULLET_MARKER,
+              alignment: AlignmentType.LEFT,
+              style: {
+                paragraph: {
+                  indent: {
+                    left: toTwips(config.spacing.listItemIndent),
+                    hanging: toTwips(config.spacing.listItemIndent),
+                  },
+                },
+              },
+            },
+          ],
+        },
+      ],
+    },
+    sections: [
+      {
+        properties: {
+          page: {
+            size: {
+              width: toTwips(PAGE_CONFIG.width),
+              height: toTwips(PAGE_CONFIG.height),
+            },
+            margin: {
+              top: toTwips(PAGE_CONFIG.marginTop),
+              bottom: toTwips(PAGE_CONFIG.marginBottom),
+              left: toTwips(PAGE_CONFIG.marginLeft),
+              right: toTwips(PAGE_CONFIG.marginRight),
+            },
+          },
+        },
+        children: state.paragraphs,
+      },
+    ],
+  });
+
+  return Packer.toBuffer(docx);
+}
@@ -0,0 +1,178 @@
+/**
+ * Embedded Font Registration
+ * 
+ * Resolves TrueType font files from the dejavu-fonts-ttf package, or
+ * decodes fonts supplied with a request, and registers them with a PDFKit
+ * document. PDFKit subsets and embeds registered TrueType fonts
+ * automatically.
+ * Server-side only (Node.js).
+ */
+
+import { readFileSync } from 'fs';
+import { createRequire } from 'module';
+import { EMBEDDED_FONT_PROFILES, EMBEDDED_FONT_LIMITS } from './renderer-config.js';
+import { readCharacterMap } from '../utils/truetype-cmap.js';
+
+const require = createRequire(import.meta.url);
+
+/**
+ * Characters WinAnsiEncoding adds beyond Latin-1 (its 0x80-0x9F range)
+ */
+const WIN_ANSI_EXTRA_CHARS = new Set('€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ');
+
+/**
+ * Leading bytes of TrueType and OpenType font files
+ */
+const FONT_SIGNATURES = ['\0\x01\0\0', 'true', 'OTTO'];
+
+/**
+ * Character maps of font files read so far, by path
+ */
+const characterMaps = new Map<string, Set<number> | null>();
+
+/**
+ * User-supplied TrueType fonts (file paths or file contents)
+ * The italic face falls back to the regular face when omitted
+ */
+export interface EmbeddedFontFiles {
+  main: string | Buffer;
+  bold: string | Buffer;
+  italic?: string | Buffer;
+}
+
+/**
+ * Font faces accepted by decodeEmbeddedFonts()
+ */
+const EMBEDDED_FONT_FACES = ['main', 'bold', 'italic'];
+
+/**
+ * Resolve absolute path of a bundled TrueType font file
+ */
+function resolveFontFile(fileName: string): string {
+  return require.resolve(`dejavu-fonts-ttf/ttf/${fileName}`);
+}
+
+/**
+ * Check whether text can be drawn with the PDF standard fonts
+ * The standard 14 fonts only encode WinAnsi (Latin-1 plus a few typographic characters)
+ * 
+ * @param text - Text to check
+ * @returns True if every character is in WinAnsiEncoding
+ */
+export function isWinAnsiText(text: string): boolean {
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 0;
+    if (code > 0x7e && (code < 0xa0 || code > 0xff) && !WIN_ANSI_EXTRA_CHARS.has(char)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Register embeddable fonts for a profile with the document
+ * 
+ * @param doc - PDFKit document
+ * @param profile - Font profile to use ('sans', 'serif', or 'mono')
+ * @param files - User-supplied fonts to use instead of the bundled DejaVu fonts
+ * @returns Registered font names, same shape as getFontsForProfile()
+ */
+export function registerEmbeddedFonts(
+  doc: PDFKit.PDFDocument,
+  profile: 'sans' | 'serif' | 'mono' = 'sans',
+  files?: EmbeddedFontFiles
+): { main: string; bold: string; italic: string } {
+  if (files) {
+    doc.registerFont('Embedded-Main', files.main);
+    doc.registerFont('Embedded-Bold', files.bold);
+    doc.registerFont('Embedded-Italic', files.italic ?? files.main);
+  } else {
+    const bundled = EMBEDDED_FONT_PROFILES[profile];
+    doc.registerFont('Embedded-Main', resolveFontFile(bundled.main));
+    doc.registerFont('Embedded-Bold', resolveFontFile(bundled.bold));
+    doc.registerFont('Embedded-Italic', resolveFontFile(bundled.italic));
+  }
+  
+  return { main: 'Embedded-Main', bold: 'Embedded-Bold', italic: 'Embedded-Italic' };
+}
+
+/**
+ * Read the code points a font file has glyphs for, caching font files read by path
+ */
+function getCharacterMap(file: string | Buffer): Set<number> | null {
+  if (typeof file !== 'string') {
+    return readCharacterMap(file);
+  }
+  if (!characterMaps.has(file)) {
+    characterMaps.set(file, readCharacterMap(readFileSync(file)));
+  }
+  return characterMaps.get(file) ?? null;
+}
+
+/**
+ * Find characters the regular or bold embedded font has no glyph for
+ * These faces draw body text and headings; whitespace is not checked
+ *
+ * @param text - Text to check
+ * @param profile - Font profile to use ('sans', 'serif', or 'mono')
+ * @param files - User-supplied fonts to check instead of the bundled DejaVu fonts
+ * @returns Missing characters in order of first appearance
+ */
+export function findMissingGlyphs(
+  text: string,
+  profile: 'sans' | 'serif' | 'mono' = 'sans',
+  files?: EmbeddedFontFiles
+): string[] {
+  const bundled = EMBEDDED_FONT_PROFILES[profile];
+  const faces = files ? [files.main, files.bold] : [resolveFontFile(bundled.main), resolveFontFile(bundled.bold)];
+  const maps = faces.map(getCharacterMap);
+  const missing = new Set<string>();
+  
+  for (const char of text) {
+    if (/\s/.test(char)) continue;
+    const code = char.codePointAt(0) ?? 0;
+    if (maps.some(map => map !== null && !map.has(code))) {
+      missing.add(char);
+    }
+  }
+  return [...missing];
+}
+
+/**
+ * Decode one base64 font file, checking it is a font with a Unicode character map
+ */
+function decodeFontFile(data: string): Buffer | null {
+  const maxLength = Math.ceil(EMBEDDED_FONT_LIMITS.maxFileBytes / 3) * 4;
+  if (data.length > maxLength || !/^[A-Za-z0-9+/]*={0,2}$/.test(data)) {
+    return null;
+  }
+  const file = Buffer.from(data, 'base64');
+  return FONT_SIGNATURES.includes(file.toString('latin1', 0, 4)) && readCharacterMap(file) ? file : null;
+}
+
+/**
+ * Decode user-supplied fonts sent with a request
+ * Each face is a base64-encoded TrueType or OpenType file of at most
+ * EMBEDDED_FONT_LIMITS.maxFileBytes; unknown faces are rejected
+ *
+ * @param value - Request value ({ main, bold, italic? })
+ * @returns Fonts for registerEmbeddedFonts(), or null when the value is invalid
+ */
+export function decodeEmbeddedFonts(value: unknown): EmbeddedFontFiles | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return null;
+  }
+  
+  const faces = new Map<string, Buffer>();
+  for (const [face, data] of Object.entries(value)) {
+    const file = EMBEDDED_FONT_FACES.includes(face) && typeof data === 'string' ? decodeFontFile(data) : null;
+    if (!file) return null;
+    faces.set(face, file);
+  }
+  
+  const main = faces.get('main');
+  const bold = faces.get('bold');
+  const italic = faces.get('italic');
+  if (!main || !bold) return null;
+  return italic ? { main, bold, italic } : { main, bold };
+}
@@ -0,0 +1,314 @@
+/**
+ * Europass XML Renderer
+ *
+ * Maps a Resume to Europass Candidate XML (HR Open Standards based) for
+ * job portals that accept structured candidate data. Fields without a
+ * Europass counterpart are reported as warnings, and the output is
+ * checked against the bundled schema subset.
+ * Pure function, no I/O.
+ */
+
+import type {
+  Resume,
+  ContactInfo,
+  WorkExperience,
+  Education,
+  Project,
+} from '../types/resume.types.js';
+import type { ImportWarning } from '../types/import.types.js';
+import type { ValidationResult } from '../types/validation.types.js';
+import { EUROPASS_CANDIDATE_SCHEMA, EUROPASS_NAMESPACES } from '../schemas/europass-candidate.schema.js';
+import { checkXmlValue, validateXml } from '../validators/xml-schema-validator.js';
+import { parseSkillWithCategory } from '../transformers/resume-to-document.transformer.js';
+import { toProfileUrl } from './link-detection.js';
+import { xmlElement, xmlText, serializeXml, type XmlElement } from '../utils/xml.js';
+import { toIsoDate } from '../utils/dates.js';
+import { splitFullName } from '../utils/names.js';
+
+/**
+ * Europass export result
+ */
+export interface EuropassExportResult {
+  xml: string;
+  warnings: ImportWarning[]; // Fields that could not be mapped
+  validation: ValidationResult; // Output checked against the bundled schema
+}
+
+/**
+ * Check whether the schema accepts a value as an element's text
+ */
+function accepts(elementName: string, value: string): boolean {
+  const rule = EUROPASS_CANDIDATE_SCHEMA.elements[elementName]?.text;
+  return rule !== undefined && checkXmlValue(value, rule) === null;
+}
+
+/**
+ * Convert a free-text date to the Europass date form
+ * Returns null (with a warning) when the date cannot be converted
+ */
+function exportDate(value: string, field: string, warnings: ImportWarning[]): string | null {
+  const isoDate = toIsoDate(value);
+  if (isoDate !== null && accepts('hr:FormattedDateTime', isoDate)) {
+    return isoDate;
+  }
+
+  warnings.push({ field, message: `Date "${value}" is not ISO 8601 and was not exported` });
+  return null;
+}
+
+/**
+ * Build a date wrapper element (StartDate, EndDate)
+ */
+function dateElement(name: string, isoDate: string): XmlElement {
+  return xmlElement(name, [xmlText('hr:FormattedDateTime', isoDate)]);
+}
+
+/**
+ * Build an address from a free-form location ("City, Region")
+ */
+function addressElement(location: string): XmlElement {
+  const [city, ...rest] = location.split(',').map(part => part.trim());
+  const children = [xmlText('oa:CityName', city || location.trim())];
+  if (rest.length > 0 && rest.join(', ') !== '') {
+    children.push(xmlText('oa:CountrySubDivisionName', rest.join(', ')));
+  }
+  return xmlElement('Address', children);
+}
+
+/**
+ * Join bullet points into a multi-line description
+ */
+function joinLines(lines: string[]): string {
+  return lines.map(line => line.trim()).filter(line => line !== '').join('\n');
+}
+
+/**
+ * Convert contact information to CandidatePerson
+ */
+function exportPerson(contact: ContactInfo, warnings: ImportWarning[]): XmlElement {
+  const { given, family } = splitFullName(contact.fullName);
+  const name: XmlElement[] = [];
+  if (given) name.push(xmlText('oa:GivenName', given));
+  if (family) name.push(xmlText('hr:FamilyName', family));
+
+  const communications: XmlElement[] = [];
+
+  if (contact.phone) {
+    if (accepts('oa:DialNumber', contact.phone)) {
+      communications.push(xmlElement('Communication', [
+        xmlText('ChannelCode', 'Telephone'),
+        xmlText('oa:DialNumber', contact.phone),
+      ]));
+    } else {
+      warnings.push({ field: 'contact.phone', message: `Phone "${contact.phone}" is not a dial number and was not exported` });
+    }
+  }
+
+  if (contact.email) {
+    const uri = `mailto:${contact.email}`;
+    if (accepts('oa:URI', uri)) {
+      communications.push(xmlElement('Communication', [
+        xmlText('ChannelCode', 'Email'),
+        xmlText('oa:URI', uri),
+      ]));
+    } else {
+      warnings.push({ field: 'contact.email', message: 'Email address is not a valid URI and was not exported' });
+    }
+  }
+
+  const links = [
+    { field: 'portfolio', value: contact.portfolio, useCode: 'personal' },
+    { field: 'linkedin', value: contact.linkedin, useCode: 'business' },
+    { field: 'github', value: contact.github, useCode: 'other' },
+    { field: 'twitter', value: contact.twitter, useCode: 'other' },
+  ];
+  for (const link of links) {
+    if (!link.value) continue;
+    const uri = toProfileUrl(link.value, link.field === 'twitter');
+    if (accepts('oa:URI', uri)) {
+      communications.push(xmlElement('Communication', [
+        xmlText('ChannelCode', 'Web'),
+        xmlText('UseCode', link.useCode),
+        xmlText('oa:URI', uri),
+      ]));
+    } else {
+      warnings.push({ field: `contact.${link.field}`, message: `Link "${link.value}" is not a valid URL and was not exported` });
+    }
+  }
+
+  if (contact.location.trim()) {
+    communications.push(xmlElement('Communication', [addressElement(contact.location)]));
+  }
+
+  if (contact.jobTitle) {
+    warnings.push({ field: 'contact.jobTitle', message: 'Job title headline has no Europass equivalent and was not exported' });
+  }
+
+  return xmlElement('CandidatePerson', [xmlElement('PersonName', name), ...communications]);
+}
+
+/**
+ * Convert a work experience entry to EmployerHistory
+ */
+function exportExperience(exp: WorkExperience, index: number, warnings: ImportWarning[]): XmlElement {
+  const field = `experience[${index}]`;
+  const employer: XmlElement[] = [xmlText('hr:OrganizationName', exp.company)];
+
+  if (exp.location?.trim()) {
+    employer.push(xmlElement('OrganizationContact', [
+      xmlElement('Communication', [addressElement(exp.location)]),
+    ]));
+  }
+
+  // No end date means the role is current (rendered as "Present")
+  const period: XmlElement[] = [];
+  const startDate = exportDate(exp.startDate, `${field}.startDate`, warnings);
+  if (startDate) period.push(dateElement('eures:StartDate', startDate));
+  if (exp.endDate) {
+    const endDate = exportDate(exp.endDate, `${field}.endDate`, warnings);
+    if (endDate) period.push(dateElement('eures:EndDate', endDate));
+  }
+  period.push(xmlText('eures:CurrentIndicator', exp.endDate ? 'false' : 'true'));
+
+  const position: XmlElement[] = [
+    xmlText('PositionTitle', exp.role, { typeCode: 'FREETEXT' }),
+    xmlElement('eures:EmploymentPeriod', period),
+  ];
+  const description = joinLines(exp.description);
+  if (description) position.push(xmlText('oa:Description', description));
+
+  employer.push(xmlElement('PositionHistory', position));
+  return xmlElement('EmployerHistory', employer);
+}
+
+/**
+ * Convert an education entry to EducationOrganizationAttendance
+ */
+function exportEducation(edu: Education, index: number, warnings: ImportWarning[]): XmlElement {
+  const field = `education[${index}]`;
+  const attendance: XmlElement[] = [xmlText('hr:OrganizationName', edu.institution)];
+
+  const period: XmlElement[] = [];
+  const startDate = exportDate(edu.startDate, `${field}.startDate`, warnings);
+  if (startDate) period.push(dateElement('StartDate', startDate));
+  if (edu.endDate) {
+    const endDate = exportDate(edu.endDate, `${field}.endDate`, warnings);
+    if (endDate) period.push(dateElement('EndDate', endDate));
+  }
+  if (period.length > 0) attendance.push(xmlElement('AttendancePeriod', period));
+
+  const degree: XmlElement[] = [xmlText('hr:DegreeName', edu.degree)];
+  if (edu.fieldOfStudy?.trim()) degree.push(xmlText('DegreeMajor', edu.fieldOfStudy));
+  if (edu.cgpa?.trim()) degree.push(xmlText('DegreeGrade', edu.cgpa));
+  attendance.push(xmlElement('EducationDegree', degree));
+
+  const courses = (edu.relevantCourseWork ?? []).map(course => course.trim()).filter(course => course !== '');
+  if (courses.length > 0) {
+    attendance.push(xmlText('oa:Description', `Relevant coursework: ${courses.join(', ')}`));
+  }
+
+  return xmlElement('EducationOrganizationAttendance', attendance);
+}
+
+/**
+ * Convert a project entry to Project
+ */
+function exportProject(project: Project, index: number, warnings: ImportWarning[]): XmlElement {
+  const children: XmlElement[] = [xmlText('Title', project.name)];
+
+  const lines = [...project.description];
+  if (project.techStack && project.techStack.length > 0) {
+    lines.push(`Tech stack: ${project.techStack.join(', ')}`);
+  }
+  const description = joinLines(lines);
+  if (description) children.push(xmlText('oa:Description', description));
+
+  if (project.link) {
+    const url = toProfileUrl(project.link);
+    if (accepts('Link', url)) {
+      children.push(xmlText('Link', url));
+    } else {
+      warnings.push({ field: `projects[${index}].link`, message: `Link "${project.link}" is not a valid URL and was not exported` });
+    }
+  }
+
+  return xmlElement('Project', children);
+}
+
+/**
+ * Convert skills to PersonCompetency entries
+ * Category prefixes are dropped; Europass competencies are not grouped
+ */
+function exportSkills(skills: string[], warnings: ImportWarning[]): XmlElement[] {
+  let categorized = 0;
+
+  const competencies = skills.map(input => {
+    const { skill } = parseSkillWithCategory(input);
+    if (skill !== input.trim()) categorized++;
+    return xmlElement('PersonCompetency', [xmlText('CompetencyName', skill)]);
+  });
+
+  if (categorized > 0) {
+    warnings.push({
+      field: 'skills.skills',
+      message: `Skill categories have no Europass equivalent; ${categorized} skill${categorized === 1 ? ' was' : 's were'} exported without the category prefix`,
+    });
+  }
+
+  return competencies;
+}
+
+/**
+ * Render a validated Resume as Europass Candidate XML
+ *
+ * @param resume - Validated Resume object
+ * @param languageCode - Profile language (default 'en')
+ * @returns XML, unmapped-field warnings and the schema check result
+ */
+export function renderResumeToEuropassXml(resume: Resume, languageCode = 'en'): EuropassExportResult {
+  const warnings: ImportWarning[] = [];
+  const person = exportPerson(resume.contact, warnings);
+
+  const profile: XmlElement[] = [];
+  if (resume.summary.summary.trim()) {
+    profile.push(xmlText('CandidateObjective', resume.summary.summary));
+  }
+  if (resume.experience.length > 0) {
+    profile.push(xmlElement('EmploymentHistory',
+      resume.experience.map((exp, index) => exportExperience(exp, index, warnings))));
+  }
+  if (resume.education.length > 0) {
+    profile.push(xmlElement('EducationHistory',
+      resume.education.map((edu, index) => exportEducation(edu, index, warnings))));
+  }
+  if (resume.skills.skills.length > 0) {
+    profile.push(xmlElement('PersonQualifications', exportSkills(resume.skills.skills, warnings)));
+  }
+  if (resume.projects.length > 0) {
+    profile.push(xmlElement('Projects',
+      resume.projects.map((project, index) => exportProject(project, index, warnings))));
+  }
+
+  if (resume.combinedExperienceProjects) {
+    warnings.push({
+      field: 'combinedExperienceProjects',
+      message: 'Combined Experience & Projects layout has no Europass equivalent and was not exported',
+    });
+  }
+
+  if (resume.direction === 'rtl') {
+    warnings.push({
+      field: 'direction',
+      message: 'Right-to-left layout has no Europass equivalent and was not exported',
+    });
+  }
+
+  const candidate = xmlElement('Candidate', [
+    person,
+    xmlElement('CandidateProfile', profile, { languageCode }),
+  ], { ...EUROPASS_NAMESPACES });
+
+  const xml = serializeXml(candidate);
+
+  return { xml, warnings, validation: validateXml(xml, EUROPASS_CANDIDATE_SCHEMA) };
+}
@@ -0,0 +1,334 @@
+/**
+ * HTML Renderer
+ *
+ * Consumes Document model and produces a single self-contained HTML page
+ * with semantic markup, a print stylesheet matching the PDF layout and an
+ * embedded schema.org Person JSON-LD block.
+ * Pure function, no I/O.
+ */
+
+import type {
+  Document,
+  DocumentElement,
+  HeadingElement,
+  ParagraphElement,
+  TextLineElement,
+  ListElement,
+  RowElement,
+  TextSpan,
+} from '../types/document.types.js';
+import type { ContactInfo } from '../types/resume.types.js';
+import {
+  PAGE_CONFIG,
+  BULLET_MARKER,
+  LINE_HEIGHT,
+  HTML_FONT_STACKS,
+  getConfigForDensity,
+  type DensityPreset,
+} from './renderer-config.js';
+import { findLinks, toProfileUrl } from './link-detection.js';
+
+/**
+ * HTML render options
+ */
+export interface HtmlRenderOptions {
+  fontProfile?: 'sans' | 'serif' | 'mono';
+  densityPreset?: DensityPreset;
+  contact?: ContactInfo; // Source for the JSON-LD Person block
+  lang?: string; // Document language (default 'en')
+}
+
+/**
+ * Renderer state to track emitted markup
+ */
+interface HtmlRendererState {
+  parts: string[];
+  isFirstTextLine: boolean;
+  isFirstSection: boolean;
+}
+
+/**
+ * Characters escaped in HTML element content and attribute values
+ */
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * Escape text for HTML element content and attribute values
+ */
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+/**
+ * Escape text and wrap detected URLs and emails in anchors
+ * Applied to text lines only, matching the PDF link annotations
+ */
+function linkify(text: string): string {
+  const links = findLinks(text);
+  let html = '';
+  let cursor = 0;
+
+  links.forEach(link => {
+    if (link.start < cursor) return;
+    html += escapeHtml(text.substring(cursor, link.start));
+    html += `<a href="${escapeHtml(link.url)}">${escapeHtml(link.text)}</a>`;
+    cursor = link.end;
+  });
+
+  return html + escapeHtml(text.substring(cursor));
+}
+
+/**
+ * Escape text, wrapping emphasis spans in strong and em elements
+ */
+function renderInline(text: string, spans: TextSpan[] | undefined): string {
+  if (!spans) {
+    return escapeHtml(text);
+  }
+  return spans.map(span => {
+    const html = escapeHtml(span.text);
+    if (span.bold) return `<strong>${html}</strong>`;
+    if (span.italic) return `<em>${html}</em>`;
+    return html;
+  }).join('');
+}
+
+/**
+ * Open a new section container (the first one is the page header)
+ */
+function openSection(state: HtmlRendererState): void {
+  state.parts.push(state.isFirstSection ? '<header>' : '<section>');
+}
+
+/**
+ * Close the current section container
+ */
+function closeSection(state: HtmlRendererState): void {
+  state.parts.push(state.isFirstSection ? '</header>' : '</section>');
+  state.isFirstSection = false;
+}
+
+/**
+ * Render a heading element
+ */
+function renderHeading(state: HtmlRendererState, element: HeadingElement): void {
+  const tag = `h${element.level}`;
+  state.parts.push(`<${tag}>${escapeHtml(element.text)}</${tag}>`);
+}
+
+/**
+ * Render a paragraph element
+ */
+function renderParagraph(state: HtmlRendererState, element: ParagraphElement): void {
+  state.parts.push(`<p>${renderInline(element.text, element.spans)}</p>`);
+}
+
+/**
+ * Render a text line element
+ */
+function renderTextLine(state: HtmlRendererState, element: TextLineElement): void {
+  // Detect if this is the contact info line (first TEXT_LINE in document, after name)
+  const isContactLine = state.isFirstTextLine;
+  if (isContactLine) {
+    state.isFirstTextLine = false;
+  }
+
+  if (element.text === '') {
+    state.parts.push('<div class="spacer"></div>');
+    return;
+  }
+
+  const className = isContactLine ? 'line contact' : 'line';
+  state.parts.push(`<p class="${className}">${linkify(element.text)}</p>`);
+}
+
+/**
+ * Render a list element
+ */
+function renderList(state: HtmlRendererState, element: ListElement): void {
+  const items = element.items.map(item => `<li>${renderInline(item.text, item.spans)}</li>`);
+  state.parts.push(`<ul>${items.join('')}</ul>`);
+}
+
+/**
+ * Render a row element (entry heading with right-aligned text)
+ */
+function renderRow(state: HtmlRendererState, element: RowElement): void {
+  state.parts.push(
+    `<div class="row"><h3>${escapeHtml(element.left)}</h3><span class="row-right">${escapeHtml(element.right)}</span></div>`
+  );
+}
+
+/**
+ * Render a single document element
+ */
+function renderElement(state: HtmlRendererState, element: DocumentElement): void {
+  switch (element.type) {
+    case 'HEADING':
+      renderHeading(state, element);
+      break;
+    case 'PARAGRAPH':
+      renderParagraph(state, element);
+      break;
+    case 'TEXT_LINE':
+      renderTextLine(state, element);
+      break;
+    case 'LIST':
+      renderList(state, element);
+      break;
+    case 'ROW':
+      renderRow(state, element);
+      break;
+    case 'SECTION_BREAK':
+      closeSection(state);
+      openSection(state);
+      break;
+  }
+}
+
+/**
+ * Build stylesheet from page configuration and density preset
+ * Screen layout mirrors the printed page; print rules map margins to @page.
+ * List indents use logical properties so right-to-left pages mirror them
+ */
+function buildStylesheet(
+  fontProfile: 'sans' | 'serif' | 'mono',
+  densityPreset: DensityPreset
+): string {
+  const { fontSizes, spacing } = getConfigForDensity(densityPreset);
+
+  return `
+body { margin: 0; background: #f4f4f4; color: #000; }
+main { box-sizing: border-box; width: ${PAGE_CONFIG.width}pt; min-height: ${PAGE_CONFIG.height}pt; margin: 24pt auto; padding: ${PAGE_CONFIG.marginTop}pt ${PAGE_CONFIG.marginRight}pt ${PAGE_CONFIG.marginBottom}pt ${PAGE_CONFIG.marginLeft}pt; background: #fff; font-family: ${HTML_FONT_STACKS[fontProfile]}; font-size: ${fontSizes.body}pt; line-height: ${LINE_HEIGHT}; }
+h1, h2, h3, p, ul { margin: 0; }
+h1 { font-size: ${fontSizes.h1}pt; margin-bottom: ${spacing.afterNameHeading}pt; }
+h2 { font-size: ${fontSizes.h2}pt; margin-bottom: ${spacing.afterHeading}pt; }
+h3 { font-size: ${fontSizes.h3}pt; margin-bottom: ${spacing.afterHeading}pt; }
+.row { display: flex; justify-content: space-between; align-items: baseline; gap: ${fontSizes.h3}pt; margin-bottom: ${spacing.afterHeading}pt; }
+.row h3 { margin-bottom: 0; }
+.row-right { flex-shrink: 0; font-size: ${fontSizes.h3}pt; }
+p { margin-bottom: ${spacing.afterParagraph}pt; }
+p.line { margin-bottom: ${spacing.afterTextLine}pt; }
+p.contact { font-size: ${fontSizes.contactInfo}pt; margin-bottom: ${spacing.afterContactLine}pt; }
+.spacer { height: ${fontSizes.body * LINE_HEIGHT + spacing.afterTextLine}pt; }
+ul { list-style: none; padding: 0; margin-bottom: ${spacing.afterList}pt; }
+li { position: relative; padding-inline-start: ${spacing.listItemIndent}pt; }
+li + li { margin-top: ${spacing.betweenListItems}pt; }
+li::before { content: "${BULLET_MARKER}"; position: absolute; inset-inline-start: 0; }
+section { margin-top: ${spacing.sectionBreak}pt; }
+a { color: inherit; text-decoration: none; }
+h2, h3, .row { break-after: avoid; page-break-after: avoid; }
+li, p { break-inside: avoid; page-break-inside: avoid; }
+@page { size: ${PAGE_CONFIG.width}pt ${PAGE_CONFIG.height}pt; margin: ${PAGE_CONFIG.marginTop}pt ${PAGE_CONFIG.marginRight}pt ${PAGE_CONFIG.marginBottom}pt ${PAGE_CONFIG.marginLeft}pt; }
+@media print {
+  body { background: none; }
+  main { width: auto; min-height: 0; margin: 0; padding: 0; }
+}
+`.trim();
+}
+
+/**
+ * Build schema.org Person JSON-LD from contact information
+ */
+export function buildPersonJsonLd(contact: ContactInfo): Record<string, unknown> {
+  const person: Record<string, unknown> = {
+    '@context': 'https://schema.org',
+    '@type': 'Person',
+    name: contact.fullName,
+  };
+
+  if (contact.jobTitle) person.jobTitle = contact.jobTitle;
+  if (contact.email) person.email = `mailto:${contact.email}`;
+  if (contact.phone) person.telephone = contact.phone;
+  if (contact.location) {
+    person.address = { '@type': 'PostalAddress', addressLocality: contact.location };
+  }
+  if (contact.portfolio) person.url = toProfileUrl(contact.portfolio);
+
+  const sameAs: string[] = [];
+  if (contact.linkedin) sameAs.push(toProfileUrl(contact.linkedin));
+  if (contact.github) sameAs.push(toProfileUrl(contact.github));
+  if (contact.twitter) sameAs.push(toProfileUrl(contact.twitter, true));
+  if (sameAs.length > 0) person.sameAs = sameAs;
+
+  return person;
+}
+
+/**
+ * Serialize JSON for embedding in a <script> element
+ * Escapes characters that could close the element or start markup
+ */
+function serializeJsonForScript(data: unknown): string {
+  return JSON.stringify(data, null, 2)
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e')
+    .replace(/&/g, '\\u0026');
+}
+
+/**
+ * Render complete document to a self-contained HTML page
+ *
+ * Assumes document has already been validated.
+ *
+ * @param document - Document model to render
+ * @param options - HTML render options
+ * @returns HTML page source
+ */
+export function renderDocumentToHTML(
+  document: Document,
+  options: HtmlRenderOptions = {}
+): string {
+  const fontProfile = options.fontProfile ?? 'sans';
+  const densityPreset = options.densityPreset ?? 'normal';
+  const state: HtmlRendererState = {
+    parts: [],
+    isFirstTextLine: true,
+    isFirstSection: true,
+  };
+
+  // Render all elements in exact order
+  openSection(state);
+  document.elements.forEach((element) => {
+    renderElement(state, element);
+  });
+  closeSection(state);
+
+  const nameHeading = document.elements.find(
+    (element): element is HeadingElement => element.type === 'HEADING' && element.level === 1
+  );
+  const title = options.contact?.fullName ?? nameHeading?.text ?? 'Resume';
+
+  const head = [
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>\n${buildStylesheet(fontProfile, densityPreset)}\n</style>`,
+  ];
+
+  if (options.contact) {
+    head.push(
+      `<script type="application/ld+json">\n${serializeJsonForScript(buildPersonJsonLd(options.contact))}\n</script>`
+    );
+  }
+
+  return [
+    '<!DOCTYPE html>',
+    `<html lang="${escapeHtml(options.lang ?? 'en')}"${document.direction === 'rtl' ? ' dir="rtl"' : ''}>`,
+    '<head>',
+    ...head,
+    '</head>',
+    '<body>',
+    '<main>',
+    ...state.parts,
+    '</main>',
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
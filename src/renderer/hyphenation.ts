@@ -0,0 +1,47 @@
+/**
+ * Hyphenation
+ *
+ * Finds the points where a word may be broken across lines, from the US
+ * English TeX patterns bundled with the hyphen package. Only plain words
+ * are hyphenated; tokens with digits or symbols (URLs, e-mail addresses,
+ * version numbers) have no break points.
+ * Pure functions, no I/O.
+ */
+
+import createHyphenator, { type HyphenationFunctionSync } from 'hyphen';
+import enUsPatterns from 'hyphen/patterns/en-us.js';
+import { HYPHENATION_CONFIG } from './renderer-config.js';
+
+/**
+ * Marker inserted by the hyphenator at break points (SOFT HYPHEN)
+ */
+const BREAK_MARK = '\u00ad';
+
+const hyphenateEnglish = createHyphenator(enUsPatterns, {
+  hyphenChar: BREAK_MARK,
+  minWordLength: HYPHENATION_CONFIG.minWordLength,
+}) as HyphenationFunctionSync;
+
+/**
+ * Letters with optional surrounding punctuation, e.g. "(managed),"
+ */
+const PLAIN_WORD = /^(\p{P}*)(\p{L}+)\p{P}*$/u;
+
+/**
+ * Find the hyphenation points of a word
+ *
+ * @param word - Word without whitespace
+ * @returns Offsets in the word where it may break, in ascending order
+ */
+export function findHyphenationPoints(word: string): number[] {
+  const match = PLAIN_WORD.exec(word);
+  if (!match) return [];
+
+  const points: number[] = [];
+  let offset = match[1].length;
+  hyphenateEnglish(match[2]).split(BREAK_MARK).slice(0, -1).forEach(syllables => {
+    offset += syllables.length;
+    points.push(offset);
+  });
+  return points;
+}
@@ -0,0 +1,365 @@
+/**
+ * LaTeX Renderer
+ *
+ * Consumes Document model and produces compilable LaTeX source (pdflatex;
+ * xelatex for right-to-left documents and text outside Latin-1) for users
+ * who want to hand-tune the layout.
+ * Pure function, no I/O.
+ */
+
+import type {
+  Document,
+  DocumentElement,
+  HeadingElement,
+  ParagraphElement,
+  TextLineElement,
+  ListElement,
+  RowElement,
+  TextSpan,
+} from '../types/document.types.js';
+import {
+  PAGE_CONFIG,
+  BULLET_MARKER,
+  calculateLineHeight,
+  getConfigForDensity,
+  type DensityPreset,
+} from './renderer-config.js';
+import { findLinks } from './link-detection.js';
+import { splitDirectionalRuns } from './bidi.js';
+
+/**
+ * Font packages per profile (same families as the PDF standard fonts)
+ */
+const LATEX_FONT_PACKAGES = {
+  sans: ['\\usepackage[scaled]{helvet}', '\\renewcommand{\\familydefault}{\\sfdefault}'],
+  serif: ['\\usepackage{mathptmx}'],
+  mono: ['\\usepackage{courier}', '\\renewcommand{\\familydefault}{\\ttdefault}'],
+} as const;
+
+/**
+ * Unicode fonts per profile for xelatex output (same families the PDF embeds)
+ */
+const XELATEX_FONTS = {
+  sans: 'DejaVu Sans',
+  serif: 'DejaVu Serif',
+  mono: 'DejaVu Sans Mono',
+} as const;
+
+/**
+ * Characters beyond Latin-1 that pdflatex still typesets (utf8 inputenc, T1 fonts)
+ */
+const PDFLATEX_EXTRA_CHARS = new Set('‘’‚“”„…†‡‰€™•–—');
+
+/**
+ * LaTeX special characters and their escaped forms
+ */
+const LATEX_ESCAPES: Record<string, string> = {
+  '\\': '\\textbackslash{}',
+  '&': '\\&',
+  '%': '\\%',
+  '$': '\\$',
+  '#': '\\#',
+  '_': '\\_',
+  '{': '\\{',
+  '}': '\\}',
+  '~': '\\textasciitilde{}',
+  '^': '\\textasciicircum{}',
+  '<': '\\textless{}',
+  '>': '\\textgreater{}',
+  '|': '\\textbar{}',
+  '•': '\\textbullet{}',
+  '–': '--',
+  '—': '---',
+};
+
+/**
+ * Renderer state to track emitted lines
+ */
+interface LatexRendererState {
+  lines: string[];
+  config: ReturnType<typeof getConfigForDensity>;
+  isFirstTextLine: boolean;
+  rtl: boolean; // Right-to-left document (xelatex with the bidi package)
+  unicode: boolean; // Text outside what pdflatex can typeset (xelatex with fontspec)
+}
+
+/**
+ * Escape text for use in LaTeX body content
+ */
+export function escapeLatex(text: string): string {
+  return text.replace(/[\\&%$#_{}~^<>|•–—]/g, (char) => LATEX_ESCAPES[char]);
+}
+
+/**
+ * Check whether every character of the document can be typeset by pdflatex
+ */
+function isPdfLatexText(document: Document): boolean {
+  const text = document.elements.map(element => {
+    switch (element.type) {
+      case 'LIST':
+        return element.items.map(item => item.text).join('\n');
+      case 'ROW':
+        return `${element.left}\n${element.right}`;
+      case 'SECTION_BREAK':
+        return '';
+      default:
+        return element.text;
+    }
+  }).join('\n');
+  
+  return [...text].every(char => (char.codePointAt(0) ?? 0) <= 0xff || PDFLATEX_EXTRA_CHARS.has(char));
+}
+
+/**
+ * Escape a URL for the first argument of \href
+ */
+function escapeUrl(url: string): string {
+  return url.replace(/[\\%#{}]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Format a font size command with the shared line height
+ */
+function fontSizeCommand(fontSize: number): string {
+  return `\\fontsize{${fontSize}pt}{${calculateLineHeight(fontSize).toFixed(2)}pt}\\selectfont`;
+}
+
+/**
+ * Render text run by run, wrapping the left-to-right runs of right-to-left
+ * documents in \LRE so their words keep their order
+ */
+function renderDirectional(rtl: boolean, text: string, render: (part: string, offset: number) => string): string {
+  if (!rtl) {
+    return render(text, 0);
+  }
+  return splitDirectionalRuns(text, true).map(run => {
+    const latex = render(text.substring(run.start, run.end), run.start);
+    return run.rtl ? latex : `\\LRE{${latex}}`;
+  }).join('');
+}
+
+/**
+ * Escape text, in direction runs for right-to-left documents
+ */
+function escapeText(state: LatexRendererState, text: string): string {
+  return renderDirectional(state.rtl, text, escapeLatex);
+}
+
+/**
+ * Escape text and wrap detected URLs and emails in \href
+ * Applied to text lines only, matching the PDF link annotations
+ */
+function linkify(text: string): string {
+  const links = findLinks(text);
+  let latex = '';
+  let cursor = 0;
+
+  links.forEach(link => {
+    if (link.start < cursor) return;
+    latex += escapeLatex(text.substring(cursor, link.start));
+    latex += `\\href{${escapeUrl(link.url)}}{${escapeLatex(link.text)}}`;
+    cursor = link.end;
+  });
+
+  return latex + escapeLatex(text.substring(cursor));
+}
+
+/**
+ * Escape text, wrapping emphasis spans in \textbf and \textit
+ */
+function renderInline(state: LatexRendererState, text: string, spans: TextSpan[] | undefined): string {
+  if (!spans) {
+    return escapeText(state, text);
+  }
+  
+  return renderDirectional(state.rtl, text, (part, offset) => {
+    let spanStart = 0;
+    return spans.map(span => {
+      // Portion of the span inside this part
+      const from = Math.max(spanStart, offset) - spanStart;
+      const to = Math.min(spanStart + span.text.length, offset + part.length) - spanStart;
+      spanStart += span.text.length;
+      if (from >= to) return '';
+      
+      const latex = escapeLatex(span.text.substring(from, to));
+      if (span.bold) return `\\textbf{${latex}}`;
+      if (span.italic) return `\\textit{${latex}}`;
+      return latex;
+    }).join('');
+  });
+}
+
+/**
+ * Render a heading element
+ * H1 is the name line; H2 maps to \section* and H3 to \subsection*
+ */
+function renderHeading(state: LatexRendererState, element: HeadingElement): void {
+  if (element.level === 1) {
+    state.lines.push(`{${fontSizeCommand(state.config.fontSizes.h1)}\\bfseries ${escapeText(state, element.text)}\\par}`);
+    state.lines.push(`\\vspace{${state.config.spacing.afterNameHeading}pt}`);
+    return;
+  }
+
+  const command = element.level === 2 ? 'section' : 'subsection';
+  state.lines.push(`\\${command}*{${escapeText(state, element.text)}}`);
+}
+
+/**
+ * Render a paragraph element
+ */
+function renderParagraph(state: LatexRendererState, element: ParagraphElement): void {
+  state.lines.push(`${renderInline(state, element.text, element.spans)}\\par`);
+  state.lines.push(`\\vspace{${state.config.spacing.afterParagraph}pt}`);
+}
+
+/**
+ * Render a text line element
+ */
+function renderTextLine(state: LatexRendererState, element: TextLineElement): void {
+  // Detect if this is the contact info line (first TEXT_LINE in document, after name)
+  const isContactLine = state.isFirstTextLine;
+  if (isContactLine) {
+    state.isFirstTextLine = false;
+  }
+
+  if (element.text === '') {
+    const spacer = calculateLineHeight(state.config.fontSizes.body) + state.config.spacing.afterTextLine;
+    state.lines.push(`\\vspace{${spacer.toFixed(2)}pt}`);
+    return;
+  }
+
+  if (isContactLine) {
+    state.lines.push(`{${fontSizeCommand(state.config.fontSizes.contactInfo)} ${renderDirectional(state.rtl, element.text, linkify)}\\par}`);
+    state.lines.push(`\\vspace{${state.config.spacing.afterContactLine}pt}`);
+  } else {
+    state.lines.push(`${renderDirectional(state.rtl, element.text, linkify)}\\par`);
+    state.lines.push(`\\vspace{${state.config.spacing.afterTextLine}pt}`);
+  }
+}
+
+/**
+ * Render a list element as itemize
+ */
+function renderList(state: LatexRendererState, element: ListElement): void {
+  state.lines.push('\\begin{itemize}');
+  element.items.forEach(item => {
+    // Empty group so a leading "[" is not read as the optional item label
+    state.lines.push(`  \\item{} ${renderInline(state, item.text, item.spans)}`);
+  });
+  state.lines.push('\\end{itemize}');
+  state.lines.push(`\\vspace{${state.config.spacing.afterList}pt}`);
+}
+
+/**
+ * Render a row element as \subsection* with the right text pushed flush right
+ */
+function renderRow(state: LatexRendererState, element: RowElement): void {
+  state.lines.push(`\\subsection*{${escapeText(state, element.left)}\\hfill{\\mdseries ${escapeText(state, element.right)}}}`);
+}
+
+/**
+ * Render a single document element
+ */
+function renderElement(state: LatexRendererState, element: DocumentElement): void {
+  switch (element.type) {
+    case 'HEADING':
+      renderHeading(state, element);
+      break;
+    case 'PARAGRAPH':
+      renderParagraph(state, element);
+      break;
+    case 'TEXT_LINE':
+      renderTextLine(state, element);
+      break;
+    case 'LIST':
+      renderList(state, element);
+      break;
+    case 'ROW':
+      renderRow(state, element);
+      break;
+    case 'SECTION_BREAK':
+      state.lines.push(`\\vspace{${state.config.spacing.sectionBreak}pt}`);
+      break;
+  }
+}
+
+/**
+ * Build the preamble from page configuration, font profile and density preset
+ * Text outside Latin-1 needs xelatex with fontspec for the Unicode fonts;
+ * right-to-left documents also load bidi (last) for the layout
+ */
+function buildPreamble(
+  fontProfile: 'sans' | 'serif' | 'mono',
+  config: ReturnType<typeof getConfigForDensity>,
+  rtl: boolean,
+  unicode: boolean
+): string[] {
+  const { fontSizes, spacing } = config;
+  const fontPackages = unicode
+    ? ['\\usepackage{fontspec}', `\\setmainfont{${XELATEX_FONTS[fontProfile]}}`]
+    : ['\\usepackage[utf8]{inputenc}', '\\usepackage[T1]{fontenc}', ...LATEX_FONT_PACKAGES[fontProfile]];
+
+  return [
+    ...(unicode ? ['% Compile with xelatex'] : []),
+    '\\documentclass{article}',
+    ...fontPackages,
+    `\\usepackage[paperwidth=${PAGE_CONFIG.width}pt,paperheight=${PAGE_CONFIG.height}pt,top=${PAGE_CONFIG.marginTop}pt,bottom=${PAGE_CONFIG.marginBottom}pt,left=${PAGE_CONFIG.marginLeft}pt,right=${PAGE_CONFIG.marginRight}pt]{geometry}`,
+    '\\usepackage{titlesec}',
+    '\\usepackage{enumitem}',
+    '\\usepackage[hidelinks]{hyperref}',
+    ...(rtl ? ['\\usepackage{bidi}'] : []),
+    '',
+    '\\pagestyle{empty}',
+    '\\setlength{\\parindent}{0pt}',
+    '\\setlength{\\parskip}{0pt}',
+    '',
+    `\\titleformat{\\section}{${fontSizeCommand(fontSizes.h2)}\\bfseries}{}{0pt}{}`,
+    `\\titlespacing*{\\section}{0pt}{0pt}{${spacing.afterHeading}pt}`,
+    `\\titleformat{\\subsection}{${fontSizeCommand(fontSizes.h3)}\\bfseries}{}{0pt}{}`,
+    `\\titlespacing*{\\subsection}{0pt}{0pt}{${spacing.afterHeading}pt}`,
+    `\\setlist[itemize]{label={${escapeLatex(BULLET_MARKER)}},leftmargin=${spacing.listItemIndent}pt,labelsep=0pt,align=left,labelwidth=${spacing.listItemIndent}pt,topsep=0pt,partopsep=0pt,parsep=0pt,itemsep=${spacing.betweenListItems}pt}`,
+  ];
+}
+
+/**
+ * Render complete document to LaTeX source
+ *
+ * Assumes document has already been validated.
+ *
+ * @param document - Document model to render
+ * @param fontProfile - Font profile to use ('sans', 'serif', or 'mono')
+ * @param densityPreset - Density preset for spacing and font sizes
+ * @returns LaTeX source
+ */
+export function renderDocumentToLaTeX(
+  document: Document,
+  fontProfile: 'sans' | 'serif' | 'mono' = 'sans',
+  densityPreset: DensityPreset = 'normal'
+): string {
+  const config = getConfigForDensity(densityPreset);
+  const state: LatexRendererState = {
+    lines: [],
+    config,
+    isFirstTextLine: true,
+    rtl: document.direction === 'rtl',
+    unicode: document.direction === 'rtl' || !isPdfLatexText(document),
+  };
+
+  // Render all elements in exact order
+  document.elements.forEach((element) => {
+    renderElement(state, element);
+  });
+
+  return [
+    ...buildPreamble(fontProfile, config, state.rtl, state.unicode),
+    '',
+    '\\begin{document}',
+    ...(state.rtl ? ['\\setRTL'] : []),
+    fontSizeCommand(config.fontSizes.body),
+    '',
+    ...state.lines,
+    '',
+    '\\end{document}',
+    '',
+  ].join('\n');
+}
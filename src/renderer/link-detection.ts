@@ -0,0 +1,84 @@
+/**
+ * Link Detection
+ * 
+ * Shared by renderers that turn URLs and emails in text into hyperlinks.
+ */
+
+/**
+ * Link detection helper - identifies URLs and emails in text
+ */
+export interface LinkMatch {
+  text: string;
+  start: number;
+  end: number;
+  url: string;
+}
+
+/**
+ * Find all URLs and emails in a text string
+ */
+export function findLinks(text: string): LinkMatch[] {
+  const links: LinkMatch[] = [];
+  
+  // Email pattern: simple but effective for ATS-safe emails
+  const emailRegex = /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g;
+  
+  // URL pattern: matches common URL formats (with or without protocol)
+  // Matches: example.com, www.example.com, https://example.com, github.com/user
+  const urlRegex = /\b(?:https?:\/\/)?(?:www\.)?[a-z0-9-]+(?:\.[a-z0-9-]+)+(?:\/[^\s]*)?/gi;
+  
+  // Find emails
+  let match: RegExpExecArray | null;
+  while ((match = emailRegex.exec(text)) !== null) {
+    links.push({
+      text: match[0],
+      start: match.index,
+      end: match.index + match[0].length,
+      url: `mailto:${match[0]}`,
+    });
+  }
+  
+  // Find URLs (excluding already matched emails)
+  const emailPositions = new Set<number>();
+  links.forEach(link => {
+    for (let i = link.start; i < link.end; i++) {
+      emailPositions.add(i);
+    }
+  });
+  
+  urlRegex.lastIndex = 0;
+  while ((match = urlRegex.exec(text)) !== null) {
+    // Skip if this position overlaps with an email
+    if (emailPositions.has(match.index)) continue;
+    
+    const matchedText = match[0];
+    let url = matchedText;
+    
+    // Add protocol if missing
+    if (!url.startsWith('http://') && !url.startsWith('https://')) {
+      url = `https://${url}`;
+    }
+    
+    links.push({
+      text: matchedText,
+      start: match.index,
+      end: match.index + matchedText.length,
+      url: url,
+    });
+  }
+  
+  // Sort by position
+  links.sort((a, b) => a.start - b.start);
+  
+  return links;
+}
+
+/**
+ * Normalize a profile link to an absolute URL
+ */
+export function toProfileUrl(value: string, twitterHandle = false): string {
+  if (twitterHandle && value.startsWith('@')) {
+    return `https://twitter.com/${value.slice(1)}`;
+  }
+  return /^https?:\/\//i.test(value) ? value : `https://${value}`;
+}
@@ -0,0 +1,139 @@
+/**
+ * Markdown Renderer
+ *
+ * Consumes Document model and produces a conventionally structured
+ * Markdown resume (H1 name, H2 sections, H3 entries, bullet lists).
+ * Output can be read back with parseMarkdownResume().
+ * Pure function, no I/O.
+ */
+
+import type {
+  Document,
+  DocumentElement,
+  HeadingElement,
+  TextSpan,
+} from '../types/document.types.js';
+import type { Resume } from '../types/resume.types.js';
+import { transformResumeToDocumentWithOrder } from '../transformers/resume-to-document.transformer.js';
+import { BULLET_MARKER } from './renderer-config.js';
+
+/**
+ * Escape inline Markdown syntax so text is rendered literally
+ */
+function escapeInline(text: string): string {
+  return text.replace(/([\\`*_[\]<>])/g, '\\$1');
+}
+
+/**
+ * Escape text that starts a line (block markers plus inline syntax)
+ */
+function escapeLine(text: string): string {
+  const escaped = escapeInline(text);
+  if (/^(#|[-+]\s|\d+[.)]\s)/.test(escaped)) {
+    return `\\${escaped}`;
+  }
+  return escaped;
+}
+
+/**
+ * Escape text, writing emphasis spans back as **bold** and _italic_
+ * The first run is escaped with the given function (line start or inline)
+ */
+function renderInline(
+  text: string,
+  spans: TextSpan[] | undefined,
+  escape: (text: string) => string
+): string {
+  if (!spans) {
+    return escape(text);
+  }
+  return spans.map((span, index) => {
+    const markdown = index === 0 ? escape(span.text) : escapeInline(span.text);
+    if (span.bold) return `**${markdown}**`;
+    if (span.italic) return `_${markdown}_`;
+    return markdown;
+  }).join('');
+}
+
+/**
+ * Render a heading element
+ */
+function renderHeading(element: HeadingElement): string {
+  return `${'#'.repeat(element.level)} ${escapeInline(element.text)}`;
+}
+
+/**
+ * Render document elements into Markdown blocks
+ * Consecutive text lines share a block joined by hard line breaks
+ */
+function renderBlocks(elements: DocumentElement[]): string[] {
+  const blocks: string[] = [];
+  let textLines: string[] = [];
+
+  const flushTextLines = () => {
+    if (textLines.length > 0) {
+      blocks.push(textLines.join('  \n'));
+      textLines = [];
+    }
+  };
+
+  elements.forEach((element) => {
+    if (element.type === 'TEXT_LINE') {
+      if (element.text.trim() === '') {
+        flushTextLines();
+      } else {
+        textLines.push(escapeLine(element.text));
+      }
+      return;
+    }
+
+    flushTextLines();
+
+    switch (element.type) {
+      case 'HEADING':
+        blocks.push(renderHeading(element));
+        break;
+      case 'PARAGRAPH':
+        blocks.push(renderInline(element.text, element.spans, escapeLine));
+        break;
+      case 'LIST':
+        blocks.push(element.items.map(item => `${BULLET_MARKER} ${renderInline(item.text, item.spans, escapeInline)}`).join('\n'));
+        break;
+      case 'ROW':
+        // Right text (dates) opens the entry's text-line block
+        blocks.push(`### ${escapeInline(element.left)}`);
+        if (element.right.trim() !== '') {
+          textLines.push(escapeLine(element.right));
+        }
+        break;
+      case 'SECTION_BREAK':
+        break;
+    }
+  });
+
+  flushTextLines();
+  return blocks;
+}
+
+/**
+ * Render complete document to Markdown
+ *
+ * Assumes document has already been validated.
+ *
+ * @param document - Document model to render
+ * @returns Markdown source
+ */
+export function renderDocumentToMarkdown(document: Document): string {
+  return `${renderBlocks(document.elements).join('\n\n')}\n`;
+}
+
+/**
+ * Render validated Resume data to Markdown
+ *
+ * @param resume - Validated Resume object
+ * @param sectionOrder - Optional custom section order
+ * @returns Markdown source
+ */
+export function renderResumeToMarkdown(resume: Resume, sectionOrder?: string[]): string {
+  return renderDocumentToMarkdown(transformResumeToDocumentWithOrder(resume, sectionOrder));
+}
@@ -0,0 +1,136 @@
+/**
+ * Fit-to-Pages Solver
+ *
+ * Renders a document with settings tried in order of preference (narrower
+ * margins first, then tighter spacing, then a denser preset, within
+ * FIT_CONFIG bounds) until the PDF fits a target page count.
+ * Server-side only (Node.js).
+ */
+
+import type { Document } from '../types/document.types.js';
+import {
+  renderDocumentToPDFWithMetadata,
+  type PdfRenderOptions,
+  type PdfRenderResult,
+} from './pdf-renderer.js';
+import {
+  DENSITY_PRESETS,
+  FIT_CONFIG,
+  getPageLayout,
+  type DensityPreset,
+  type PageMargins,
+} from './renderer-config.js';
+
+/**
+ * Settings chosen by the solver
+ */
+export interface PdfFitSettings {
+  densityPreset: DensityPreset;
+  spacingScale: number;
+  margins: PageMargins;
+}
+
+/**
+ * Fit-to-pages render result
+ */
+export interface PdfFitResult extends PdfRenderResult {
+  settings: PdfFitSettings;
+  fitted: boolean; // False when even the most compact settings exceed the target
+}
+
+/**
+ * List candidate settings in the order they are tried
+ * Each margin step is tried at a spacing scale before the spacing tightens,
+ * and each spacing scale within a preset before the next denser preset, so
+ * margins start over at every spacing and preset. Starts at the requested
+ * density and margins and never loosens them.
+ */
+function buildCandidates(densityPreset: DensityPreset, baseMargins: PageMargins): PdfFitSettings[] {
+  const presets = (Object.keys(DENSITY_PRESETS) as DensityPreset[]).slice(
+    Object.keys(DENSITY_PRESETS).indexOf(densityPreset)
+  );
+  const candidates: PdfFitSettings[] = [];
+  const seen = new Set<string>();
+
+  for (const preset of presets) {
+    for (const spacingScale of FIT_CONFIG.spacingScales) {
+      for (const step of FIT_CONFIG.marginSteps) {
+        const margins: PageMargins = {
+          top: Math.min(baseMargins.top, step),
+          right: Math.min(baseMargins.right, step),
+          bottom: Math.min(baseMargins.bottom, step),
+          left: Math.min(baseMargins.left, step),
+        };
+
+        // Margins already below a step repeat the previous candidate
+        const key = JSON.stringify([preset, spacingScale, margins]);
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        candidates.push({ densityPreset: preset, spacingScale, margins });
+      }
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Render with one candidate's settings
+ */
+function renderCandidate(
+  document: Document,
+  fontProfile: 'sans' | 'serif' | 'mono',
+  settings: PdfFitSettings,
+  options: PdfRenderOptions
+): Promise<PdfRenderResult> {
+  return renderDocumentToPDFWithMetadata(document, fontProfile, settings.densityPreset, {
+    ...options,
+    margins: settings.margins,
+    spacingScale: settings.spacingScale,
+  });
+}
+
+/**
+ * Render a document to PDF, compacting it until it fits a page count
+ *
+ * The first candidate is the requested settings unchanged, so a document
+ * that already fits renders exactly as renderDocumentToPDFWithMetadata() would.
+ * Candidates are tried one by one: page count does not always fall as
+ * settings compact (narrower margins can move a kept-together block to a
+ * new page), so no candidate is skipped. When nothing fits, the last and
+ * most compact render is returned with fitted false.
+ *
+ * @param document - Document model to render
+ * @param targetPages - Maximum page count
+ * @param fontProfile - Font profile to use ('sans', 'serif', or 'mono')
+ * @param densityPreset - Least compact density preset to try
+ * @param options - Render options; margins are the largest the solver uses
+ * @returns Promise that resolves to the render result and chosen settings
+ */
+export async function renderDocumentToPDFFitted(
+  document: Document,
+  targetPages: number,
+  fontProfile: 'sans' | 'serif' | 'mono' = 'sans',
+  densityPreset: DensityPreset = 'normal',
+  options: PdfRenderOptions = {}
+): Promise<PdfFitResult> {
+  const page = getPageLayout(options.pageSize, options.margins);
+  const candidates = buildCandidates(densityPreset, {
+    top: page.marginTop,
+    right: page.marginRight,
+    bottom: page.marginBottom,
+    left: page.marginLeft,
+  });
+
+  const mostCompact = candidates[candidates.length - 1];
+  for (const settings of candidates.slice(0, -1)) {
+    const result = await renderCandidate(document, fontProfile, settings, options);
+    if (result.pageCount <= targetPages) {
+      return { ...result, settings, fitted: true };
+    }
+  }
+
+  const result = await renderCandidate(document, fontProfile, mostCompact, options);
+  return { ...result, settings: mostCompact, fitted: result.pageCount <= targetPages };
+}
@@ -0,0 +1,52 @@
+/**
+ * PDF Metadata Builder
+ * 
+ * Derives PDF document information from Resume data:
+ * Title and Author from contact.fullName, Subject from contact.jobTitle,
+ * Keywords from the skills list.
+ */
+
+import type { Resume } from '../types/resume.types.js';
+import type { PdfDocumentInfo } from '../types/pdf-metadata.types.js';
+import { parseSkillWithCategory } from '../transformers/resume-to-document.transformer.js';
+
+/**
+ * Build skill keywords without category prefixes, de-duplicated in order
+ */
+function buildKeywords(skills: string[]): string[] {
+  const keywords: string[] = [];
+  const seen = new Set<string>();
+  
+  skills.forEach(entry => {
+    const { skill } = parseSkillWithCategory(entry);
+    const key = skill.toLowerCase();
+    if (skill !== '' && !seen.has(key)) {
+      seen.add(key);
+      keywords.push(skill);
+    }
+  });
+  
+  return keywords;
+}
+
+/**
+ * Build PDF document information from a validated resume
+ * 
+ * @param resume - Validated Resume object
+ * @param overrides - Per-request values that replace the derived ones
+ * @returns Document information for renderDocumentToPDFWithMetadata()
+ */
+export function buildPdfDocumentInfo(
+  resume: Resume,
+  overrides: PdfDocumentInfo = {}
+): PdfDocumentInfo {
+  const fullName = resume.contact.fullName.trim();
+  const jobTitle = resume.contact.jobTitle?.trim();
+  
+  return {
+    title: overrides.title ?? `${fullName} - Resume`,
+    author: overrides.author ?? fullName,
+    subject: overrides.subject ?? (jobTitle || undefined),
+    keywords: overrides.keywords ?? buildKeywords(resume.skills.skills),
+  };
+}
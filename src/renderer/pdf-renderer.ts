@@ -10,19 +10,39 @@ import type {
   Document,
   DocumentElement,
   HeadingElement,
+  HeadingLevel,
   ParagraphElement,
   TextLineElement,
   ListElement,
+  ListItem,
+  RowElement,
+  TextSpan,
 } from '../types/document.types.js';
+import type { PdfDocumentInfo, EmbeddedResumeSource } from '../types/pdf-metadata.types.js';
 import {
-  PAGE_CONFIG,
-  CONTENT_WIDTH,
   BULLET_MARKER,
   calculateLineHeight,
   getFontsForProfile,
   getConfigForDensity,
+  scaleDensitySpacing,
+  getPageLayout,
+  getContentWidth,
+  PDFA_CONFIG,
+  PDF_CREATOR,
+  EMBEDDED_SOURCE_CONFIG,
+  HYPHENATION_CONFIG,
   type DensityPreset,
+  type DensityConfig,
+  type PageSize,
+  type PageMargins,
+  type PageLayout,
+  type TextAlignment,
 } from './renderer-config.js';
+import { findLinks } from './link-detection.js';
+import { registerEmbeddedFonts, isWinAnsiText, findMissingGlyphs, type EmbeddedFontFiles } from './embedded-fonts.js';
+import { extractPdfText } from './pdf-text-extractor.js';
+import { hasRtlText, orderRunsVisually, splitDirectionalRuns } from './bidi.js';
+import { findHyphenationPoints } from './hyphenation.js';
 
 /**
  * Renderer state to track current position and page management
@@ -30,37 +50,319 @@ import {
 interface RendererState {
   doc: PDFKit.PDFDocument;
   currentY: number;
-  fonts: { main: string; bold: string };
-  config: ReturnType<typeof getConfigForDensity>;
+  fonts: { main: string; bold: string; italic: string };
+  config: DensityConfig;
+  page: PageLayout;
+  contentWidth: number;
+  elements: DocumentElement[]; // Full element sequence, for keep-with-next lookahead
   elementIndex: number;
   isFirstTextLine: boolean;
+  rtl: boolean; // Right-to-left document: mirrored layout
+  textAlign: TextAlignment; // Paragraph and list item alignment
+  hyphenate: boolean; // Hyphenate paragraphs and list items
+  structure: PDFKit.PDFStructureElement; // Root 'Document' element of the tag tree
+  outlineSection: PDFKit.PDFOutline | null; // Bookmark of the current H2, parent for H3 bookmarks
 }
 
 /**
- * Initialize PDF document with fixed configuration
+ * Optional PDF render settings
  */
-function initializePDF(): PDFKit.PDFDocument {
+export interface PdfRenderOptions {
+  lang?: string; // Document language (default 'en')
+  info?: PdfDocumentInfo; // Title, Author, Subject, Keywords (title defaults to name heading)
+  pdfA?: boolean; // PDF/A archival output with embedded fonts (default false)
+  source?: EmbeddedResumeSource; // Resume data to attach for re-import (default none)
+  pageSize?: PageSize; // Paper size (default 'letter')
+  margins?: Partial<PageMargins>; // Margins in points (default 0.75 inch each)
+  spacingScale?: number; // Vertical spacing multiplier, set by the fit-to-pages solver (default 1)
+  runningHeader?: boolean; // Name and "Page N of M" on pages after the first (default true)
+  textAlign?: TextAlignment; // Paragraph and list item alignment (default 'left')
+  hyphenate?: boolean; // Break long words in paragraphs and list items at line ends (default false)
+  embeddedFonts?: EmbeddedFontFiles; // TrueType fonts to embed instead of the bundled DejaVu fonts
+}
+
+/**
+ * PDF render result
+ */
+export interface PdfRenderResult {
+  buffer: Buffer;
+  pageCount: number;
+  info: PdfDocumentInfo; // Document information as written to the PDF
+}
+
+/**
+ * Resolve document information written to the PDF
+ */
+function resolveDocumentInfo(document: Document, options: PdfRenderOptions): PdfDocumentInfo {
+  const nameHeading = document.elements.find(
+    (el): el is HeadingElement => el.type === 'HEADING' && el.level === 1
+  );
+  const info: PdfDocumentInfo = {
+    ...options.info,
+    title: options.info?.title ?? nameHeading?.text ?? 'Resume',
+  };
+  
+  if (!options.pdfA) {
+    return info;
+  }
+  
+  // PDFKit copies these values into XMP without escaping; drop XML markup characters
+  const toXmpSafe = (value: string) => value.replace(/\s*&\s*/g, ' and ').replace(/[<>]/g, '');
+  return {
+    title: info.title && toXmpSafe(info.title),
+    author: info.author && toXmpSafe(info.author),
+    subject: info.subject && toXmpSafe(info.subject),
+    keywords: info.keywords?.map(toXmpSafe),
+  };
+}
+
+/**
+ * Initialize tagged PDF document with fixed configuration
+ * PDF/A mode adds the output intent and pdfaid XMP metadata (written by PDFKit)
+ */
+function initializePDF(
+  page: PageLayout,
+  lang: string,
+  info: PdfDocumentInfo,
+  pdfA: boolean,
+  hasAttachment: boolean
+): PDFKit.PDFDocument {
+  // PDFKit requires every Info entry to have a value, so unset fields are left out
+  const infoEntries = {
+    Title: info.title,
+    Author: info.author,
+    Subject: info.subject,
+    Keywords: info.keywords?.join(', '),
+  };
+  const infoDictionary: PDFKit.DocumentInfo = {
+    Creator: PDF_CREATOR,
+    Producer: PDF_CREATOR,
+  };
+  (Object.keys(infoEntries) as (keyof typeof infoEntries)[]).forEach(key => {
+    if (infoEntries[key]) {
+      infoDictionary[key] = infoEntries[key];
+    }
+  });
+  
+  const archival = pdfA
+    ? {
+        subset: hasAttachment ? PDFA_CONFIG.subsetWithAttachments : PDFA_CONFIG.subset,
+        pdfVersion: PDFA_CONFIG.pdfVersion,
+      }
+    : {};
+  
   return new PDFDocument({
-    size: [PAGE_CONFIG.width, PAGE_CONFIG.height],
+    ...archival,
+    size: [page.width, page.height],
     margins: {
-      top: PAGE_CONFIG.marginTop,
-      bottom: PAGE_CONFIG.marginBottom,
-      left: PAGE_CONFIG.marginLeft,
-      right: PAGE_CONFIG.marginRight,
+      top: page.marginTop,
+      bottom: page.marginBottom,
+      left: page.marginLeft,
+      right: page.marginRight,
     },
     autoFirstPage: true,
+    bufferPages: true, // Running headers are drawn once the page count is known
+    tagged: true,
+    lang,
+    displayTitle: true,
+    info: infoDictionary,
   });
 }
 
+/**
+ * Attach the source resume as an embedded JSON file
+ * Same shape as the frontend's JSON export, so the extracted file also loads directly
+ */
+function attachSource(
+  doc: PDFKit.PDFDocument,
+  source: EmbeddedResumeSource,
+  fontProfile: 'sans' | 'serif' | 'mono',
+  densityPreset: DensityPreset,
+  options: PdfRenderOptions
+): void {
+  const payload = {
+    ...source.resume,
+    sectionOrder: source.sectionOrder,
+    fontProfile,
+    densityPreset,
+    pageSize: options.pageSize ?? 'letter',
+    margins: options.margins,
+    fitToPages: source.fitToPages,
+    runningHeader: options.runningHeader ?? true,
+    textAlign: options.textAlign ?? 'left',
+    hyphenate: options.hyphenate ?? false,
+  };
+  const now = new Date();
+  
+  // AFRelationship is required by PDF/A-3 (option missing from @types/pdfkit)
+  const attachmentOptions: PDFKit.Mixins.PDFAttachmentOptions & { relationship: string } = {
+    name: EMBEDDED_SOURCE_CONFIG.fileName,
+    type: 'application/json',
+    description: EMBEDDED_SOURCE_CONFIG.description,
+    creationDate: now,
+    modifiedDate: now,
+    relationship: 'Source',
+  };
+  
+  doc.file(Buffer.from(JSON.stringify(payload, null, 2), 'utf8'), attachmentOptions);
+}
+
+/**
+ * Add a tagged structure element whose content is drawn by the callback
+ * Content drawn inside the callback becomes marked content of the element
+ */
+function addTaggedContent(
+  parent: PDFKit.PDFStructureElement,
+  state: RendererState,
+  tag: string,
+  draw: () => void
+): void {
+  parent.add(state.doc.struct(tag, {}, draw));
+}
+
 /**
  * Check if we need a new page and add one if necessary
  */
 function checkPageBreak(state: RendererState, requiredSpace: number): void {
-  const availableSpace = PAGE_CONFIG.height - PAGE_CONFIG.marginBottom - state.currentY;
+  const availableSpace = state.page.height - state.page.marginBottom - state.currentY;
   
   if (availableSpace < requiredSpace) {
     state.doc.addPage();
-    state.currentY = PAGE_CONFIG.marginTop;
+    state.currentY = state.page.marginTop;
+  }
+}
+
+/**
+ * Usable vertical space on a page
+ */
+function getPageBodyHeight(state: RendererState): number {
+  return state.page.height - state.page.marginTop - state.page.marginBottom;
+}
+
+/**
+ * Measure the rendered height of a list item's text
+ */
+function measureListItem(state: RendererState, item: ListItem): number {
+  const fontSize = state.config.fontSizes.body;
+  const width = state.contentWidth - state.config.spacing.listItemIndent;
+  const lineGap = calculateLineHeight(fontSize) - fontSize;
+  state.doc.font(state.fonts.main).fontSize(fontSize);
+  
+  // Justified and hyphenated text wraps like drawInlineText() lays it out; right-to-left words are never hyphenated
+  if (!state.rtl && (state.textAlign === 'justify' || state.hyphenate)) {
+    const hyphenate = state.hyphenate && !hasRtlText(item.text);
+    const lines = wrapWords(state, item.spans ?? [{ text: item.text }], state.fonts.main, width, true, hyphenate);
+    return lines.length * (state.doc.font(state.fonts.main).currentLineHeight(true) + lineGap);
+  }
+  return state.doc.heightOfString(item.text, { width, lineGap });
+}
+
+/**
+ * Space needed to start a list item (widow/orphan control)
+ * Items are kept whole, a one-line first item stays with the second,
+ * and a one-line last item is never left alone at the top of a page
+ */
+function getListItemKeepHeight(state: RendererState, items: ListItem[], index: number): number {
+  const singleLine = calculateLineHeight(state.config.fontSizes.body) * 1.5;
+  const gap = state.config.spacing.betweenListItems;
+  const height = measureListItem(state, items[index]);
+  let keepHeight = height;
+  
+  // The next item still needs room to start after this one
+  if (index === 0 && items.length > 1 && height < singleLine) {
+    keepHeight = height + gap + Math.max(state.config.spacing.minSpaceForListItem, measureListItem(state, items[1]));
+  }
+  if (index === items.length - 2) {
+    const lastHeight = measureListItem(state, items[index + 1]);
+    if (lastHeight < singleLine) {
+      keepHeight = Math.max(keepHeight, height + gap + Math.max(state.config.spacing.minSpaceForListItem, lastHeight));
+    }
+  }
+  
+  // Items taller than a page have to split wherever the page ends
+  return keepHeight <= getPageBodyHeight(state) ? keepHeight : state.config.spacing.minSpaceForListItem;
+}
+
+/**
+ * Space needed to start a heading (keep-with-next)
+ * An entry header (H3 or row) keeps its following text lines (company, dates)
+ * and the start of the entry's content on one page; an H2 keeps its first content line
+ */
+function getKeepWithNextHeight(state: RendererState, lineHeight: number): number {
+  const bodyLineHeight = calculateLineHeight(state.config.fontSizes.body);
+  let keepHeight = 0;
+  let inEntryHeader = false;
+  
+  for (let i = state.elementIndex; i < state.elements.length; i++) {
+    const element = state.elements[i];
+    
+    if (element.type === 'HEADING' && element.level > 1) {
+      const fontSize = element.level === 2 ? state.config.fontSizes.h2 : state.config.fontSizes.h3;
+      keepHeight += calculateLineHeight(fontSize) + state.config.spacing.afterHeading;
+      inEntryHeader = element.level === 3;
+      continue;
+    }
+    
+    if (element.type === 'ROW') {
+      keepHeight += calculateLineHeight(state.config.fontSizes.h3) + state.config.spacing.afterHeading;
+      inEntryHeader = true;
+      continue;
+    }
+    
+    if (element.type === 'TEXT_LINE' && element.text !== '') {
+      keepHeight += bodyLineHeight + state.config.spacing.afterTextLine;
+      if (inEntryHeader) continue;
+    } else if (element.type === 'LIST' && element.items.length > 0) {
+      // Same space renderList() requires to start the first item
+      keepHeight += Math.max(state.config.spacing.minSpaceForListItem, getListItemKeepHeight(state, element.items, 0));
+    } else if (element.type === 'PARAGRAPH') {
+      keepHeight += state.config.spacing.minSpaceForParagraph;
+    }
+    break;
+  }
+  
+  // Blocks taller than a page cannot be kept together
+  return keepHeight <= getPageBodyHeight(state) ? keepHeight : lineHeight;
+}
+
+/**
+ * Outline item with the entries PDFKit writes to its dictionary
+ * (missing from @types/pdfkit)
+ */
+interface PDFOutlineItem extends PDFKit.PDFOutline {
+  outlineData: { Dest?: unknown[] };
+}
+
+/**
+ * Point an outline item at a destination
+ * PDFKit's addItem() has no destination option and always targets the whole
+ * page; fails loudly if a PDFKit upgrade changes how items store it
+ */
+function setOutlineDestination(item: PDFKit.PDFOutline, destination: unknown[]): void {
+  const outlineData = (item as Partial<PDFOutlineItem>).outlineData;
+  if (!outlineData || !Array.isArray(outlineData.Dest)) {
+    throw new Error('Unsupported PDFKit version: outline items have no destination');
+  }
+  outlineData.Dest = destination;
+}
+
+/**
+ * Add a bookmark pointing at the current position
+ * H2 headings become top-level entries, H3 headings nest under the preceding H2
+ */
+function addBookmark(state: RendererState, level: HeadingLevel, text: string): void {
+  if (level === 1) {
+    return;
+  }
+  
+  const parent = level === 2 ? state.doc.outline : (state.outlineSection ?? state.doc.outline);
+  const item = parent.addItem(text);
+  
+  // Jump to the heading instead of the whole page (left and zoom unchanged)
+  setOutlineDestination(item, [state.doc.page.dictionary, 'XYZ', null, state.page.height - state.currentY, null]);
+  
+  if (level === 2) {
+    state.outlineSection = item;
   }
 }
 
@@ -76,17 +378,17 @@ function renderHeading(state: RendererState, element: HeadingElement): void {
   
   const lineHeight = calculateLineHeight(fontSize);
   
-  // Check if we need a new page
-  checkPageBreak(state, lineHeight);
+  // Check if we need a new page; section and entry headings move with what follows them
+  checkPageBreak(state, element.level === 1 ? lineHeight : getKeepWithNextHeight(state, lineHeight));
   
-  // Render heading text
-  state.doc
-    .font(state.fonts.bold)
-    .fontSize(fontSize)
-    .text(element.text, PAGE_CONFIG.marginLeft, state.currentY, {
-      width: CONTENT_WIDTH,
-      align: 'left',
-    });
+  addBookmark(state, element.level, element.text);
+  
+  // Render heading text (tagged H1/H2/H3)
+  state.doc.fontSize(fontSize);
+  addTaggedText(state.structure, state, `H${element.level}`, element.text, undefined, state.page.marginLeft, {
+    width: state.contentWidth,
+    align: 'left',
+  }, state.fonts.bold);
   
   // Reset font state to prevent leaking
   state.doc
@@ -99,98 +401,531 @@ function renderHeading(state: RendererState, element: HeadingElement): void {
 }
 
 /**
- * Render a paragraph element
+ * Text options of drawInlineText(); hyphenate breaks long words at line ends,
+ * except at the ends of unhyphenatedLines (line indices)
  */
-function renderParagraph(state: RendererState, element: ParagraphElement): void {
-  const fontSize = state.config.fontSizes.body;
-  const lineHeight = calculateLineHeight(fontSize);
+type InlineTextOptions = PDFKit.Mixins.TextOptions & { hyphenate?: boolean; unhyphenatedLines?: ReadonlySet<number> };
+
+/**
+ * Word, whitespace or word fragment of wrapped text
+ */
+interface WrappedWord {
+  text: string;
+  start: number; // Offset in the laid-out text
+  font: string;
+  hyphen: boolean; // Fragment before a hyphenation point, drawn with a hyphen
+}
+
+/**
+ * Line of wrapped text
+ */
+interface WrappedLine {
+  words: WrappedWord[];
+  wrapped: boolean; // Ends where the text wrapped, not at a line break or the end of the text
+}
+
+/**
+ * Run of laid-out text, placed on its line
+ */
+interface PlacedRun {
+  text: string;
+  start: number; // Offset of the run in the laid-out text
+  font: string;
+  rtl: boolean;
+  hyphen: boolean; // Ends at a hyphenation point
+  x: number; // Offset from the left edge of the text box
+  width: number;
+}
+
+/**
+ * Brackets drawn as their mirror image inside right-to-left runs
+ */
+const MIRRORED_BRACKETS: Record<string, string> = {
+  '(': ')', ')': '(', '[': ']', ']': '[', '{': '}', '}': '{', '<': '>', '>': '<', '«': '»', '»': '«',
+};
+
+/**
+ * Font of an emphasis span
+ */
+function getSpanFont(state: RendererState, span: TextSpan, baseFont: string): string {
+  return span.bold ? state.fonts.bold : span.italic ? state.fonts.italic : baseFont;
+}
+
+/**
+ * Width of a word or run as drawn, including its hyphen
+ */
+function getWordWidth(state: RendererState, word: { text: string; font: string; hyphen: boolean }): number {
+  return state.doc.font(word.font).widthOfString(word.hyphen ? word.text + HYPHENATION_CONFIG.hyphen : word.text);
+}
+
+/**
+ * Split a word at its last hyphenation point that leaves a head fitting the space
+ */
+function hyphenateWord(state: RendererState, word: WrappedWord, space: number): [WrappedWord, WrappedWord] | null {
+  const points = findHyphenationPoints(word.text);
   
-  // Check minimum space to start paragraph (prevent orphaned first lines)
-  checkPageBreak(state, state.config.spacing.minSpaceForParagraph);
+  for (let i = points.length - 1; i >= 0; i--) {
+    const head = { ...word, text: word.text.slice(0, points[i]), hyphen: true };
+    if (getWordWidth(state, head) <= space) {
+      return [head, { ...word, text: word.text.slice(points[i]), start: word.start + points[i] }];
+    }
+  }
+  return null;
+}
+
+/**
+ * Wrap text to a box width
+ * Greedy word wrap: whitespace never starts or ends a line and line breaks
+ * in the text are kept. With hyphenate, a word that does not fit is broken
+ * at its last hyphenation point that does, unless the line is one of
+ * unhyphenatedLines. A word wider than the box overflows it.
+ */
+function wrapWords(
+  state: RendererState,
+  spans: TextSpan[],
+  baseFont: string,
+  width: number,
+  wrap: boolean,
+  hyphenate: boolean,
+  unhyphenatedLines: ReadonlySet<number> = new Set()
+): WrappedLine[] {
+  const words: WrappedWord[] = [];
+  let offset = 0;
   
-  // Ensure font state is correct
-  state.doc
-    .font(state.fonts.main)
-    .fontSize(fontSize);
+  spans.forEach(span => {
+    const font = getSpanFont(state, span, baseFont);
+    span.text.split(/(\s+)/).forEach(part => {
+      if (part !== '') words.push({ text: part, start: offset, font, hyphen: false });
+      offset += part.length;
+    });
+  });
   
-  // Render paragraph text
-  state.doc.text(element.text, PAGE_CONFIG.marginLeft, state.currentY, {
-    width: CONTENT_WIDTH,
-    align: 'left',
-    lineGap: lineHeight - fontSize,
+  const lines: WrappedLine[] = [{ words: [], wrapped: false }];
+  let lineWidth = 0;
+  const currentLine = () => lines[lines.length - 1];
+  const breakLine = (wrapped: boolean) => {
+    currentLine().wrapped = wrapped;
+    lines.push({ words: [], wrapped: false });
+    lineWidth = 0;
+  };
+  
+  words.forEach(word => {
+    if (/^\s/.test(word.text)) {
+      if (currentLine().words.length === 0) return;
+      if (wrap && word.text.includes('\n')) {
+        breakLine(false);
+      } else {
+        currentLine().words.push(word);
+        lineWidth += getWordWidth(state, word);
+      }
+      return;
+    }
+    
+    let rest = word;
+    while (wrap && lineWidth + getWordWidth(state, rest) > width) {
+      const parts = hyphenate && !unhyphenatedLines.has(lines.length - 1) ? hyphenateWord(state, rest, width - lineWidth) : null;
+      if (parts) {
+        currentLine().words.push(parts[0]);
+        rest = parts[1];
+      } else if (currentLine().words.length === 0) {
+        break;
+      }
+      breakLine(true);
+    }
+    currentLine().words.push(rest);
+    lineWidth += getWordWidth(state, rest);
   });
   
-  // Update Y position (PDFKit advances position automatically)
-  state.currentY = state.doc.y + state.config.spacing.afterParagraph;
+  lines.forEach(line => {
+    while (line.words.length > 0 && /^\s/.test(line.words[line.words.length - 1].text)) line.words.pop();
+  });
+  return lines;
 }
 
 /**
- * Link detection helper - identifies URLs and emails in text
+ * Lay out bidirectional text
+ * Words wrap to the box width, then each line is split into directional
+ * runs placed in visual order for the base direction. Runs of each line
+ * stay in logical order.
  */
-interface LinkMatch {
-  text: string;
-  start: number;
-  end: number;
-  url: string;
+function layoutBidirectional(
+  state: RendererState,
+  spans: TextSpan[],
+  baseFont: string,
+  width: number,
+  align: PDFKit.Mixins.TextOptions['align'],
+  wrap: boolean,
+  rtl: boolean
+): PlacedRun[][] {
+  const measure = (text: string, font: string) => state.doc.font(font).widthOfString(text);
+  
+  return wrapWords(state, spans, baseFont, width, wrap, false).map(({ words: line }) => {
+    if (line.length === 0) return [];
+    
+    // Split the line at direction and font changes
+    const lineText = line.map(word => word.text).join('');
+    const lineStart = line[0].start;
+    const runs: PlacedRun[] = [];
+    splitDirectionalRuns(lineText, rtl).forEach(run => {
+      line.forEach(word => {
+        const from = Math.max(run.start, word.start - lineStart);
+        const to = Math.min(run.end, word.start - lineStart + word.text.length);
+        if (from >= to) return;
+        
+        const previous = runs[runs.length - 1];
+        if (previous && previous.rtl === run.rtl && previous.font === word.font) {
+          previous.text += lineText.slice(from, to);
+        } else {
+          runs.push({
+            text: lineText.slice(from, to),
+            start: lineStart + from,
+            font: word.font,
+            rtl: run.rtl,
+            hyphen: false,
+            x: 0,
+            width: 0,
+          });
+        }
+      });
+    });
+    
+    runs.forEach(run => {
+      run.width = measure(run.text, run.font);
+    });
+    const totalWidth = runs.reduce((sum, run) => sum + run.width, 0);
+    let x = align === 'right' ? width - totalWidth : align === 'center' ? (width - totalWidth) / 2 : 0;
+    orderRunsVisually(runs, rtl).forEach(run => {
+      run.x = x;
+      x += run.width;
+    });
+    
+    return runs;
+  });
+}
+
+/**
+ * Lay out justified or hyphenated text left-to-right
+ * Justified lines stretch their spaces to the box width, except the last
+ * line and lines ending at a line break. Words of a justified line are
+ * placed one by one, so the spaces stay in the text layer.
+ */
+function layoutLeftToRight(
+  state: RendererState,
+  spans: TextSpan[],
+  baseFont: string,
+  width: number,
+  justify: boolean,
+  hyphenate: boolean,
+  unhyphenatedLines?: ReadonlySet<number>
+): PlacedRun[][] {
+  const lines = wrapWords(state, spans, baseFont, width, true, hyphenate, unhyphenatedLines);
+  return lines.map(({ words, wrapped }, index) => {
+    const gaps = words.filter(word => /^\s/.test(word.text)).length;
+    const naturalWidth = words.reduce((sum, word) => sum + getWordWidth(state, word), 0);
+    const extra = justify && wrapped && gaps > 0 ? Math.max(0, (width - naturalWidth) / gaps) : 0;
+    const previousWords = index > 0 ? lines[index - 1].words : [];
+    const continued = previousWords.length > 0 && previousWords[previousWords.length - 1].hyphen;
+    
+    // Words in one font share a run; justified runs end after each space,
+    // and fragments of a hyphenated word get runs of their own
+    const runs: PlacedRun[] = [];
+    words.forEach(word => {
+      const previous = runs[runs.length - 1];
+      const separate = word.hyphen || (continued && runs.length === 1);
+      if (previous && !separate && previous.font === word.font && (extra === 0 || !/\s$/.test(previous.text))) {
+        previous.text += word.text;
+        previous.hyphen = word.hyphen;
+      } else {
+        runs.push({ text: word.text, start: word.start, font: word.font, rtl: false, hyphen: word.hyphen, x: 0, width: 0 });
+      }
+    });
+    
+    let x = 0;
+    runs.forEach(run => {
+      run.width = getWordWidth(state, run);
+      run.x = x;
+      x += run.width + (/\s$/.test(run.text) ? extra : 0);
+    });
+    
+    return runs;
+  });
+}
+
+/**
+ * Whole text of the hyphenated word whose first fragment ends a line
+ */
+function getHyphenatedWord(lines: PlacedRun[][], index: number): string {
+  let word = lines[index][lines[index].length - 1].text;
+  for (let i = index + 1; i < lines.length; i++) {
+    word += lines[i][0].text;
+    if (!lines[i][0].hyphen) break;
+  }
+  return word;
 }
 
 /**
- * Find all URLs and emails in a text string
+ * Draw laid-out lines
+ * Right-to-left runs are drawn in logical order; the font shaper reverses
+ * them, and /ActualText keeps their text layer in logical order. A
+ * hyphenated word reads whole the same way: its fragments share one marked
+ * content sequence. The hyphen itself is left to drawHyphens()
  */
-function findLinks(text: string): LinkMatch[] {
-  const links: LinkMatch[] = [];
+function drawPlacedLines(
+  state: RendererState,
+  lines: PlacedRun[][],
+  baseFont: string,
+  x: number,
+  y: number,
+  options: PDFKit.Mixins.TextOptions
+): void {
+  const lineHeight = state.doc.font(baseFont).currentLineHeight(true);
+  let lineY = y;
+  let inWord = false; // Between the fragments of a hyphenated word
   
-  // Email pattern: simple but effective for ATS-safe emails
-  const emailRegex = /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g;
+  lines.forEach((line, index) => {
+    line.forEach(run => {
+      // The shaper only reverses runs containing right-to-left script; brackets are never mirrored
+      const mirrored = [...run.text].map(char => (run.rtl ? MIRRORED_BRACKETS[char] ?? char : char));
+      const glyphs = run.rtl && !hasRtlText(run.text) ? mirrored.reverse().join('') : mirrored.join('');
+      
+      if (run.rtl) {
+        state.doc.markContent('Span', { actual: run.text });
+      } else if (run.hyphen && !inWord) {
+        state.doc.markContent('Span', { actual: getHyphenatedWord(lines, index) });
+        inWord = true;
+      }
+      state.doc.font(run.font).text(glyphs, x + run.x, lineY, { lineBreak: false });
+      if (run.rtl || (inWord && !run.hyphen)) {
+        state.doc.endMarkedContent();
+        inWord = false;
+      }
+    });
+    lineY += lineHeight + (options.lineGap ?? 0);
+  });
   
-  // URL pattern: matches common URL formats (with or without protocol)
-  // Matches: example.com, www.example.com, https://example.com, github.com/user
-  const urlRegex = /\b(?:https?:\/\/)?(?:www\.)?[a-z0-9-]+(?:\.[a-z0-9-]+)+(?:\/[^\s]*)?/gi;
+  state.doc.x = x;
+  state.doc.y = lineY;
+}
+
+/**
+ * Draw the hyphens ending broken lines as layout artifacts
+ * Called outside the element's marked content (artifacts cannot sit inside
+ * tagged content), so the hyphen is no part of the extracted word
+ */
+function drawHyphens(
+  state: RendererState,
+  lines: PlacedRun[][],
+  baseFont: string,
+  x: number,
+  y: number,
+  options: PDFKit.Mixins.TextOptions
+): void {
+  const { x: docX, y: docY } = state.doc;
+  const lineHeight = state.doc.font(baseFont).currentLineHeight(true);
+  let lineY = y;
   
-  // Find emails
-  let match: RegExpExecArray | null;
-  while ((match = emailRegex.exec(text)) !== null) {
-    links.push({
-      text: match[0],
-      start: match.index,
-      end: match.index + match[0].length,
-      url: `mailto:${match[0]}`,
-    });
+  lines.forEach(line => {
+    const run = line[line.length - 1];
+    if (run?.hyphen) {
+      const hyphenX = x + run.x + state.doc.font(run.font).widthOfString(run.text);
+      state.doc.markContent('Artifact', { type: 'Layout' });
+      state.doc.text(HYPHENATION_CONFIG.hyphen, hyphenX, lineY, { lineBreak: false });
+      state.doc.endMarkedContent();
+    }
+    lineY += lineHeight + (options.lineGap ?? 0);
+  });
+  
+  state.doc.x = docX;
+  state.doc.y = docY;
+}
+
+/**
+ * Lay out text that drawInlineText() places run by run
+ * Right-to-left documents mirror the text box within the content area and
+ * swap left and right alignment; justification and hyphenation are for
+ * left-to-right text only. Uses the current font size
+ *
+ * @returns Lines and the x position of their box, or null when PDFKit lays out the text
+ */
+function layoutPlacedText(
+  state: RendererState,
+  text: string,
+  spans: TextSpan[] | undefined,
+  x: number,
+  options: InlineTextOptions,
+  baseFont: string
+): { lines: PlacedRun[][]; x: number } | null {
+  const runs = spans ?? [{ text }];
+  const width = options.width ?? state.contentWidth;
+  
+  if (state.rtl) {
+    const align = options.align === 'left' || options.align === 'justify' ? 'right' : options.align === 'right' ? 'left' : options.align;
+    return {
+      lines: layoutBidirectional(state, runs, baseFont, width, align, options.lineBreak !== false, true),
+      x: 2 * state.page.marginLeft + state.contentWidth - x - width,
+    };
+  }
+  
+  // PDFKit would draw right-to-left words of a left-to-right document in visual order
+  if (hasRtlText(text)) {
+    const align = options.align === 'justify' ? 'left' : options.align;
+    return { lines: layoutBidirectional(state, runs, baseFont, width, align, options.lineBreak !== false, false), x };
+  }
+  
+  if (options.align === 'justify' || options.hyphenate) {
+    return {
+      lines: layoutLeftToRight(
+        state,
+        runs,
+        baseFont,
+        width,
+        options.align === 'justify',
+        options.hyphenate ?? false,
+        options.unhyphenatedLines
+      ),
+      x,
+    };
+  }
+  
+  return null;
+}
+
+/**
+ * Draw text, with emphasis spans as continued runs in the profile's bold and italic fonts
+ * Text that layoutPlacedText() lays out is drawn line by line and never
+ * breaks the page; see addTaggedText(). Leaves the main font selected
+ */
+function drawInlineText(
+  state: RendererState,
+  text: string,
+  spans: TextSpan[] | undefined,
+  x: number,
+  y: number,
+  options: InlineTextOptions,
+  baseFont: string = state.fonts.main
+): void {
+  const placed = layoutPlacedText(state, text, spans, x, options, baseFont);
+  if (placed) {
+    drawPlacedLines(state, placed.lines, baseFont, placed.x, y, options);
+    state.doc.font(state.fonts.main);
+    return;
   }
   
-  // Find URLs (excluding already matched emails)
-  const emailPositions = new Set<number>();
-  links.forEach(link => {
-    for (let i = link.start; i < link.end; i++) {
-      emailPositions.add(i);
+  const runs = spans ?? [{ text }];
+  runs.forEach((span, index) => {
+    const runOptions = { ...options, continued: index < runs.length - 1 };
+    if (index === 0) {
+      state.doc.font(getSpanFont(state, span, baseFont)).text(span.text, x, y, runOptions);
+    } else {
+      state.doc.font(getSpanFont(state, span, baseFont)).text(span.text, runOptions);
     }
   });
+  state.doc.font(state.fonts.main);
+}
+
+/**
+ * Add a tagged structure element with text drawn at the current position
+ * PDFKit continues the text it lays out on a new page itself. Laid-out
+ * lines that reach the page end continue on a new page too, each page
+ * holding its own marked content of the element.
+ */
+function addTaggedText(
+  parent: PDFKit.PDFStructureElement,
+  state: RendererState,
+  tag: string,
+  text: string,
+  spans: TextSpan[] | undefined,
+  x: number,
+  options: InlineTextOptions,
+  baseFont: string = state.fonts.main
+): void {
+  let placed = layoutPlacedText(state, text, spans, x, options, baseFont);
+  if (!placed) {
+    addTaggedContent(parent, state, tag, () => {
+      drawInlineText(state, text, spans, x, state.currentY, options, baseFont);
+    });
+    return;
+  }
   
-  urlRegex.lastIndex = 0;
-  while ((match = urlRegex.exec(text)) !== null) {
-    // Skip if this position overlaps with an email
-    if (emailPositions.has(match.index)) continue;
-    
-    const matchedText = match[0];
-    let url = matchedText;
-    
-    // Add protocol if missing
-    if (!url.startsWith('http://') && !url.startsWith('https://')) {
-      url = `https://${url}`;
-    }
-    
-    links.push({
-      text: matchedText,
-      start: match.index,
-      end: match.index + matchedText.length,
-      url: url,
+  // Split the lines at page ends; a line taller than a whole page still gets drawn
+  const lineHeight = state.doc.font(baseFont).currentLineHeight(true);
+  const pageEnd = state.page.height - state.page.marginBottom;
+  const splitPages = (lines: PlacedRun[][]): PlacedRun[][][] => {
+    const pages: PlacedRun[][][] = [[]];
+    let lineY = state.currentY;
+    lines.forEach(line => {
+      const current = pages[pages.length - 1];
+      if (options.lineBreak !== false && lineY + lineHeight > pageEnd && (pages.length === 1 || current.length > 0)) {
+        pages.push([]);
+        lineY = state.page.marginTop;
+      }
+      pages[pages.length - 1].push(line);
+      lineY += lineHeight + (options.lineGap ?? 0);
     });
+    return pages;
+  };
+  
+  // A word hyphenated across a page end could not read whole, so the last line of a page is never hyphenated
+  const findHyphenatedPageEnd = (pages: PlacedRun[][][]): number | null => {
+    let index = -1;
+    for (const lines of pages.slice(0, -1)) {
+      index += lines.length;
+      const last = lines[lines.length - 1];
+      if (last && last.length > 0 && last[last.length - 1].hyphen) return index;
+    }
+    return null;
+  };
+  const unhyphenatedLines = new Set<number>();
+  let pages = splitPages(placed.lines);
+  let hyphenatedEnd = findHyphenatedPageEnd(pages);
+  while (hyphenatedEnd !== null) {
+    unhyphenatedLines.add(hyphenatedEnd);
+    placed = layoutPlacedText(state, text, spans, x, { ...options, unhyphenatedLines }, baseFont) ?? placed;
+    pages = splitPages(placed.lines);
+    hyphenatedEnd = findHyphenatedPageEnd(pages);
   }
   
-  // Sort by position
-  links.sort((a, b) => a.start - b.start);
+  const element = state.doc.struct(tag);
+  parent.add(element);
+  pages.forEach((lines, index) => {
+    if (index > 0) {
+      state.doc.addPage();
+      state.currentY = state.page.marginTop;
+    }
+    if (lines.length > 0) {
+      element.add(() => drawPlacedLines(state, lines, baseFont, placed.x, state.currentY, options));
+      drawHyphens(state, lines, baseFont, placed.x, state.currentY, options);
+    }
+  });
+  element.end();
+  state.doc.font(state.fonts.main);
+}
+
+/**
+ * Render a paragraph element
+ */
+function renderParagraph(state: RendererState, element: ParagraphElement): void {
+  const fontSize = state.config.fontSizes.body;
+  const lineHeight = calculateLineHeight(fontSize);
   
-  return links;
+  // Check minimum space to start paragraph (prevent orphaned first lines)
+  checkPageBreak(state, state.config.spacing.minSpaceForParagraph);
+  
+  // Ensure font state is correct
+  state.doc
+    .font(state.fonts.main)
+    .fontSize(fontSize);
+  
+  // Render paragraph text
+  addTaggedText(state.structure, state, 'P', element.text, element.spans, state.page.marginLeft, {
+    width: state.contentWidth,
+    align: state.textAlign,
+    hyphenate: state.hyphenate,
+    lineGap: lineHeight - fontSize,
+  });
+  
+  // Update Y position (PDFKit advances position automatically)
+  state.currentY = state.doc.y + state.config.spacing.afterParagraph;
 }
 
 /**
@@ -205,23 +940,25 @@ function renderTextLine(state: RendererState, element: TextLineElement): void {
   
   const fontSize = isContactLine ? state.config.fontSizes.contactInfo : state.config.fontSizes.body;
   const lineHeight = calculateLineHeight(fontSize);
+  const options: InlineTextOptions = { width: state.contentWidth, align: 'left' };
   
-  checkPageBreak(state, lineHeight);
+  // Laid-out (right-to-left) text may wrap; its lines move to a new page together
+  state.doc.font(state.fonts.main).fontSize(fontSize);
+  const placed = layoutPlacedText(state, element.text, undefined, state.page.marginLeft, options, state.fonts.main);
+  const wrappedLines = placed ? Math.max(0, placed.lines.length - 1) : 0;
+  const textHeight = lineHeight + wrappedLines * state.doc.font(state.fonts.main).currentLineHeight(true);
+  checkPageBreak(state, textHeight);
   
   const startY = state.currentY;
   
   // Render text line
-  state.doc
-    .font(state.fonts.main)
-    .fontSize(fontSize)
-    .text(element.text, PAGE_CONFIG.marginLeft, state.currentY, {
-      width: CONTENT_WIDTH,
-      align: 'left',
-    });
+  addTaggedText(state.structure, state, 'P', element.text, undefined, state.page.marginLeft, options);
   
   // Add clickable link annotations (no visual change)
   const links = findLinks(element.text);
-  if (links.length > 0) {
+  if (links.length > 0 && state.rtl) {
+    addRightToLeftLinks(state, element.text, startY, lineHeight);
+  } else if (links.length > 0) {
     links.forEach(link => {
       // Measure text width up to link start to calculate X position
       const textBeforeLink = element.text.substring(0, link.start);
@@ -231,7 +968,7 @@ function renderTextLine(state: RendererState, element: TextLineElement): void {
       const linkWidth = state.doc.widthOfString(link.text);
       
       // Calculate link bounds
-      const linkX = PAGE_CONFIG.marginLeft + textWidthBefore;
+      const linkX = state.page.marginLeft + textWidthBefore;
       const linkY = startY;
       const linkHeight = lineHeight;
       
@@ -242,7 +979,30 @@ function renderTextLine(state: RendererState, element: TextLineElement): void {
   
   // Update Y position with special spacing for contact line
   const spacingAfter = isContactLine ? state.config.spacing.afterContactLine : state.config.spacing.afterTextLine;
-  state.currentY += lineHeight + spacingAfter;
+  state.currentY = startY + textHeight + spacingAfter;
+}
+
+/**
+ * Add link annotations over a right-to-left text line
+ * Repeats the layout drawInlineText() used; a link split by a line wrap gets one box per line
+ */
+function addRightToLeftLinks(state: RendererState, text: string, y: number, lineHeight: number): void {
+  const lines = layoutBidirectional(state, [{ text }], state.fonts.main, state.contentWidth, 'right', true, true);
+  
+  findLinks(text).forEach(link => {
+    lines.forEach((line, index) => {
+      line.forEach(run => {
+        const from = Math.max(link.start, run.start);
+        const to = Math.min(link.start + link.text.length, run.start + run.text.length);
+        if (from >= to) return;
+        
+        const textWidthBefore = state.doc.widthOfString(run.text.substring(0, from - run.start));
+        const linkWidth = state.doc.widthOfString(text.substring(from, to));
+        const linkX = run.rtl ? run.x + run.width - textWidthBefore - linkWidth : run.x + textWidthBefore;
+        state.doc.link(state.page.marginLeft + linkX, y + index * lineHeight, linkWidth, lineHeight, link.url);
+      });
+    });
+  });
 }
 
 /**
@@ -252,33 +1012,48 @@ function renderList(state: RendererState, element: ListElement): void {
   const fontSize = state.config.fontSizes.body;
   const lineHeight = calculateLineHeight(fontSize);
   
+  // Tag structure: L > LI > (Lbl, LBody)
+  const list = state.doc.struct('L');
+  state.structure.add(list);
+  
   element.items.forEach((item, index) => {
-    // Check minimum space to start list item (prevent orphaned bullets)
-    checkPageBreak(state, state.config.spacing.minSpaceForListItem);
+    // Check space to start list item (prevent orphaned and widowed bullets)
+    checkPageBreak(
+      state,
+      Math.max(state.config.spacing.minSpaceForListItem, getListItemKeepHeight(state, element.items, index))
+    );
     
     // Calculate positions from config
-    const bulletX = PAGE_CONFIG.marginLeft;
+    const bulletX = state.page.marginLeft;
     const textX = bulletX + state.config.spacing.listItemIndent;
-    const textWidth = CONTENT_WIDTH - state.config.spacing.listItemIndent;
+    const textWidth = state.contentWidth - state.config.spacing.listItemIndent;
     
     // Ensure font state is correct
     state.doc
       .font(state.fonts.main)
       .fontSize(fontSize);
     
-    // Render bullet marker
-    state.doc.text(BULLET_MARKER, bulletX, state.currentY, {
-      width: state.config.spacing.listItemIndent,
-      align: 'left',
-      continued: false,
+    const listItem = state.doc.struct('LI');
+    list.add(listItem);
+    
+    // Render bullet marker, followed by a space in the text layer
+    addTaggedContent(listItem, state, 'Lbl', () => {
+      state.doc.markContent('Span', { actual: `${BULLET_MARKER} ` });
+      drawInlineText(state, BULLET_MARKER, undefined, bulletX, state.currentY, {
+        width: state.config.spacing.listItemIndent,
+        align: 'left',
+      });
+      state.doc.endMarkedContent();
     });
     
     // Render item text (indented)
-    state.doc.text(item.text, textX, state.currentY, {
+    addTaggedText(listItem, state, 'LBody', item.text, item.spans, textX, {
       width: textWidth,
-      align: 'left',
+      align: state.textAlign,
+      hyphenate: state.hyphenate,
       lineGap: lineHeight - fontSize,
     });
+    listItem.end();
     
     // Update Y position
     state.currentY = state.doc.y;
@@ -289,10 +1064,56 @@ function renderList(state: RendererState, element: ListElement): void {
     }
   });
   
+  list.end();
+  
   // Add spacing after list
   state.currentY += state.config.spacing.afterList;
 }
 
+/**
+ * Render a row element (entry heading with right-aligned text)
+ * The left text is drawn first so the text layer reads left, then right
+ */
+function renderRow(state: RendererState, element: RowElement): void {
+  const fontSize = state.config.fontSizes.h3;
+  const lineHeight = calculateLineHeight(fontSize);
+  
+  // Entry rows move with the lines and first bullet that follow them
+  checkPageBreak(state, getKeepWithNextHeight(state, lineHeight));
+  
+  addBookmark(state, 3, element.left);
+  
+  // Left text wraps before reaching the right text (keeping at least half the line)
+  state.doc.font(state.fonts.main).fontSize(fontSize);
+  const rightWidth = state.doc.widthOfString(element.right);
+  const leftWidth = Math.max(state.contentWidth / 2, state.contentWidth - rightWidth - fontSize);
+  
+  addTaggedText(state.structure, state, 'H3', element.left, undefined, state.page.marginLeft, {
+    width: leftWidth,
+    align: 'left',
+  }, state.fonts.bold);
+  const leftBottom = state.doc.y;
+  
+  // The sides are only set apart by position, so the text layer gets a space between them
+  addTaggedContent(state.structure, state, 'P', () => {
+    if (element.right === '') return;
+    state.doc.markContent('Span', { actual: ` ${element.right}` });
+    drawInlineText(state, element.right, undefined, state.page.marginLeft, state.currentY, {
+      width: state.contentWidth,
+      align: 'right',
+      lineBreak: false,
+    });
+    state.doc.endMarkedContent();
+  });
+  
+  // Reset font state to prevent leaking
+  state.doc
+    .font(state.fonts.main)
+    .fontSize(state.config.fontSizes.body);
+  
+  state.currentY = Math.max(leftBottom, state.currentY + lineHeight) + state.config.spacing.afterHeading;
+}
+
 /**
  * Render a section break
  */
@@ -300,6 +1121,48 @@ function renderSectionBreak(state: RendererState): void {
   state.currentY += state.config.spacing.sectionBreak;
 }
 
+/**
+ * Draw the running header (candidate name and page number) on every page after the first
+ * The header sits in the top margin and is marked as a pagination artifact,
+ * outside the structure tree
+ *
+ * @returns Header text of each page ('' for the first page)
+ */
+function addRunningHeaders(state: RendererState, name: string): string[] {
+  const { count } = state.doc.bufferedPageRange();
+  const fontSize = state.config.fontSizes.contactInfo;
+  const y = Math.max(0, (state.page.marginTop - calculateLineHeight(fontSize)) / 2);
+  const headers = [''];
+  
+  for (let pageIndex = 1; pageIndex < count; pageIndex++) {
+    const pageLabel = `Page ${pageIndex + 1} of ${count}`;
+    state.doc.switchToPage(pageIndex);
+    state.doc.font(state.fonts.main).fontSize(fontSize);
+    const labelWidth = state.doc.widthOfString(pageLabel);
+    
+    state.doc.markContent('Artifact', { type: 'Pagination' });
+    if (name !== '') {
+      drawInlineText(state, name, undefined, state.page.marginLeft, y, {
+        width: state.contentWidth - labelWidth,
+        align: 'left',
+        lineBreak: false,
+      });
+    }
+    state.doc.markContent('Span', { actual: name === '' ? pageLabel : ` ${pageLabel}` });
+    drawInlineText(state, pageLabel, undefined, state.page.marginLeft, y, {
+      width: state.contentWidth,
+      align: 'right',
+      lineBreak: false,
+    });
+    state.doc.endMarkedContent();
+    state.doc.endMarkedContent();
+    
+    headers.push(`${name} ${pageLabel}`);
+  }
+  
+  return headers;
+}
+
 /**
  * Render a single document element
  */
@@ -317,6 +1180,9 @@ function renderElement(state: RendererState, element: DocumentElement): void {
     case 'LIST':
       renderList(state, element);
       break;
+    case 'ROW':
+      renderRow(state, element);
+      break;
     case 'SECTION_BREAK':
       renderSectionBreak(state);
       break;
@@ -324,24 +1190,147 @@ function renderElement(state: RendererState, element: DocumentElement): void {
 }
 
 /**
- * Verify element order preservation (ATS sanity check)
- * Ensures document elements are rendered in exact order
+ * Text each element contributes to the PDF text layer, in document order
  */
-function verifyElementOrderPreservation(document: Document): void {
-  // Build expected order sequence
-  const elementSequence = document.elements.map((el, idx) => ({
-    index: idx,
-    type: el.type,
-  }));
-  
-  // Verify sequence is monotonically increasing (no reordering)
-  for (let i = 1; i < elementSequence.length; i++) {
-    if (elementSequence[i].index <= elementSequence[i - 1].index) {
-      throw new Error(
-        `ATS invariant violated: Element order not preserved at index ${i}`
-      );
+function getExpectedText(element: DocumentElement): string[] {
+  switch (element.type) {
+    case 'HEADING':
+    case 'PARAGRAPH':
+    case 'TEXT_LINE':
+      return element.text === '' ? [] : [element.text];
+    case 'LIST':
+      return element.items.map(item => `${BULLET_MARKER} ${item.text}`);
+    case 'ROW':
+      return [element.left, element.right].filter(text => text !== '');
+    case 'SECTION_BREAK':
+      return [];
+  }
+}
+
+/**
+ * Raised when the rendered PDF text layer does not match the document
+ * The message is diagnostic detail for logs, not for API clients.
+ */
+export class PdfTextLayerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PdfTextLayerError';
+  }
+}
+
+/**
+ * Remove whitespace from text, recording where it separated words
+ * @returns Text without whitespace and the offsets in it that follow whitespace
+ */
+function stripWhitespace(text: string): { text: string; breaks: Set<number> } {
+  const breaks = new Set<number>();
+  let stripped = '';
+  text.split(/\s+/).forEach((word, index) => {
+    if (index > 0) breaks.add(stripped.length);
+    stripped += word;
+  });
+  return { text: stripped, breaks };
+}
+
+/**
+ * Verify reading order of the rendered PDF (ATS sanity check)
+ * Extracts the text layer from the content streams and confirms it matches
+ * the document element sequence. Line wrapping may add breaks to the text
+ * layer, but every word break of the document must still be in it.
+ */
+function verifyReadingOrder(pdf: Buffer, document: Document, runningHeaders: string[]): void {
+  const pages = extractPdfText(pdf);
+  if (!pages) {
+    throw new PdfTextLayerError('ATS invariant violated: PDF text layer could not be read');
+  }
+
+  const normalize = (text: string) => text.replace(/\s+/g, '');
+
+  // Characters without a glyph in the fonts drop out of the text layer
+  const extractedChars = new Set(normalize(pages.join('')));
+  const missing = new Set(
+    [...normalize(document.elements.flatMap(getExpectedText).join(''))].filter(char => !extractedChars.has(char))
+  );
+  if (missing.size > 0) {
+    throw new PdfTextLayerError(`ATS invariant violated: fonts have no glyphs for "${[...missing].join('')}"`);
+  }
+
+  // Running headers are drawn after the page content, so each ends its page's text
+  let extracted = '';
+  const extractedBreaks = new Set<number>();
+  pages.forEach((text, index) => {
+    const page = stripWhitespace(text);
+    const header = stripWhitespace(runningHeaders[index] ?? '');
+    const headerStart = page.text.length - header.text.length;
+    if (!page.text.endsWith(header.text) || [...header.breaks].some(offset => !page.breaks.has(headerStart + offset))) {
+      throw new PdfTextLayerError(`ATS invariant violated: running header missing on page ${index + 1}`);
     }
+    extractedBreaks.add(extracted.length);
+    page.breaks.forEach(offset => extractedBreaks.add(extracted.length + offset));
+    extracted += page.text.substring(0, headerStart);
+  });
+  let cursor = 0;
+
+  document.elements.forEach((element, index) => {
+    getExpectedText(element).forEach(text => {
+      const expected = stripWhitespace(text);
+      if (!extracted.startsWith(expected.text, cursor)) {
+        const found = extracted.substring(cursor, cursor + expected.text.length);
+        throw new PdfTextLayerError(
+          `ATS invariant violated: PDF text diverges from element ${index} (${element.type}): ` +
+          `expected "${expected.text.substring(0, 40)}", found "${found.substring(0, 40)}"`
+        );
+      }
+
+      // Each text starts a new word, and its own word breaks are kept
+      const joined = [0, ...expected.breaks].find(
+        offset => offset < expected.text.length && !extractedBreaks.has(cursor + offset)
+      );
+      if (joined !== undefined) {
+        throw new PdfTextLayerError(
+          `ATS invariant violated: PDF text runs words together in element ${index} (${element.type}) ` +
+          `at "${expected.text.substring(joined, joined + 40)}"`
+        );
+      }
+      cursor += expected.text.length;
+    });
+  });
+
+  if (cursor < extracted.length) {
+    throw new PdfTextLayerError(
+      `ATS invariant violated: PDF contains text not in document: "${extracted.substring(cursor, cursor + 40)}"`
+    );
+  }
+}
+
+/**
+ * Check whether a document is drawn with embedded TrueType fonts
+ * PDF/A forbids non-embedded fonts, and standard fonts cannot encode text outside WinAnsi,
+ * so either swaps standard fonts for embedded (subset) TrueType
+ */
+function usesEmbeddedFonts(document: Document, pdfA: boolean): boolean {
+  return pdfA || !document.elements.flatMap(getExpectedText).every(isWinAnsiText);
+}
+
+/**
+ * Find characters of a document that the PDF fonts have no glyph for
+ * They would drop out of the PDF, so callers can reject the document before rendering.
+ * The standard fonts cover all the WinAnsi text they are used for.
+ *
+ * @param document - Document model to render
+ * @param fontProfile - Font profile to use ('sans', 'serif', or 'mono')
+ * @param options - Render options (PDF/A mode and embedded fonts are used)
+ * @returns Unsupported characters in order of first appearance
+ */
+export function findUnsupportedCharacters(
+  document: Document,
+  fontProfile: 'sans' | 'serif' | 'mono' = 'sans',
+  options: PdfRenderOptions = {}
+): string[] {
+  if (!usesEmbeddedFonts(document, options.pdfA ?? false)) {
+    return [];
   }
+  return findMissingGlyphs(document.elements.flatMap(getExpectedText).join('\n'), fontProfile, options.embeddedFonts);
 }
 
 /**
@@ -352,47 +1341,82 @@ function verifyElementOrderPreservation(document: Document): void {
  * @param document - Document model to render
  * @param fontProfile - Font profile to use ('sans', 'serif', or 'mono')
  * @param densityPreset - Density preset for spacing and font sizes
+ * @param options - Document language, document information, PDF/A mode, source data and page layout
  * @returns Promise that resolves to PDF buffer
  */
 export async function renderDocumentToPDF(
   document: Document,
   fontProfile: 'sans' | 'serif' | 'mono' = 'sans',
-  densityPreset: DensityPreset = 'normal'
+  densityPreset: DensityPreset = 'normal',
+  options: PdfRenderOptions = {}
 ): Promise<Buffer> {
-  const result = await renderDocumentToPDFWithMetadata(document, fontProfile, densityPreset);
+  const result = await renderDocumentToPDFWithMetadata(document, fontProfile, densityPreset, options);
   return result.buffer;
 }
 
 /**
  * Render complete document to PDF with metadata
  * 
+ * Output is a tagged PDF: the structure tree (H1/H2/H3, P, L/LI) follows
+ * the DocumentElement types, with document language and title set.
+ * H2/H3 headings also produce the bookmark outline.
+ * With options.source, the resume JSON is attached for re-import.
+ * Text the standard fonts cannot encode (outside WinAnsi) switches the
+ * document to embedded TrueType fonts, as PDF/A mode always does.
+ * 
  * @param document - Document model to render
  * @param fontProfile - Font profile to use ('sans', 'serif', or 'mono')
  * @param densityPreset - Density preset for spacing and font sizes
- * @returns Promise that resolves to PDF buffer and page count
+ * @param options - Document language, document information, PDF/A mode, source data and page layout
+ * @returns Promise that resolves to PDF buffer, page count and document information
  */
 export async function renderDocumentToPDFWithMetadata(
   document: Document,
   fontProfile: 'sans' | 'serif' | 'mono' = 'sans',
-  densityPreset: DensityPreset = 'normal'
-): Promise<{ buffer: Buffer; pageCount: number }> {
+  densityPreset: DensityPreset = 'normal',
+  options: PdfRenderOptions = {}
+): Promise<PdfRenderResult> {
   return new Promise((resolve, reject) => {
     try {
-      // ATS sanity check: verify element order will be preserved
-      verifyElementOrderPreservation(document);
+      const config = scaleDensitySpacing(getConfigForDensity(densityPreset), options.spacingScale ?? 1);
+      const pdfA = options.pdfA ?? false;
+      const info = resolveDocumentInfo(document, options);
+      const page = getPageLayout(options.pageSize, options.margins);
+      const doc = initializePDF(page, options.lang ?? 'en', info, pdfA, options.source !== undefined);
+      
+      if (options.source) {
+        attachSource(doc, options.source, fontProfile, densityPreset, options);
+      }
+      
+      const fonts = usesEmbeddedFonts(document, pdfA)
+        ? registerEmbeddedFonts(doc, fontProfile, options.embeddedFonts)
+        : getFontsForProfile(fontProfile);
+      
+      // Root of the structure tree; every element is tagged beneath it
+      const structure = doc.struct('Document');
+      doc.addStructure(structure);
       
-      const fonts = getFontsForProfile(fontProfile);
-      const config = getConfigForDensity(densityPreset);
-      const doc = initializePDF();
       const state: RendererState = {
         doc,
-        currentY: PAGE_CONFIG.marginTop,
+        currentY: page.marginTop,
         fonts,
         config,
+        page,
+        contentWidth: getContentWidth(page),
+        elements: document.elements,
         elementIndex: 0,
         isFirstTextLine: true,
+        rtl: document.direction === 'rtl',
+        textAlign: options.textAlign ?? 'left',
+        hyphenate: options.hyphenate ?? false,
+        structure,
+        outlineSection: null,
       };
       
+      // Filled in once all elements are rendered
+      let pageCount = 0;
+      let runningHeaders: string[] = [];
+      
       // Collect PDF data in chunks
       const chunks: Buffer[] = [];
       
@@ -402,9 +1426,13 @@ export async function renderDocumentToPDFWithMetadata(
       
       doc.on('end', () => {
         const pdfBuffer = Buffer.concat(chunks);
-        // PDFKit tracks page count internally
-        const pageCount = (doc as any).bufferedPageRange().count;
-        resolve({ buffer: pdfBuffer, pageCount });
+        try {
+          verifyReadingOrder(pdfBuffer, document, runningHeaders);
+        } catch (error) {
+          reject(error);
+          return;
+        }
+        resolve({ buffer: pdfBuffer, pageCount, info });
       });
       
       doc.on('error', (error: Error) => {
@@ -412,9 +1440,20 @@ export async function renderDocumentToPDFWithMetadata(
       });
       
       // Render all elements in exact order
-      document.elements.forEach((element) => {
+      document.elements.forEach((element, index) => {
+        state.elementIndex = index;
         renderElement(state, element);
       });
+      structure.end();
+      
+      // All pages are buffered until doc.end(), so the count is final here
+      pageCount = doc.bufferedPageRange().count;
+      if (options.runningHeader ?? true) {
+        const nameHeading = document.elements.find(
+          (el): el is HeadingElement => el.type === 'HEADING' && el.level === 1
+        );
+        runningHeaders = addRunningHeaders(state, nameHeading?.text ?? '');
+      }
       
       // Finalize PDF
       doc.end();
@@ -0,0 +1,437 @@
+/**
+ * PDF Text Extractor
+ *
+ * Recovers the text layer of PDFs produced by the PDF renderer, in
+ * content-stream order, as an ATS parser would read it. Decodes
+ * WinAnsi standard fonts and embedded fonts with a ToUnicode CMap.
+ * Marked content with /ActualText (right-to-left runs, hyphenated line
+ * ends) reads as that text; layout artifacts (the hyphens of broken lines)
+ * read as nothing.
+ * Server-side only (Node.js).
+ */
+
+import {
+  openPdf,
+  getObjectDictionary,
+  getReference,
+  getTrailer,
+  readStream,
+  type PdfSource,
+} from '../utils/pdf-objects.js';
+
+/**
+ * WinAnsiEncoding codes that differ from Latin-1
+ */
+const WIN_ANSI_EXTRAS: Record<number, string> = {
+  0x80: '€', 0x82: '‚', 0x83: 'ƒ', 0x84: '„',
+  0x85: '…', 0x86: '†', 0x87: '‡', 0x88: 'ˆ',
+  0x89: '‰', 0x8a: 'Š', 0x8b: '‹', 0x8c: 'Œ',
+  0x8e: 'Ž', 0x91: '‘', 0x92: '’', 0x93: '“',
+  0x94: '”', 0x95: '•', 0x96: '–', 0x97: '—',
+  0x98: '˜', 0x99: '™', 0x9a: 'š', 0x9b: '›',
+  0x9c: 'œ', 0x9e: 'ž', 0x9f: 'Ÿ',
+};
+
+/**
+ * Maps string bytes of one font to Unicode text
+ */
+interface FontDecoder {
+  codeLength: 1 | 2; // Bytes per character code
+  toUnicode: Map<number, string> | null; // null for WinAnsi simple fonts
+}
+
+/**
+ * Content stream token
+ */
+type Token =
+  | { type: 'string'; bytes: number[] }
+  | { type: 'array'; items: Token[] }
+  | { type: 'number'; value: number }
+  | { type: 'name'; value: string }
+  | { type: 'dictionary'; actualText?: string; artifactType?: string }
+  | { type: 'operator'; value: string };
+
+const WHITESPACE = /[\0\t\n\f\r ]/;
+const DELIMITER = /[\0\t\n\f\r ()<>[\]{}/%]/;
+
+/**
+ * Largest vertical shift (points) still read as the same line
+ */
+const LINE_TOLERANCE = 0.5;
+
+/**
+ * Decode UTF-16BE hex (as written in ToUnicode CMaps)
+ */
+function decodeUtf16Hex(hex: string): string {
+  const units: number[] = [];
+  for (let i = 0; i + 4 <= hex.length; i += 4) {
+    units.push(parseInt(hex.substring(i, i + 4), 16));
+  }
+  return String.fromCharCode(...units);
+}
+
+/**
+ * Decode a PDF text string (UTF-16BE with byte order mark, else PDFDocEncoding)
+ */
+function decodeTextString(bytes: number[]): string {
+  if (bytes[0] !== 0xfe || bytes[1] !== 0xff) {
+    return String.fromCharCode(...bytes);
+  }
+
+  const units: number[] = [];
+  for (let i = 2; i + 1 < bytes.length; i += 2) {
+    units.push((bytes[i] << 8) | bytes[i + 1]);
+  }
+  return String.fromCharCode(...units);
+}
+
+/**
+ * Parse bfchar and bfrange entries of a ToUnicode CMap
+ */
+function parseToUnicode(cmap: string): Map<number, string> {
+  const map = new Map<number, string>();
+
+  for (const block of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const entry of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F\s]*)>/g)) {
+      map.set(parseInt(entry[1], 16), decodeUtf16Hex(entry[2].replace(/\s/g, '')));
+    }
+  }
+
+  for (const block of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    const entries = block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(\[[^\]]*\]|<[0-9a-fA-F\s]*>)/g);
+    for (const entry of entries) {
+      const start = parseInt(entry[1], 16);
+      const end = parseInt(entry[2], 16);
+
+      if (entry[3].startsWith('[')) {
+        // One destination string per code
+        const targets = [...entry[3].matchAll(/<([0-9a-fA-F\s]*)>/g)];
+        targets.forEach((target, offset) => {
+          if (start + offset <= end) {
+            map.set(start + offset, decodeUtf16Hex(target[1].replace(/\s/g, '')));
+          }
+        });
+      } else {
+        // Consecutive codes map to consecutive code points
+        const base = entry[3].replace(/[<>\s]/g, '');
+        const prefix = base.substring(0, base.length - 4);
+        const last = parseInt(base.substring(base.length - 4), 16);
+        for (let code = start; code <= end; code++) {
+          const unit = (last + code - start).toString(16).padStart(4, '0');
+          map.set(code, decodeUtf16Hex(prefix + unit));
+        }
+      }
+    }
+  }
+
+  return map;
+}
+
+/**
+ * Build decoders for the fonts in a page's resources
+ */
+function loadFonts(pdf: PdfSource, page: string): Map<string, FontDecoder> {
+  const fonts = new Map<string, FontDecoder>();
+  const resourcesRef = getReference(page, 'Resources');
+  const resources = resourcesRef === null ? page : getObjectDictionary(pdf, resourcesRef);
+  const fontTable = resources ? /\/Font\s*<<([\s\S]*?)>>/.exec(resources) : null;
+  if (!fontTable) return fonts;
+
+  for (const entry of fontTable[1].matchAll(/\/([^\s/<>[\]()]+)\s+(\d+)\s+0\s+R/g)) {
+    const font = getObjectDictionary(pdf, parseInt(entry[2], 10)) ?? '';
+    const toUnicodeRef = getReference(font, 'ToUnicode');
+    const cmap = toUnicodeRef === null ? null : readStream(pdf, toUnicodeRef);
+
+    fonts.set(entry[1], {
+      codeLength: /\/Subtype\s*\/Type0/.test(font) ? 2 : 1,
+      toUnicode: cmap ? parseToUnicode(cmap.toString('latin1')) : null,
+    });
+  }
+
+  return fonts;
+}
+
+/**
+ * Decode string bytes with the current font
+ */
+function decodeString(bytes: number[], font: FontDecoder | undefined): string {
+  const codeLength = font?.codeLength ?? 1;
+  let text = '';
+
+  for (let i = 0; i + codeLength <= bytes.length; i += codeLength) {
+    const code = codeLength === 2 ? (bytes[i] << 8) | bytes[i + 1] : bytes[i];
+    if (font?.toUnicode) {
+      text += font.toUnicode.get(code) ?? '�';
+    } else {
+      text += WIN_ANSI_EXTRAS[code] ?? String.fromCharCode(code);
+    }
+  }
+
+  return text;
+}
+
+/**
+ * Tokenize a content stream
+ * Only the constructs PDFKit emits are supported (no inline images)
+ */
+function tokenize(content: string): Token[] {
+  let pos = 0;
+
+  const readLiteralString = (): Token => {
+    const bytes: number[] = [];
+    let depth = 1;
+    pos++;
+
+    while (pos < content.length) {
+      const char = content[pos++];
+      if (char === '\\') {
+        const next = content[pos++];
+        const escapes: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12 };
+        if (next in escapes) {
+          bytes.push(escapes[next]);
+        } else if (/[0-7]/.test(next)) {
+          let octal = next;
+          while (octal.length < 3 && /[0-7]/.test(content[pos])) octal += content[pos++];
+          bytes.push(parseInt(octal, 8) & 0xff);
+        } else if (next === '\r' || next === '\n') {
+          // Line continuation
+          if (next === '\r' && content[pos] === '\n') pos++;
+        } else {
+          bytes.push(next.charCodeAt(0));
+        }
+        continue;
+      }
+      if (char === '(') depth++;
+      if (char === ')' && --depth === 0) break;
+      bytes.push(char.charCodeAt(0));
+    }
+
+    return { type: 'string', bytes };
+  };
+
+  const readHexString = (): Token => {
+    const end = content.indexOf('>', pos);
+    let hex = content.substring(pos + 1, end === -1 ? content.length : end).replace(/\s/g, '');
+    pos = end === -1 ? content.length : end + 1;
+    if (hex.length % 2 === 1) hex += '0';
+
+    const bytes: number[] = [];
+    for (let i = 0; i < hex.length; i += 2) {
+      bytes.push(parseInt(hex.substring(i, i + 2), 16));
+    }
+    return { type: 'string', bytes };
+  };
+
+  const readToken = (): Token | null => {
+    while (pos < content.length) {
+      if (WHITESPACE.test(content[pos])) {
+        pos++;
+      } else if (content[pos] === '%') {
+        while (pos < content.length && content[pos] !== '\n' && content[pos] !== '\r') pos++;
+      } else {
+        break;
+      }
+    }
+    if (pos >= content.length) return null;
+
+    const char = content[pos];
+
+    if (char === '(') return readLiteralString();
+
+    if (char === '<' && content[pos + 1] === '<') {
+      // Marked-content properties; only /ActualText and the artifact /Type are kept
+      pos += 2;
+      let key: string | null = null;
+      let actualText: string | undefined;
+      let artifactType: string | undefined;
+      while (pos < content.length) {
+        while (pos < content.length && WHITESPACE.test(content[pos])) pos++;
+        if (content[pos] === '>' && content[pos + 1] === '>') {
+          pos += 2;
+          break;
+        }
+        const entry = readToken();
+        if (!entry) break;
+        if (key === 'ActualText' && entry.type === 'string') actualText = decodeTextString(entry.bytes);
+        if (key === 'Type' && entry.type === 'name') artifactType = entry.value;
+        key = key === null && entry.type === 'name' ? entry.value : null;
+      }
+      return { type: 'dictionary', actualText, artifactType };
+    }
+
+    if (char === '<') return readHexString();
+
+    if (char === '[') {
+      pos++;
+      const items: Token[] = [];
+      while (pos < content.length) {
+        while (pos < content.length && WHITESPACE.test(content[pos])) pos++;
+        if (content[pos] === ']') {
+          pos++;
+          break;
+        }
+        const item = readToken();
+        if (!item) break;
+        items.push(item);
+      }
+      return { type: 'array', items };
+    }
+
+    const start = pos;
+    pos++;
+    while (pos < content.length && !DELIMITER.test(content[pos])) pos++;
+    const word = content.substring(start, pos);
+
+    if (char === '/') return { type: 'name', value: word.substring(1) };
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) return { type: 'number', value: parseFloat(word) };
+    return { type: 'operator', value: word };
+  };
+
+  const tokens: Token[] = [];
+  for (let token = readToken(); token; token = readToken()) {
+    tokens.push(token);
+  }
+  return tokens;
+}
+
+/**
+ * Extract the text of one content stream
+ * Starts a new line whenever the text position moves vertically; shifts
+ * under LINE_TOLERANCE are runs in fonts with different ascenders.
+ * Glyphs inside marked content with /ActualText are replaced by that text;
+ * layout artifacts are skipped like an empty /ActualText.
+ */
+function extractContentText(content: string, fonts: Map<string, FontDecoder>): string {
+  const lines: string[] = [];
+  let line = '';
+  let lineY: number | null = null;
+  let font: FontDecoder | undefined;
+  let operands: Token[] = [];
+  const actualTexts: (string | null)[] = []; // One entry per open marked-content sequence
+  let actualTextPositioned = false;
+
+  const breakLine = () => {
+    if (line !== '') lines.push(line);
+    line = '';
+  };
+
+  const showText = (text: string) => {
+    if (actualTexts.every(actualText => actualText === null)) line += text;
+  };
+
+  for (const token of tokenize(content)) {
+    if (token.type !== 'operator') {
+      operands.push(token);
+      continue;
+    }
+
+    const last = operands[operands.length - 1];
+    switch (token.value) {
+      case 'Tf': {
+        const name = operands[operands.length - 2];
+        font = name?.type === 'name' ? fonts.get(name.value) : undefined;
+        break;
+      }
+      case 'Tm': {
+        // Shaped glyphs (Arabic marks) are positioned individually after the run's first Tm
+        if (actualTexts.includes('')) break;
+        if (actualTexts.some(actualText => actualText !== null)) {
+          if (actualTextPositioned) break;
+          actualTextPositioned = true;
+        }
+        const y = last?.type === 'number' ? last.value : null;
+        if (y === null || lineY === null || Math.abs(y - lineY) >= LINE_TOLERANCE) breakLine();
+        lineY = y;
+        break;
+      }
+      case 'Td':
+      case 'TD':
+        if (last?.type === 'number' && last.value !== 0) breakLine();
+        break;
+      case 'T*':
+        breakLine();
+        break;
+      case "'":
+      case '"':
+        breakLine();
+        if (last?.type === 'string') showText(decodeString(last.bytes, font));
+        break;
+      case 'Tj':
+        if (last?.type === 'string') showText(decodeString(last.bytes, font));
+        break;
+      case 'TJ':
+        if (last?.type === 'array') {
+          last.items.forEach(item => {
+            if (item.type === 'string') showText(decodeString(item.bytes, font));
+          });
+        }
+        break;
+      case 'BMC':
+        actualTexts.push(null);
+        break;
+      case 'BDC': {
+        const tag = operands[operands.length - 2];
+        if (tag?.type === 'name' && tag.value === 'Artifact' && last?.type === 'dictionary' && last.artifactType === 'Layout') {
+          actualTexts.push('');
+        } else {
+          actualTexts.push(last?.type === 'dictionary' ? last.actualText ?? null : null);
+        }
+        actualTextPositioned = false;
+        break;
+      }
+      case 'EMC': {
+        const actualText = actualTexts.pop();
+        if (actualText) showText(actualText);
+        break;
+      }
+    }
+    operands = [];
+  }
+
+  breakLine();
+  return lines.join('\n');
+}
+
+/**
+ * Collect page objects in page order
+ */
+function collectPages(pdf: PdfSource, objectNumber: number, pages: string[], depth = 0): void {
+  const node = getObjectDictionary(pdf, objectNumber);
+  if (!node || depth > 32) return;
+
+  if (!/\/Type\s*\/Pages\b/.test(node)) {
+    pages.push(node);
+    return;
+  }
+
+  const kids = /\/Kids\s*\[([^\]]*)\]/.exec(node);
+  for (const kid of kids?.[1].matchAll(/(\d+)\s+0\s+R/g) ?? []) {
+    collectPages(pdf, parseInt(kid[1], 10), pages, depth + 1);
+  }
+}
+
+/**
+ * Extract the text layer of a PDF in reading order
+ *
+ * @param pdf - PDF file contents
+ * @returns Text of each page (lines separated by newlines), or null when the PDF cannot be read
+ */
+export function extractPdfText(pdf: Uint8Array): string[] | null {
+  const source = openPdf(pdf);
+  if (!source) return null;
+
+  const trailer = getTrailer(source);
+  const catalogRef = trailer ? getReference(trailer, 'Root') : null;
+  const catalog = catalogRef === null ? null : getObjectDictionary(source, catalogRef);
+  const pagesRef = catalog ? getReference(catalog, 'Pages') : null;
+  if (pagesRef === null) return null;
+
+  const pages: string[] = [];
+  collectPages(source, pagesRef, pages);
+
+  return pages.map(page => {
+    const contentsRef = getReference(page, 'Contents');
+    const content = contentsRef === null ? null : readStream(source, contentsRef);
+    return content ? extractContentText(content.toString('latin1'), loadFonts(source, page)) : '';
+  });
+}
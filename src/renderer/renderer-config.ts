@@ -22,6 +22,96 @@ export const PAGE_CONFIG = {
  */
 export const CONTENT_WIDTH = PAGE_CONFIG.width - PAGE_CONFIG.marginLeft - PAGE_CONFIG.marginRight;
 
+/**
+ * Page sizes in points
+ */
+export const PAGE_SIZES = {
+  letter: { width: 612, height: 792 }, // 8.5 x 11 inches
+  a4: { width: 595.28, height: 841.89 }, // 210 x 297 mm
+  legal: { width: 612, height: 1008 }, // 8.5 x 14 inches
+} as const;
+
+export type PageSize = keyof typeof PAGE_SIZES;
+
+/**
+ * Margin bounds in points
+ */
+export const MARGIN_LIMITS = {
+  min: 18, // 0.25 inch
+  max: 144, // 2 inches
+} as const;
+
+/**
+ * Page margins in points
+ */
+export interface PageMargins {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+/**
+ * Resolved page dimensions and margins (same shape as PAGE_CONFIG)
+ */
+export interface PageLayout {
+  width: number;
+  height: number;
+  marginTop: number;
+  marginBottom: number;
+  marginLeft: number;
+  marginRight: number;
+}
+
+/**
+ * Check that a value is a supported page size
+ */
+export function isValidPageSize(value: unknown): value is PageSize {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(PAGE_SIZES, value);
+}
+
+/**
+ * Check that a value is a margins object with sides within MARGIN_LIMITS
+ * Sides may be omitted; unknown keys are rejected
+ */
+export function isValidPageMargins(value: unknown): value is Partial<PageMargins> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false;
+  }
+  return Object.entries(value).every(([side, points]) =>
+    ['top', 'right', 'bottom', 'left'].includes(side) &&
+    typeof points === 'number' &&
+    Number.isFinite(points) &&
+    points >= MARGIN_LIMITS.min &&
+    points <= MARGIN_LIMITS.max
+  );
+}
+
+/**
+ * Resolve page dimensions and margins
+ * Omitted margins keep the PAGE_CONFIG default
+ *
+ * @param pageSize - Page size (default 'letter')
+ * @param margins - Margin overrides in points
+ * @returns Page layout
+ */
+export function getPageLayout(pageSize: PageSize = 'letter', margins: Partial<PageMargins> = {}): PageLayout {
+  return {
+    ...PAGE_SIZES[pageSize],
+    marginTop: margins.top ?? PAGE_CONFIG.marginTop,
+    marginBottom: margins.bottom ?? PAGE_CONFIG.marginBottom,
+    marginLeft: margins.left ?? PAGE_CONFIG.marginLeft,
+    marginRight: margins.right ?? PAGE_CONFIG.marginRight,
+  };
+}
+
+/**
+ * Calculate usable content width for a page layout
+ */
+export function getContentWidth(layout: PageLayout): number {
+  return layout.width - layout.marginLeft - layout.marginRight;
+}
+
 /**
  * Font configuration (PDF standard fonts only)
  */
@@ -38,14 +128,17 @@ export const FONT_PROFILES = {
   sans: {
     main: 'Helvetica',
     bold: 'Helvetica-Bold',
+    italic: 'Helvetica-Oblique',
   },
   serif: {
     main: 'Times-Roman',
     bold: 'Times-Bold',
+    italic: 'Times-Italic',
   },
   mono: {
     main: 'Courier',
     bold: 'Courier-Bold',
+    italic: 'Courier-Oblique',
   },
 } as const;
 
@@ -56,6 +149,89 @@ export function getFontsForProfile(profile: 'sans' | 'serif' | 'mono' = 'sans')
   return FONT_PROFILES[profile];
 }
 
+/**
+ * DOCX Font Profile Configurations
+ * Maps font profiles to fonts installed with Word on every platform,
+ * mirroring the PDF standard font families above
+ */
+export const DOCX_FONT_PROFILES = {
+  sans: 'Arial',
+  serif: 'Times New Roman',
+  mono: 'Courier New',
+} as const;
+
+/**
+ * Get DOCX font family for a given profile
+ */
+export function getDocxFontForProfile(profile: 'sans' | 'serif' | 'mono' = 'sans'): string {
+  return DOCX_FONT_PROFILES[profile];
+}
+
+/**
+ * Embeddable Font Profile Configurations
+ * TrueType files from the dejavu-fonts-ttf package, used when the PDF
+ * must carry its own fonts (PDF/A forbids non-embedded standard fonts)
+ */
+export const EMBEDDED_FONT_PROFILES = {
+  sans: {
+    main: 'DejaVuSans.ttf',
+    bold: 'DejaVuSans-Bold.ttf',
+    italic: 'DejaVuSans-Oblique.ttf',
+  },
+  serif: {
+    main: 'DejaVuSerif.ttf',
+    bold: 'DejaVuSerif-Bold.ttf',
+    italic: 'DejaVuSerif-Italic.ttf',
+  },
+  mono: {
+    main: 'DejaVuSansMono.ttf',
+    bold: 'DejaVuSansMono-Bold.ttf',
+    italic: 'DejaVuSansMono-Oblique.ttf',
+  },
+} as const;
+
+/**
+ * Limits for user-supplied fonts sent to the PDF endpoints
+ */
+export const EMBEDDED_FONT_LIMITS = {
+  maxFileBytes: 16 * 1024 * 1024, // Per face, after base64 decoding
+} as const;
+
+/**
+ * Creator and Producer written to PDF document information
+ * (kept identical: PDFKit mirrors Creator into the XMP Producer)
+ */
+export const PDF_CREATOR = 'QuickCV';
+
+/**
+ * PDF/A archival output configuration
+ * PDF/A-2b requires PDF 1.7, embedded fonts, an output intent and XMP metadata;
+ * PDF/A-3b is used instead when the source JSON is attached (PDF/A-2 forbids attachments)
+ */
+export const PDFA_CONFIG = {
+  subset: 'PDF/A-2b',
+  subsetWithAttachments: 'PDF/A-3b',
+  pdfVersion: '1.7',
+} as const;
+
+/**
+ * Embedded source attachment (same shape as the frontend's JSON export)
+ */
+export const EMBEDDED_SOURCE_CONFIG = {
+  fileName: 'quickcv-resume.json',
+  description: 'QuickCV resume data',
+} as const;
+
+/**
+ * HTML Font Profile Configurations
+ * CSS font stacks led by the same PDF standard font families
+ */
+export const HTML_FONT_STACKS = {
+  sans: 'Helvetica, Arial, sans-serif',
+  serif: '"Times New Roman", Times, serif',
+  mono: '"Courier New", Courier, monospace',
+} as const;
+
 /**
  * Font sizes in points
  */
@@ -161,11 +337,95 @@ export const DENSITY_PRESETS = {
 
 export type DensityPreset = keyof typeof DENSITY_PRESETS;
 
+/**
+ * Resolved density configuration (font sizes and spacing in points)
+ */
+export interface DensityConfig {
+  fontSizes: { [K in keyof typeof DENSITY_PRESETS.normal.fontSizes]: number };
+  spacing: { [K in keyof typeof DENSITY_PRESETS.normal.spacing]: number };
+}
+
+/**
+ * Fit-to-pages solver bounds
+ * Margin steps and spacing scales stay within readable limits;
+ * the solver never goes below the smallest of each
+ */
+export const FIT_CONFIG = {
+  maxTargetPages: 10,
+  marginSteps: [54, 45, 36], // 0.75, 0.625 and 0.5 inch
+  spacingScales: [1, 0.85, 0.7],
+} as const;
+
+/**
+ * Paragraph and list item alignments
+ */
+export const TEXT_ALIGNMENTS = ['left', 'justify'] as const;
+
+export type TextAlignment = (typeof TEXT_ALIGNMENTS)[number];
+
+/**
+ * Hyphenation of paragraphs and list items (US English patterns)
+ */
+export const HYPHENATION_CONFIG = {
+  minWordLength: 6, // Shorter words are never broken
+  hyphen: '-', // Drawn at the end of a broken line
+} as const;
+
 /**
  * Bullet marker character
  */
 export const BULLET_MARKER = '-';
 
+/**
+ * Plain-text output configuration
+ */
+export const TEXT_CONFIG = {
+  defaultWrapColumn: 80,
+  minWrapColumn: 40,
+  maxWrapColumn: 200,
+  sectionUnderline: '=',
+  rtlLineMark: '\u200f', // Opens every line of right-to-left documents (RIGHT-TO-LEFT MARK)
+} as const;
+
+/**
+ * vCard output configuration (RFC 6350)
+ */
+export const VCARD_CONFIG = {
+  productId: '-//QuickCV//Contact Card//EN',
+  maxLineOctets: 75, // Longer content lines are folded
+} as const;
+
+/**
+ * Check that a wrap column is an integer within TEXT_CONFIG bounds
+ */
+export function isValidWrapColumn(value: unknown): value is number {
+  return (
+    typeof value === 'number' &&
+    Number.isInteger(value) &&
+    value >= TEXT_CONFIG.minWrapColumn &&
+    value <= TEXT_CONFIG.maxWrapColumn
+  );
+}
+
+/**
+ * Check that a value is a supported text alignment
+ */
+export function isValidTextAlignment(value: unknown): value is TextAlignment {
+  return typeof value === 'string' && (TEXT_ALIGNMENTS as readonly string[]).includes(value);
+}
+
+/**
+ * Check that a fit-to-pages target is an integer within FIT_CONFIG bounds
+ */
+export function isValidFitToPages(value: unknown): value is number {
+  return (
+    typeof value === 'number' &&
+    Number.isInteger(value) &&
+    value >= 1 &&
+    value <= FIT_CONFIG.maxTargetPages
+  );
+}
+
 /**
  * Calculate line height for a given font size
  */
@@ -180,6 +440,28 @@ export function getConfigForDensity(preset: DensityPreset = 'normal') {
   return DENSITY_PRESETS[preset];
 }
 
+/**
+ * Scale the vertical gaps of a density configuration
+ * List indent and page-break thresholds are left unchanged
+ *
+ * @param config - Density configuration
+ * @param scale - Spacing multiplier (1 leaves the configuration as is)
+ * @returns Configuration with scaled spacing
+ */
+export function scaleDensitySpacing(config: DensityConfig, scale: number): DensityConfig {
+  if (scale === 1) return config;
+
+  const { listItemIndent, minSpaceForParagraph, minSpaceForListItem, ...gaps } = config.spacing;
+  const scaled = Object.fromEntries(
+    Object.entries(gaps).map(([key, points]) => [key, points * scale])
+  ) as typeof gaps;
+
+  return {
+    fontSizes: config.fontSizes,
+    spacing: { ...scaled, listItemIndent, minSpaceForParagraph, minSpaceForListItem },
+  };
+}
+
 /**
  * Calculate spacing for element type
  */
@@ -191,6 +473,7 @@ export function getElementSpacing(elementType: string, position: 'before' | 'aft
   
   switch (elementType) {
     case 'HEADING':
+    case 'ROW':
       return SPACING.afterHeading;
     case 'PARAGRAPH':
       return SPACING.afterParagraph;
@@ -10,27 +10,36 @@
 import type { Resume } from '../types/resume.types.js';
 import type { Document } from '../types/document.types.js';
 import { transformResumeToDocumentWithOrder } from '../transformers/resume-to-document.transformer.js';
-import { renderDocumentToPDF } from './pdf-renderer.js';
+import { renderDocumentToPDF, type PdfRenderOptions } from './pdf-renderer.js';
+import { buildPdfDocumentInfo } from './pdf-metadata.js';
 
 /**
  * Generate PDF from validated Resume data
  * 
  * Assumes the Resume has already been validated.
  * Use validateResume() before calling this function.
+ * Document information is derived from the resume; options.info overrides it.
+ * The resume is embedded as source data unless options.source is given.
  * 
  * @param resume - Validated Resume object
  * @param fontProfile - Font profile to use ('sans', 'serif', or 'mono')
+ * @param options - PDF options (e.g. { pdfA: true } for archival output)
  * @returns Promise that resolves to PDF buffer
  */
 export async function generatePDFFromResume(
   resume: Resume,
-  fontProfile: 'sans' | 'serif' | 'mono' = 'sans'
+  fontProfile: 'sans' | 'serif' | 'mono' = 'sans',
+  options: PdfRenderOptions = {}
 ): Promise<Buffer> {
   // Transform to document model (using default section order for backward compatibility)
   const document = transformResumeToDocumentWithOrder(resume);
   
   // Render to PDF
-  return renderDocumentToPDF(document, fontProfile);
+  return renderDocumentToPDF(document, fontProfile, 'normal', {
+    ...options,
+    info: buildPdfDocumentInfo(resume, options.info),
+    source: options.source ?? { resume },
+  });
 }
 
 /**
@@ -40,11 +49,13 @@ export async function generatePDFFromResume(
  * 
  * @param document - Document model to render
  * @param fontProfile - Font profile to use ('sans', 'serif', or 'mono')
+ * @param options - PDF options (e.g. { pdfA: true } for archival output)
  * @returns Promise that resolves to PDF buffer
  */
 export async function generatePDFFromDocument(
   document: Document,
-  fontProfile: 'sans' | 'serif' | 'mono' = 'sans'
+  fontProfile: 'sans' | 'serif' | 'mono' = 'sans',
+  options: PdfRenderOptions = {}
 ): Promise<Buffer> {
-  return renderDocumentToPDF(document, fontProfile);
+  return renderDocumentToPDF(document, fontProfile, 'normal', options);
 }
@@ -0,0 +1,175 @@
+/**
+ * Plain-Text Renderer
+ *
+ * Consumes Document model and produces a deterministic plain-text resume
+ * suitable for pasting into job portal text boxes.
+ * Pure function, no I/O.
+ */
+
+import type {
+  Document,
+  DocumentElement,
+  HeadingElement,
+  ParagraphElement,
+  TextLineElement,
+  ListElement,
+  RowElement,
+} from '../types/document.types.js';
+import { BULLET_MARKER, TEXT_CONFIG } from './renderer-config.js';
+
+/**
+ * Plain-text render options
+ */
+export interface TextRenderOptions {
+  wrapColumn?: number; // Maximum line width in characters
+}
+
+/**
+ * Wrap text to a maximum width, breaking on whitespace.
+ * Words longer than the width are split hard.
+ */
+function wrapText(text: string, width: number): string[] {
+  const words = text.trim().split(/\s+/).filter(word => word.length > 0);
+  const lines: string[] = [];
+  let current = '';
+
+  for (let word of words) {
+    while (word.length > width) {
+      if (current.length > 0) {
+        lines.push(current);
+        current = '';
+      }
+      lines.push(word.slice(0, width));
+      word = word.slice(width);
+    }
+
+    if (current.length === 0) {
+      current = word;
+    } else if (current.length + 1 + word.length <= width) {
+      current += ` ${word}`;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  }
+
+  if (current.length > 0) {
+    lines.push(current);
+  }
+
+  return lines;
+}
+
+/**
+ * Render a heading element
+ * Section headings (H2) are uppercased and underlined
+ */
+function renderHeading(element: HeadingElement, width: number): string[] {
+  if (element.level !== 2) {
+    return wrapText(element.text, width);
+  }
+
+  const lines = wrapText(element.text.toUpperCase(), width);
+  const underlineLength = Math.max(...lines.map(line => line.length));
+  return [...lines, TEXT_CONFIG.sectionUnderline.repeat(underlineLength)];
+}
+
+/**
+ * Render a paragraph element followed by a blank line
+ */
+function renderParagraph(element: ParagraphElement, width: number): string[] {
+  return [...wrapText(element.text, width), ''];
+}
+
+/**
+ * Render a text line element (empty lines are kept as spacers)
+ */
+function renderTextLine(element: TextLineElement, width: number): string[] {
+  if (element.text.trim() === '') {
+    return [''];
+  }
+  return wrapText(element.text, width);
+}
+
+/**
+ * Render a list element with hanging indent under the bullet marker
+ */
+function renderList(element: ListElement, width: number): string[] {
+  const marker = `${BULLET_MARKER} `;
+  const indent = ' '.repeat(marker.length);
+  const lines: string[] = [];
+
+  element.items.forEach(item => {
+    wrapText(item.text, width - marker.length).forEach((line, index) => {
+      lines.push(index === 0 ? `${marker}${line}` : `${indent}${line}`);
+    });
+  });
+
+  return lines;
+}
+
+/**
+ * Render a row element with the right text flush against the wrap column
+ * Rows too long for one line put the right text on its own line
+ */
+function renderRow(element: RowElement, width: number): string[] {
+  const padding = width - element.left.length - element.right.length;
+  if (padding >= 2) {
+    return [`${element.left}${' '.repeat(padding)}${element.right}`];
+  }
+  return [...wrapText(element.left, width), ...wrapText(element.right, width)];
+}
+
+/**
+ * Render a single document element to lines
+ */
+function renderElement(element: DocumentElement, width: number): string[] {
+  switch (element.type) {
+    case 'HEADING':
+      return renderHeading(element, width);
+    case 'PARAGRAPH':
+      return renderParagraph(element, width);
+    case 'TEXT_LINE':
+      return renderTextLine(element, width);
+    case 'LIST':
+      return renderList(element, width);
+    case 'ROW':
+      return renderRow(element, width);
+    case 'SECTION_BREAK':
+      return [''];
+  }
+}
+
+/**
+ * Render complete document to plain text
+ *
+ * Assumes document has already been validated.
+ * Consecutive blank lines are collapsed and output ends with a single newline.
+ *
+ * @param document - Document model to render
+ * @param options - Plain-text render options
+ * @returns Plain-text resume
+ */
+export function renderDocumentToText(
+  document: Document,
+  options: TextRenderOptions = {}
+): string {
+  const width = options.wrapColumn ?? TEXT_CONFIG.defaultWrapColumn;
+  const lineMark = document.direction === 'rtl' ? TEXT_CONFIG.rtlLineMark : '';
+  const output: string[] = [];
+
+  // Render all elements in exact order
+  document.elements.forEach((element) => {
+    for (const line of renderElement(element, width)) {
+      const previousBlank = output.length === 0 || output[output.length - 1] === '';
+      if (line === '' && previousBlank) continue;
+      output.push(line === '' ? line : `${lineMark}${line}`);
+    }
+  });
+
+  while (output.length > 0 && output[output.length - 1] === '') {
+    output.pop();
+  }
+
+  return `${output.join('\n')}\n`;
+}
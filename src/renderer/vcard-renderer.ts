@@ -0,0 +1,109 @@
+/**
+ * vCard Renderer
+ *
+ * Serializes contact information to a vCard 4.0 contact card (RFC 6350).
+ * Pure function, no I/O.
+ */
+
+import type { ContactInfo } from '../types/resume.types.js';
+import { VCARD_CONFIG } from './renderer-config.js';
+import { toProfileUrl } from './link-detection.js';
+import { splitFullName } from '../utils/names.js';
+
+/**
+ * Escape a text value (backslash, comma, semicolon, newline)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/,/g, '\\,')
+    .replace(/;/g, '\\;')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/**
+ * Strip line breaks from a URI value (URIs are not escaped)
+ */
+function cleanUri(value: string): string {
+  return value.replace(/[\r\n]+/g, '');
+}
+
+/**
+ * Fold a content line at the octet limit
+ * Never splits a multi-byte UTF-8 character
+ */
+function foldLine(line: string): string {
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8');
+    // Continuation lines start with a space, which counts toward the limit
+    if (octets + size > VCARD_CONFIG.maxLineOctets) {
+      lines.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+
+  lines.push(current);
+  return lines.join('\r\n');
+}
+
+/**
+ * Build the structured name (family;given;additional;prefixes;suffixes)
+ */
+function buildStructuredName(fullName: string): string {
+  const { given, family } = splitFullName(fullName);
+  return [family, given, '', '', ''].map(escapeText).join(';');
+}
+
+/**
+ * Build the telephone property
+ * Numbers made of digits and separators become tel: URIs; anything else stays text
+ */
+function buildTelephone(phone: string): string {
+  if (/^\+?[\d\s().-]+$/.test(phone) && /\d/.test(phone)) {
+    const number = phone.replace(/[^\d+]/g, '');
+    return `TEL;VALUE=uri;TYPE=voice:tel:${number}`;
+  }
+  return `TEL;VALUE=text;TYPE=voice:${escapeText(phone)}`;
+}
+
+/**
+ * Render contact information to a vCard 4.0 contact card
+ *
+ * Assumes contact information has already been validated.
+ *
+ * @param contact - Contact information from the resume
+ * @returns vCard text with CRLF line endings
+ */
+export function renderContactToVCard(contact: ContactInfo): string {
+  const lines = [
+    'BEGIN:VCARD',
+    'VERSION:4.0',
+    `PRODID:${VCARD_CONFIG.productId}`,
+    'KIND:individual',
+    `FN:${escapeText(contact.fullName)}`,
+    `N:${buildStructuredName(contact.fullName)}`,
+  ];
+
+  if (contact.jobTitle) lines.push(`TITLE:${escapeText(contact.jobTitle)}`);
+  if (contact.email) lines.push(`EMAIL;TYPE=work:${escapeText(contact.email)}`);
+  if (contact.phone) lines.push(buildTelephone(contact.phone));
+
+  // Free-form location goes in the locality component
+  if (contact.location) lines.push(`ADR;TYPE=work:;;;${escapeText(contact.location)};;;`);
+
+  if (contact.portfolio) lines.push(`URL:${cleanUri(toProfileUrl(contact.portfolio))}`);
+  if (contact.linkedin) lines.push(`URL:${cleanUri(toProfileUrl(contact.linkedin))}`);
+  if (contact.github) lines.push(`URL:${cleanUri(toProfileUrl(contact.github))}`);
+  if (contact.twitter) lines.push(`URL:${cleanUri(toProfileUrl(contact.twitter, true))}`);
+
+  lines.push('END:VCARD');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
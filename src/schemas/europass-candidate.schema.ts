@@ -0,0 +1,194 @@
+/**
+ * Europass Candidate Schema (subset)
+ *
+ * Local structural schema for the Europass Candidate XML the exporter
+ * writes (HR Open Standards / HR-XML 3 based). Covers only the elements
+ * we emit, so exports can be checked offline without the full XSD set.
+ */
+
+import type { XmlSchema, XmlValueRule } from '../types/xml-schema.types.js';
+
+/**
+ * Namespaces declared on the root element
+ */
+export const EUROPASS_NAMESPACES = {
+  xmlns: 'http://www.europass.eu/1.0',
+  'xmlns:oa': 'http://www.openapplications.org/oagis/9',
+  'xmlns:eures': 'http://www.europass_eures.eu/1.0',
+  'xmlns:hr': 'http://www.hr-xml.org/3',
+} as const;
+
+const TEXT: XmlValueRule = { pattern: /\S/ };
+const SHORT_TEXT: XmlValueRule = { pattern: /\S/, maxLength: 1000 };
+const ISO_DATE: XmlValueRule = { pattern: /^\d{4}(-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01]))?)?$/ };
+const HTTP_URL: XmlValueRule = { pattern: /^https?:\/\/\S+$/, maxLength: 1000 };
+const BOOLEAN: XmlValueRule = { values: ['true', 'false'] };
+
+/**
+ * Date wrapper (StartDate, EndDate) content model
+ */
+const DATE_WRAPPER = { sequence: [{ name: 'hr:FormattedDateTime' }] };
+
+/**
+ * Content models keyed by qualified element name
+ */
+export const EUROPASS_CANDIDATE_SCHEMA: XmlSchema = {
+  name: 'Europass Candidate',
+  root: 'Candidate',
+  elements: {
+    Candidate: {
+      attributes: Object.fromEntries(
+        Object.entries(EUROPASS_NAMESPACES).map(([name, uri]) => [name, { required: true, values: [uri] }])
+      ),
+      sequence: [
+        { name: 'CandidatePerson' },
+        { name: 'CandidateProfile' },
+      ],
+    },
+
+    // Person and contact channels
+    CandidatePerson: {
+      sequence: [
+        { name: 'PersonName' },
+        { name: 'Communication', minOccurs: 0, maxOccurs: Infinity },
+      ],
+    },
+    PersonName: {
+      sequence: [
+        { name: 'oa:GivenName', minOccurs: 0 },
+        { name: 'hr:FamilyName', minOccurs: 0 },
+      ],
+    },
+    'oa:GivenName': { text: SHORT_TEXT },
+    'hr:FamilyName': { text: SHORT_TEXT },
+    Communication: {
+      sequence: [
+        { name: 'ChannelCode', minOccurs: 0 },
+        { name: 'UseCode', minOccurs: 0 },
+        { name: 'oa:DialNumber', minOccurs: 0 },
+        { name: 'oa:URI', minOccurs: 0 },
+        { name: 'Address', minOccurs: 0 },
+      ],
+    },
+    ChannelCode: { text: { values: ['Telephone', 'Email', 'Web'] } },
+    UseCode: { text: { values: ['personal', 'business', 'home', 'mobile', 'other'] } },
+    'oa:DialNumber': { text: { pattern: /^\+?[\d\s().-]*\d[\d\s().-]*$/, maxLength: 1000 } },
+    'oa:URI': { text: { pattern: /^(mailto:\S+@\S+|https?:\/\/\S+)$/, maxLength: 1000 } },
+    Address: {
+      sequence: [
+        { name: 'oa:CityName' },
+        { name: 'oa:CountrySubDivisionName', minOccurs: 0 },
+      ],
+    },
+    'oa:CityName': { text: SHORT_TEXT },
+    'oa:CountrySubDivisionName': { text: SHORT_TEXT },
+
+    // Profile sections
+    CandidateProfile: {
+      attributes: {
+        languageCode: { required: true, pattern: /^[a-z]{2,3}(-[A-Za-z0-9]{1,8})*$/ },
+      },
+      sequence: [
+        { name: 'CandidateObjective', minOccurs: 0 },
+        { name: 'EmploymentHistory', minOccurs: 0 },
+        { name: 'EducationHistory', minOccurs: 0 },
+        { name: 'PersonQualifications', minOccurs: 0 },
+        { name: 'Projects', minOccurs: 0 },
+      ],
+    },
+    CandidateObjective: { text: TEXT },
+    'oa:Description': { text: TEXT },
+    'hr:OrganizationName': { text: SHORT_TEXT },
+    'hr:FormattedDateTime': { text: ISO_DATE },
+
+    // Employment
+    EmploymentHistory: {
+      sequence: [{ name: 'EmployerHistory', maxOccurs: Infinity }],
+    },
+    EmployerHistory: {
+      sequence: [
+        { name: 'hr:OrganizationName' },
+        { name: 'OrganizationContact', minOccurs: 0 },
+        { name: 'PositionHistory' },
+      ],
+    },
+    OrganizationContact: {
+      sequence: [{ name: 'Communication' }],
+    },
+    PositionHistory: {
+      sequence: [
+        { name: 'PositionTitle' },
+        { name: 'eures:EmploymentPeriod', minOccurs: 0 },
+        { name: 'oa:Description', minOccurs: 0 },
+      ],
+    },
+    PositionTitle: {
+      attributes: { typeCode: { required: true, values: ['FREETEXT'] } },
+      text: SHORT_TEXT,
+    },
+    'eures:EmploymentPeriod': {
+      sequence: [
+        { name: 'eures:StartDate', minOccurs: 0 },
+        { name: 'eures:EndDate', minOccurs: 0 },
+        { name: 'eures:CurrentIndicator' },
+      ],
+    },
+    'eures:StartDate': DATE_WRAPPER,
+    'eures:EndDate': DATE_WRAPPER,
+    'eures:CurrentIndicator': { text: BOOLEAN },
+
+    // Education
+    EducationHistory: {
+      sequence: [{ name: 'EducationOrganizationAttendance', maxOccurs: Infinity }],
+    },
+    EducationOrganizationAttendance: {
+      sequence: [
+        { name: 'hr:OrganizationName' },
+        { name: 'AttendancePeriod', minOccurs: 0 },
+        { name: 'EducationDegree' },
+        { name: 'oa:Description', minOccurs: 0 },
+      ],
+    },
+    AttendancePeriod: {
+      sequence: [
+        { name: 'StartDate', minOccurs: 0 },
+        { name: 'EndDate', minOccurs: 0 },
+      ],
+    },
+    StartDate: DATE_WRAPPER,
+    EndDate: DATE_WRAPPER,
+    EducationDegree: {
+      sequence: [
+        { name: 'hr:DegreeName' },
+        { name: 'DegreeMajor', minOccurs: 0 },
+        { name: 'DegreeGrade', minOccurs: 0 },
+      ],
+    },
+    'hr:DegreeName': { text: SHORT_TEXT },
+    DegreeMajor: { text: SHORT_TEXT },
+    DegreeGrade: { text: SHORT_TEXT },
+
+    // Skills
+    PersonQualifications: {
+      sequence: [{ name: 'PersonCompetency', maxOccurs: Infinity }],
+    },
+    PersonCompetency: {
+      sequence: [{ name: 'CompetencyName' }],
+    },
+    CompetencyName: { text: SHORT_TEXT },
+
+    // Projects
+    Projects: {
+      sequence: [{ name: 'Project', maxOccurs: Infinity }],
+    },
+    Project: {
+      sequence: [
+        { name: 'Title' },
+        { name: 'oa:Description', minOccurs: 0 },
+        { name: 'Link', minOccurs: 0 },
+      ],
+    },
+    Title: { text: SHORT_TEXT },
+    Link: { text: HTTP_URL },
+  },
+};
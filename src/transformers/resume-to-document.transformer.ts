@@ -5,8 +5,9 @@
  * Does not modify v1 transformResumeToDocument() function.
  */
 
-import type { Document, DocumentElement } from '../types/document.types.js';
+import type { Document, DocumentElement, TextSpan } from '../types/document.types.js';
 import type { Resume } from '../types/resume.types.js';
+import { parseInlineMarkup } from '../utils/inline-markup.js';
 
 /**
  * Valid section keys for ordering
@@ -94,6 +95,15 @@ export function validateSectionOrder(sectionOrder?: string[]): SectionKey[] {
   return finalOrder;
 }
 
+/**
+ * Parse inline emphasis markup in a summary or bullet
+ * Spans are only attached when the text carries emphasis
+ */
+function toInlineText(source: string): { text: string; spans?: TextSpan[] } {
+  const { text, spans } = parseInlineMarkup(source);
+  return spans.some(span => span.bold || span.italic) ? { text, spans } : { text };
+}
+
 /**
  * Transform contact section to document elements
  */
@@ -140,7 +150,7 @@ function transformSummarySection(resume: Resume): DocumentElement[] {
   const elements: DocumentElement[] = [];
 
   elements.push({ type: 'HEADING', level: 2, text: 'Professional Summary' });
-  elements.push({ type: 'PARAGRAPH', text: resume.summary.summary });
+  elements.push({ type: 'PARAGRAPH', ...toInlineText(resume.summary.summary) });
 
   return elements;
 }
@@ -156,16 +166,15 @@ function transformExperienceSection(resume: Resume): DocumentElement[] {
   elements.push({ type: 'HEADING', level: 2, text: 'Work Experience' });
 
   resume.experience.forEach((exp, index) => {
-    elements.push({ type: 'HEADING', level: 3, text: exp.role });
-
-    const companyLine = exp.location ? `${exp.company} - ${exp.location}` : exp.company;
-    elements.push({ type: 'TEXT_LINE', text: companyLine });
-
     const dateLine = exp.endDate ? `${exp.startDate} - ${exp.endDate}` : `${exp.startDate} - Present`;
-    elements.push({ type: 'TEXT_LINE', text: dateLine });
+    elements.push({ type: 'ROW', left: `${exp.role} — ${exp.company}`, right: dateLine });
+
+    if (exp.location) {
+      elements.push({ type: 'TEXT_LINE', text: exp.location });
+    }
 
     if (exp.description.length > 0) {
-      elements.push({ type: 'LIST', items: exp.description.map(text => ({ text })) });
+      elements.push({ type: 'LIST', items: exp.description.map(toInlineText) });
     }
 
     if (index < resume.experience.length - 1) {
@@ -188,19 +197,13 @@ function transformEducationSection(resume: Resume): DocumentElement[] {
 
   resume.education.forEach((edu, index) => {
     const degreeText = edu.fieldOfStudy ? `${edu.degree} in ${edu.fieldOfStudy}` : edu.degree;
-    elements.push({ type: 'HEADING', level: 3, text: degreeText });
-    elements.push({ type: 'TEXT_LINE', text: edu.institution });
-
-    const meta: string[] = [];
     const dateLine = edu.endDate ? `${edu.startDate} - ${edu.endDate}` : `${edu.startDate} - Present`;
-    meta.push(dateLine);
+    elements.push({ type: 'ROW', left: `${degreeText} — ${edu.institution}`, right: dateLine });
 
     if (edu.cgpa) {
-      meta.push(`CGPA: ${edu.cgpa}`);
+      elements.push({ type: 'TEXT_LINE', text: `CGPA: ${edu.cgpa}` });
     }
 
-    elements.push({ type: 'TEXT_LINE', text: meta.join(' • ') });
-
     // Add relevant coursework if provided
     if (edu.relevantCourseWork && edu.relevantCourseWork.length > 0) {
       elements.push({ type: 'TEXT_LINE', text: `Relevant Coursework: ${edu.relevantCourseWork.join(', ')}` });
@@ -302,7 +305,7 @@ const CATEGORY_ALIASES: Record<string, string> = {
  * Parse skill with optional category prefix (e.g., "Cloud: OpenTelemetry")
  * Returns { category, skill } where category is either user-provided or auto-detected
  */
-function parseSkillWithCategory(skillInput: string): { category: string; skill: string } {
+export function parseSkillWithCategory(skillInput: string): { category: string; skill: string } {
   const trimmed = skillInput.trim();
 
   // Check for category prefix pattern "Category: Skill"
@@ -324,6 +327,19 @@ function parseSkillWithCategory(skillInput: string): { category: string; skill:
   return { category: categorizeSkillByKeyword(trimmed), skill: trimmed };
 }
 
+/**
+ * Prefix a skill with a category only when keyword categorization
+ * would not already place it there (used by importers)
+ * Returns null when the category name is not a known category
+ */
+export function withCategoryPrefix(category: string, skill: string): string | null {
+  const target = parseSkillWithCategory(`${category}: ${skill}`).category;
+  if (target === 'Other' && category.trim().toLowerCase() !== 'other') {
+    return null;
+  }
+  return categorizeSkillByKeyword(skill) === target ? skill : `${category}: ${skill}`;
+}
+
 /**
  * Categorize a skill based on keyword matching (internal helper)
  */
@@ -421,7 +437,7 @@ function transformProjectsSection(resume: Resume): DocumentElement[] {
     }
 
     if (project.description.length > 0) {
-      elements.push({ type: 'LIST', items: project.description.map(text => ({ text })) });
+      elements.push({ type: 'LIST', items: project.description.map(toInlineText) });
     }
 
     if (index < resume.projects.length - 1) {
@@ -443,22 +459,17 @@ function transformCombinedExperienceProjectsSection(resume: Resume): DocumentEle
 
   // Add experience entries
   resume.experience.forEach((exp, index) => {
-    elements.push({ type: 'HEADING', level: 3, text: `${exp.role} at ${exp.company}` });
-
-    const meta: string[] = [];
-    if (exp.location) meta.push(exp.location);
-
     const dateRange =
       exp.endDate && exp.endDate.trim() !== ''
         ? `${exp.startDate} – ${exp.endDate}`
         : exp.startDate;
-    meta.push(dateRange);
+    elements.push({ type: 'ROW', left: `${exp.role} — ${exp.company}`, right: dateRange });
 
-    if (meta.length > 0) {
-      elements.push({ type: 'TEXT_LINE', text: meta.join(' • ') });
+    if (exp.location) {
+      elements.push({ type: 'TEXT_LINE', text: exp.location });
     }
 
-    elements.push({ type: 'LIST', items: exp.description.map(text => ({ text })) });
+    elements.push({ type: 'LIST', items: exp.description.map(toInlineText) });
 
     // Add spacing between entries
     if (index < resume.experience.length - 1 || resume.projects.length > 0) {
@@ -482,7 +493,7 @@ function transformCombinedExperienceProjectsSection(resume: Resume): DocumentEle
       elements.push({ type: 'TEXT_LINE', text: meta.join(' • ') });
     }
 
-    elements.push({ type: 'LIST', items: project.description.map(text => ({ text })) });
+    elements.push({ type: 'LIST', items: project.description.map(toInlineText) });
 
     // Add spacing between projects
     if (index < resume.projects.length - 1) {
@@ -538,5 +549,5 @@ export function transformResumeToDocumentWithOrder(
   });
 
   console.log('[TRANSFORMER] Transformation complete. Total elements:', elements.length);
-  return { elements };
+  return { elements, ...(resume.direction ? { direction: resume.direction } : {}) };
 }
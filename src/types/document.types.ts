@@ -5,11 +5,13 @@
  * This model sits between validated JSON data and PDF generation.
  * 
  * Design principles:
- * - Plain text only (no inline formatting)
+ * - Plain text with optional bold/italic spans (no other inline formatting)
  * - Structural representation (no spacing/layout metadata)
  * - ATS-safe (single column, predictable reading order)
  */
 
+import type { TextDirection } from './resume.types.js';
+
 /**
  * Document element types
  */
@@ -18,6 +20,7 @@ export type DocumentElementType =
   | 'PARAGRAPH'
   | 'TEXT_LINE'
   | 'LIST'
+  | 'ROW'
   | 'SECTION_BREAK';
 
 /**
@@ -34,12 +37,22 @@ export interface HeadingElement {
   text: string;
 }
 
+/**
+ * Inline text run with optional emphasis
+ */
+export interface TextSpan {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+}
+
 /**
  * Paragraph element (multi-line text block)
  */
 export interface ParagraphElement {
   type: 'PARAGRAPH';
   text: string;
+  spans?: TextSpan[]; // Emphasis runs; joined they equal text
 }
 
 /**
@@ -55,6 +68,7 @@ export interface TextLineElement {
  */
 export interface ListItem {
   text: string;
+  spans?: TextSpan[]; // Emphasis runs; joined they equal text
 }
 
 /**
@@ -65,6 +79,16 @@ export interface ListElement {
   items: ListItem[];
 }
 
+/**
+ * Entry heading row (title left, dates flush right on the same line)
+ * Rendered at H3 level; reading order is left text, then right text
+ */
+export interface RowElement {
+  type: 'ROW';
+  left: string;
+  right: string;
+}
+
 /**
  * Section break (logical separator between major sections)
  */
@@ -80,6 +104,7 @@ export type DocumentElement =
   | ParagraphElement
   | TextLineElement
   | ListElement
+  | RowElement
   | SectionBreakElement;
 
 /**
@@ -87,6 +112,7 @@ export type DocumentElement =
  */
 export interface Document {
   elements: DocumentElement[];
+  direction?: TextDirection; // Base direction; renderers default to 'ltr'
 }
 
 /**
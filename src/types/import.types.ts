@@ -0,0 +1,67 @@
+/**
+ * Import Types
+ *
+ * Shared result shape for importers that convert external formats
+ * into the Resume schema
+ */
+
+import type { Resume, FontProfile } from './resume.types.js';
+import type { ValidationResult } from './validation.types.js';
+import type { PageSize, PageMargins, TextAlignment } from '../renderer/renderer-config.js';
+
+/**
+ * Note about data that could not be converted as-is
+ */
+export interface ImportWarning {
+  field: string;
+  message: string;
+}
+
+/**
+ * Importer result
+ * The resume is always returned so callers can surface validation fixes
+ */
+export interface ImportResult {
+  resume: Resume;
+  sectionOrder?: string[]; // Section order found in the source, if any
+  validation: ValidationResult;
+  warnings: ImportWarning[];
+}
+
+/**
+ * PDF importer result
+ * Includes the rendering settings stored with the embedded source data
+ */
+export interface PdfImportResult extends ImportResult {
+  fontProfile?: FontProfile;
+  densityPreset?: 'normal' | 'compact' | 'ultra-compact';
+  pageSize?: PageSize;
+  margins?: Partial<PageMargins>;
+  fitToPages?: number;
+  runningHeader?: boolean;
+  textAlign?: TextAlignment;
+  hyphenate?: boolean;
+}
+
+/**
+ * How reliably a field was recognized in unstructured input
+ */
+export type ImportConfidence = 'high' | 'medium' | 'low';
+
+/**
+ * Confidence annotation for one imported field
+ */
+export interface FieldConfidence {
+  field: string; // Resume path, e.g. 'experience[0].company'
+  confidence: ImportConfidence;
+  reason: string; // How the value was recognized
+}
+
+/**
+ * Plain-text importer result
+ * Every detected field carries a confidence annotation for review
+ */
+export interface TextImportResult extends ImportResult {
+  sectionOrder: string[];
+  confidence: FieldConfidence[];
+}
@@ -0,0 +1,93 @@
+/**
+ * JSON Resume Schema (jsonresume.org, v1.0.0)
+ *
+ * Subset of the community schema used by the adapter.
+ * Every field is optional in the upstream schema.
+ */
+
+export interface JsonResumeLocation {
+  address?: string;
+  postalCode?: string;
+  city?: string;
+  countryCode?: string;
+  region?: string;
+}
+
+export interface JsonResumeProfile {
+  network?: string;
+  username?: string;
+  url?: string;
+}
+
+export interface JsonResumeBasics {
+  name?: string;
+  label?: string;
+  image?: string;
+  email?: string;
+  phone?: string;
+  url?: string;
+  summary?: string;
+  location?: JsonResumeLocation;
+  profiles?: JsonResumeProfile[];
+}
+
+export interface JsonResumeWork {
+  name?: string;
+  position?: string;
+  location?: string;
+  url?: string;
+  startDate?: string;
+  endDate?: string;
+  summary?: string;
+  highlights?: string[];
+}
+
+export interface JsonResumeEducation {
+  institution?: string;
+  url?: string;
+  area?: string;
+  studyType?: string;
+  startDate?: string;
+  endDate?: string;
+  score?: string;
+  courses?: string[];
+}
+
+export interface JsonResumeSkill {
+  name?: string;
+  level?: string;
+  keywords?: string[];
+}
+
+export interface JsonResumeProject {
+  name?: string;
+  description?: string;
+  highlights?: string[];
+  keywords?: string[];
+  startDate?: string;
+  endDate?: string;
+  url?: string;
+  roles?: string[];
+  entity?: string;
+  type?: string;
+}
+
+/**
+ * Complete JSON Resume document
+ */
+export interface JsonResume {
+  $schema?: string;
+  basics?: JsonResumeBasics;
+  work?: JsonResumeWork[];
+  volunteer?: unknown[];
+  education?: JsonResumeEducation[];
+  awards?: unknown[];
+  certificates?: unknown[];
+  publications?: unknown[];
+  skills?: JsonResumeSkill[];
+  languages?: unknown[];
+  interests?: unknown[];
+  references?: unknown[];
+  projects?: JsonResumeProject[];
+  meta?: Record<string, unknown>;
+}
@@ -0,0 +1,29 @@
+/**
+ * PDF Metadata Types
+ * 
+ * Document information written to the PDF Info dictionary
+ * (and mirrored into XMP metadata in PDF/A mode), plus the
+ * source data embedded as a file attachment
+ */
+
+import type { Resume } from './resume.types.js';
+
+/**
+ * PDF document information fields indexed by recruiter systems
+ */
+export interface PdfDocumentInfo {
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords?: string[];
+}
+
+/**
+ * Source data embedded in the PDF so it can be reopened for editing
+ * Font profile and density preset are added by the renderer
+ */
+export interface EmbeddedResumeSource {
+  resume: Resume;
+  sectionOrder?: string[];
+  fitToPages?: number; // Fit-to-pages target, so a reopened resume keeps fitting
+}
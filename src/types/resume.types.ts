@@ -11,6 +11,12 @@
  */
 export type FontProfile = 'sans' | 'serif' | 'mono';
 
+/**
+ * Base text direction
+ * 'rtl' lays the document out right-to-left for Arabic or Hebrew resumes
+ */
+export type TextDirection = 'ltr' | 'rtl';
+
 /**
  * Contact Information
  */
@@ -88,4 +94,5 @@ export interface Resume {
   skills: Skills;
   projects: Project[];
   combinedExperienceProjects?: boolean;
+  direction?: TextDirection; // Defaults to 'ltr'
 }
@@ -0,0 +1,44 @@
+/**
+ * XML Schema Types
+ *
+ * Structural schema used to check exported XML offline.
+ * Covers element order, occurrence counts, attributes and text values;
+ * each element name has one content model wherever it appears.
+ */
+
+/**
+ * Allowed values for text content or an attribute
+ */
+export interface XmlValueRule {
+  pattern?: RegExp; // Value must match (anchor for whole-value checks)
+  values?: readonly string[]; // Enumeration
+  maxLength?: number;
+}
+
+/**
+ * Child element slot in a sequence
+ */
+export interface XmlChildRule {
+  name: string;
+  minOccurs?: number; // Default 1
+  maxOccurs?: number; // Default 1, Infinity for unbounded
+}
+
+/**
+ * Content model of one element
+ * Elements declare either text or a child sequence, not both
+ */
+export interface XmlElementRule {
+  attributes?: Record<string, XmlValueRule & { required?: boolean }>;
+  sequence?: readonly XmlChildRule[];
+  text?: XmlValueRule;
+}
+
+/**
+ * Complete schema
+ */
+export interface XmlSchema {
+  name: string; // Human-readable schema name for messages
+  root: string;
+  elements: Record<string, XmlElementRule>;
+}
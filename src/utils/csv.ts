@@ -0,0 +1,78 @@
+/**
+ * CSV Parsing
+ *
+ * RFC 4180 parser: comma-separated, double-quoted fields that may
+ * contain commas, escaped quotes ("") and line breaks.
+ */
+
+/**
+ * Parse CSV text into rows of fields
+ *
+ * @param text - CSV text (a leading byte-order mark is ignored)
+ * @returns Rows; blank lines are skipped
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let pos = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (; pos < text.length; pos++) {
+    const char = text[pos];
+
+    if (inQuotes) {
+      if (char === '"' && text[pos + 1] === '"') {
+        field += '"';
+        pos++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[pos + 1] === '\n') pos++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+}
+
+/**
+ * Parse CSV text with a header row into records keyed by column name
+ * Rows before the header (e.g. export notes) are skipped
+ *
+ * @param text - CSV text
+ * @param requiredColumn - Column that identifies the header row
+ * @returns Records with trimmed values, or null when no header row is found
+ */
+export function parseCsvRecords(text: string, requiredColumn: string): Record<string, string>[] | null {
+  const rows = parseCsv(text);
+  const headerIndex = rows.findIndex(row => row.some(cell => cell.trim() === requiredColumn));
+  if (headerIndex === -1) return null;
+
+  const header = rows[headerIndex].map(cell => cell.trim());
+  return rows.slice(headerIndex + 1).map(row => {
+    const record: Record<string, string> = {};
+    header.forEach((column, index) => {
+      record[column] = (row[index] ?? '').trim();
+    });
+    return record;
+  });
+}
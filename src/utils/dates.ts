@@ -0,0 +1,54 @@
+/**
+ * Date Normalization
+ *
+ * Converts the free-text dates entered in the editor to ISO 8601
+ * for structured export formats.
+ */
+
+/**
+ * Month names for date normalization
+ */
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Normalize a free-text date to ISO 8601 (year, year-month or full date)
+ * Supports "2020", "2020-01", "2020-01-15", "Jan 2020", "January 2020" and "01/2020"
+ *
+ * @param value - Date as entered
+ * @returns ISO 8601 date, or null when the format is not recognized
+ */
+export function toIsoDate(value: string): string | null {
+  const trimmed = value.trim();
+  if (/^\d{4}(-\d{2}(-\d{2})?)?$/.test(trimmed)) {
+    return trimmed;
+  }
+
+  const monthYear = /^([A-Za-z]{3,})\.?\s+(\d{4})$/.exec(trimmed);
+  if (monthYear) {
+    const month = MONTHS.indexOf(monthYear[1].slice(0, 3).toLowerCase());
+    if (month >= 0) {
+      return `${monthYear[2]}-${String(month + 1).padStart(2, '0')}`;
+    }
+  }
+
+  const numeric = /^(\d{1,2})\/(\d{4})$/.exec(trimmed);
+  if (numeric && Number(numeric[1]) >= 1 && Number(numeric[1]) <= 12) {
+    return `${numeric[2]}-${numeric[1].padStart(2, '0')}`;
+  }
+
+  return null;
+}
+
+/**
+ * Convert a free-text date to the editor's MM/YYYY form (or YYYY for a year)
+ *
+ * @param value - Date as written in the source
+ * @returns Editor date, or null when the format is not recognized
+ */
+export function toEditorDate(value: string): string | null {
+  const isoDate = toIsoDate(value);
+  if (isoDate === null) return null;
+
+  const [year, month] = isoDate.split('-');
+  return month ? `${month}/${year}` : year;
+}
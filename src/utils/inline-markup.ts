@@ -0,0 +1,178 @@
+/**
+ * Inline Markup Utilities
+ *
+ * Parses the restricted emphasis markup allowed in summaries and bullets:
+ * **bold** and _italic_, without nesting. Markers only count at word
+ * boundaries, so snake_case names and URLs keep their underscores, and a
+ * backslash makes the next "*", "_" or "\" literal (\*\*kwargs). Text
+ * without emphasis or escaped markers is plain text and kept as entered.
+ */
+
+import type { TextSpan } from '../types/document.types.js';
+
+const BOLD_MARKER = '**';
+const ITALIC_MARKER = '_';
+const ESCAPE = '\\';
+
+/**
+ * Inline markup parse result
+ */
+export interface InlineMarkupResult {
+  text: string; // Source with markers removed
+  spans: TextSpan[]; // Runs in source order; joined they equal text
+  unclosed: string[]; // Markers that open a span but are never closed, e.g. "**kwargs"
+}
+
+/**
+ * Detect a letter or digit (undefined at either end of the string)
+ */
+function isWordChar(char: string | undefined): boolean {
+  return char !== undefined && /[\p{L}\p{N}]/u.test(char);
+}
+
+/**
+ * Detect whitespace or either end of the string
+ */
+function isSpaceOrEdge(char: string | undefined): boolean {
+  return char === undefined || /\s/.test(char);
+}
+
+/**
+ * Check whether the character at index is escaped by an odd run of backslashes
+ */
+function isEscaped(source: string, index: number): boolean {
+  let backslashes = 0;
+  while (source[index - 1 - backslashes] === ESCAPE) backslashes++;
+  return backslashes % 2 === 1;
+}
+
+/**
+ * Remove the backslashes escaping markers and backslashes
+ */
+function unescapeMarkup(text: string): string {
+  return text.replace(/\\([*_\\])/g, '$1');
+}
+
+/**
+ * Check whether an escape at index keeps a marker literal
+ * Escaped asterisks next to another asterisk would form "**"; an escaped
+ * underscore at a word boundary could open or close an italic span
+ */
+function escapesMarker(source: string, index: number): boolean {
+  const char = source[index + 1];
+  if (char === '*') {
+    return source[index - 1] === '*' || source[index + 2] === '*' ||
+      (source[index - 2] === ESCAPE && source[index - 1] === '*') || source.startsWith('\\*', index + 2);
+  }
+  return char === ITALIC_MARKER && (!isWordChar(source[index - 1]) || !isWordChar(source[index + 2]));
+}
+
+/**
+ * Check whether a marker at index can open a span
+ * Openers follow a non-word character and precede text (runs such as "__" never open)
+ */
+function canOpen(source: string, index: number, marker: string): boolean {
+  const before = source[index - 1];
+  const after = source[index + marker.length];
+  return !isWordChar(before) && before !== marker[0] && !isSpaceOrEdge(after) && after !== marker[0];
+}
+
+/**
+ * Find the marker closing a span whose text starts at from
+ * Closers follow text and precede a non-word character
+ */
+function findClose(source: string, marker: string, from: number): number {
+  for (let index = source.indexOf(marker, from); index !== -1; index = source.indexOf(marker, index + 1)) {
+    const before = source[index - 1];
+    const after = source[index + marker.length];
+    if (
+      index > from && !isSpaceOrEdge(before) && before !== marker[0] && !isWordChar(after) && after !== marker[0] &&
+      !isEscaped(source, index)
+    ) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Parse inline emphasis markup into plain text and span runs
+ * Markers without a partner are kept as literal text and reported in
+ * unclosed. Escapes are only removed when the text carries emphasis or
+ * escapes a marker; other text is returned unchanged.
+ *
+ * @param source - Text as entered, possibly containing markup
+ * @returns Plain text, span runs and unclosed markers
+ */
+export function parseInlineMarkup(source: string): InlineMarkupResult {
+  const spans: TextSpan[] = [];
+  const unclosed: string[] = [];
+  let escapedMarker = false;
+  let cursor = 0;
+  let index = 0;
+
+  while (index < source.length) {
+    if (source[index] === ESCAPE && /[*_\\]/.test(source[index + 1] ?? '')) {
+      escapedMarker = escapedMarker || escapesMarker(source, index);
+      index += 2;
+      continue;
+    }
+
+    const marker = source.startsWith(BOLD_MARKER, index)
+      ? BOLD_MARKER
+      : source[index] === ITALIC_MARKER ? ITALIC_MARKER : null;
+
+    if (marker === null || !canOpen(source, index, marker)) {
+      index++;
+      continue;
+    }
+
+    const close = findClose(source, marker, index + marker.length);
+    if (close === -1) {
+      if (!unclosed.includes(marker)) unclosed.push(marker);
+      index += marker.length;
+      continue;
+    }
+
+    if (index > cursor) {
+      spans.push({ text: unescapeMarkup(source.slice(cursor, index)) });
+    }
+    const text = unescapeMarkup(source.slice(index + marker.length, close));
+    spans.push(marker === BOLD_MARKER ? { text, bold: true } : { text, italic: true });
+    index = cursor = close + marker.length;
+  }
+
+  if (cursor < source.length) {
+    spans.push({ text: unescapeMarkup(source.slice(cursor)) });
+  }
+
+  // Plain text keeps its backslashes
+  if (!escapedMarker && !spans.some(span => span.bold || span.italic)) {
+    return { text: source, spans: source === '' ? [] : [{ text: source }], unclosed };
+  }
+
+  return { text: spans.map(span => span.text).join(''), spans, unclosed };
+}
+
+/**
+ * Write span runs as inline markup that parses back to the same runs
+ * Plain text is written unchanged when it reads back as entered; otherwise
+ * markers and the backslashes before them are escaped
+ *
+ * @param spans - Runs with their emphasis
+ * @returns Inline markup source
+ */
+export function formatInlineMarkup(spans: TextSpan[]): string {
+  const plain = spans.map(span => span.text).join('');
+  if (!spans.some(span => span.bold || span.italic)) {
+    const parsed = parseInlineMarkup(plain);
+    if (parsed.text === plain && parsed.unclosed.length === 0) return plain;
+  }
+
+  return spans.map(span => {
+    const text = span.text.replace(/\\(?=[*_\\]|$)/g, '\\\\').replace(/[*_]/g, '\\$&');
+    if (span.bold) return `${BOLD_MARKER}${text}${BOLD_MARKER}`;
+    if (span.italic) return `${ITALIC_MARKER}${text}${ITALIC_MARKER}`;
+    return text;
+  }).join('');
+}
@@ -0,0 +1,21 @@
+/**
+ * Name Utilities
+ *
+ * Splits the single full-name field for formats with structured names.
+ */
+
+/**
+ * Split a full name into given and family names
+ * The last word is taken as the family name; a single word is a given name
+ *
+ * @param fullName - Full name as entered
+ * @returns Given name(s) and family name (either may be empty)
+ */
+export function splitFullName(fullName: string): { given: string; family: string } {
+  const words = fullName.trim().split(/\s+/).filter(word => word !== '');
+  if (words.length < 2) {
+    return { given: words.join(''), family: '' };
+  }
+  const family = words.pop() ?? '';
+  return { given: words.join(' '), family };
+}
@@ -0,0 +1,117 @@
+/**
+ * PDF Object Access
+ *
+ * Minimal reader for the object layout PDFKit writes (uncompressed
+ * cross-reference table, no object streams). Used to inspect PDFs
+ * we produced ourselves; not a general-purpose PDF parser.
+ * Server-side only (Node.js).
+ */
+
+import { inflateSync } from 'zlib';
+
+/**
+ * PDF file contents with a latin1 view for pattern matching
+ * latin1 keeps string offsets equal to byte offsets
+ */
+export interface PdfSource {
+  bytes: Buffer;
+  text: string;
+}
+
+/**
+ * Open PDF file contents for object access
+ *
+ * @param pdf - PDF file contents
+ * @returns PDF source, or null when the data is not a PDF
+ */
+export function openPdf(pdf: Uint8Array): PdfSource | null {
+  const bytes = Buffer.from(pdf.buffer, pdf.byteOffset, pdf.byteLength);
+  const text = bytes.toString('latin1');
+
+  return text.startsWith('%PDF-') ? { bytes, text } : null;
+}
+
+/**
+ * Find the start offset of an indirect object
+ */
+function findObjectStart(pdf: PdfSource, objectNumber: number): number | null {
+  const header = new RegExp(`(?:^|\\s)${objectNumber}\\s+0\\s+obj\\b`).exec(pdf.text);
+  return header ? header.index : null;
+}
+
+/**
+ * Get an object's dictionary text (without stream data)
+ *
+ * @param pdf - PDF source
+ * @param objectNumber - Indirect object number
+ * @returns Object text up to its stream data or end, or null when missing
+ */
+export function getObjectDictionary(pdf: PdfSource, objectNumber: number): string | null {
+  const start = findObjectStart(pdf, objectNumber);
+  if (start === null) return null;
+
+  const end = pdf.text.indexOf('endobj', start);
+  if (end === -1) return null;
+
+  const streamKeyword = pdf.text.indexOf('stream', start);
+  const dictionaryEnd = streamKeyword !== -1 && streamKeyword < end ? streamKeyword : end;
+  return pdf.text.substring(start, dictionaryEnd);
+}
+
+/**
+ * Get the object number an indirect reference entry points to
+ *
+ * @param dictionary - Dictionary text
+ * @param key - Entry name without the leading slash
+ * @returns Referenced object number, or null when the entry is missing or direct
+ */
+export function getReference(dictionary: string, key: string): number | null {
+  const reference = new RegExp(`/${key}\\s+(\\d+)\\s+0\\s+R`).exec(dictionary);
+  return reference ? parseInt(reference[1], 10) : null;
+}
+
+/**
+ * Get the trailer dictionary text
+ *
+ * @param pdf - PDF source
+ * @returns Trailer text, or null when missing
+ */
+export function getTrailer(pdf: PdfSource): string | null {
+  const start = pdf.text.lastIndexOf('trailer');
+  if (start === -1) return null;
+
+  const end = pdf.text.indexOf('startxref', start);
+  return pdf.text.substring(start, end === -1 ? undefined : end);
+}
+
+/**
+ * Read a stream object's data, inflating FlateDecode streams
+ *
+ * @param pdf - PDF source
+ * @param objectNumber - Indirect object number of the stream
+ * @param maxOutputLength - Inflated size cap, guards against compression bombs
+ * @returns Stream data, or null when the object is not a readable stream
+ */
+export function readStream(pdf: PdfSource, objectNumber: number, maxOutputLength?: number): Buffer | null {
+  const start = findObjectStart(pdf, objectNumber);
+  if (start === null) return null;
+
+  const streamKeyword = pdf.text.indexOf('stream', start);
+  if (streamKeyword === -1) return null;
+
+  const dictionary = pdf.text.substring(start, streamKeyword);
+  const length = /\/Length\s+(\d+)\s*(?:\/|>>)/.exec(dictionary);
+  if (!length) return null;
+
+  // Data starts after the end-of-line that follows the keyword
+  let dataStart = streamKeyword + 'stream'.length;
+  if (pdf.text[dataStart] === '\r') dataStart++;
+  if (pdf.text[dataStart] === '\n') dataStart++;
+
+  const data = pdf.bytes.subarray(dataStart, dataStart + parseInt(length[1], 10));
+  if (!/\/Filter\s*\/FlateDecode/.test(dictionary)) {
+    return data;
+  }
+
+  return inflateSync(data, maxOutputLength === undefined ? {} : { maxOutputLength });
+}
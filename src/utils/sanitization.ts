@@ -56,9 +56,11 @@ export function isSafeString(input: string): boolean {
     return false;
   }
   
-  // Allow: alphanumeric, spaces, common punctuation, newlines
+  // Allow: alphanumeric, combining marks (Hebrew points, Arabic vowels), spaces,
+  // common punctuation (including * for bold markup, Hebrew/Arabic forms and
+  // CJK ideographic and fullwidth forms), newlines
   // Block: control characters (except newline/tab), null bytes
-  const safePattern = /^[\p{L}\p{N}\s.,;:!?()\-_@#$%&+=\[\]{}'"\/\\\n\t]*$/u;
+  const safePattern = /^[\p{L}\p{M}\p{N}\s.,;:!?()\-_*@#$%&+=\[\]{}'"\/\\\n\t\u05be\u05f3\u05f4\u060c\u061b\u061f\u066a\u3001\u3002\u300c-\u300f\u3010\u3011\u30fb\uff01\uff08\uff09\uff0c\uff1a\uff1b\uff1f]*$/u;
   
   return safePattern.test(input) && !input.includes('\0');
 }
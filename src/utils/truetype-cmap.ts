@@ -0,0 +1,136 @@
+/**
+ * TrueType Character Map
+ *
+ * Minimal reader for the Unicode character map ('cmap' table) of TrueType
+ * and OpenType fonts (format 4 and format 12 subtables; the first font of
+ * a collection).
+ * Pure functions, no I/O.
+ */
+
+const COLLECTION_TAG = 'ttcf';
+const CMAP_TAG = 'cmap';
+
+/**
+ * Find a table's offset in the font's table directory
+ */
+function findTable(bytes: Buffer, tag: string): number | null {
+  let directory = 0;
+  if (bytes.toString('latin1', 0, 4) === COLLECTION_TAG) {
+    if (bytes.length < 16) return null;
+    directory = bytes.readUInt32BE(12);
+  }
+  if (directory + 12 > bytes.length) return null;
+
+  const tableCount = bytes.readUInt16BE(directory + 4);
+  for (let i = 0; i < tableCount; i++) {
+    const record = directory + 12 + i * 16;
+    if (record + 16 > bytes.length) return null;
+    if (bytes.toString('latin1', record, record + 4) === tag) {
+      return bytes.readUInt32BE(record + 8);
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the Unicode subtable, preferring full-repertoire format 12 over BMP-only format 4
+ */
+function findUnicodeSubtable(bytes: Buffer, cmap: number): number | null {
+  const subtableCount = bytes.readUInt16BE(cmap + 2);
+  let best: { offset: number; format: number } | null = null;
+
+  for (let i = 0; i < subtableCount; i++) {
+    const record = cmap + 4 + i * 8;
+    if (record + 8 > bytes.length) break;
+    const platform = bytes.readUInt16BE(record);
+    const encoding = bytes.readUInt16BE(record + 2);
+    const offset = cmap + bytes.readUInt32BE(record + 4);
+    if (offset + 2 > bytes.length) continue;
+
+    // Unicode platform, or Windows Unicode BMP (1) and full repertoire (10)
+    const unicode = platform === 0 || (platform === 3 && (encoding === 1 || encoding === 10));
+    const format = bytes.readUInt16BE(offset);
+    if (unicode && (format === 4 || format === 12) && (!best || format > best.format)) {
+      best = { offset, format };
+    }
+  }
+
+  return best?.offset ?? null;
+}
+
+/**
+ * Add the code points of a format 4 (segment mapping to delta values) subtable
+ */
+function readFormat4(bytes: Buffer, subtable: number, codePoints: Set<number>): void {
+  const segmentCount = bytes.readUInt16BE(subtable + 6) / 2;
+  const endCodes = subtable + 14;
+  const startCodes = endCodes + segmentCount * 2 + 2;
+  const idDeltas = startCodes + segmentCount * 2;
+  const idRangeOffsets = idDeltas + segmentCount * 2;
+  if (idRangeOffsets + segmentCount * 2 > bytes.length) return;
+
+  for (let segment = 0; segment < segmentCount; segment++) {
+    const end = bytes.readUInt16BE(endCodes + segment * 2);
+    const start = bytes.readUInt16BE(startCodes + segment * 2);
+    const idDelta = bytes.readUInt16BE(idDeltas + segment * 2);
+    const rangeOffsetPosition = idRangeOffsets + segment * 2;
+    const idRangeOffset = bytes.readUInt16BE(rangeOffsetPosition);
+
+    for (let code = start; code <= end && code !== 0xffff; code++) {
+      let glyph = 0;
+      if (idRangeOffset === 0) {
+        glyph = (code + idDelta) & 0xffff;
+      } else {
+        const position = rangeOffsetPosition + idRangeOffset + (code - start) * 2;
+        if (position + 2 > bytes.length) continue;
+        const index = bytes.readUInt16BE(position);
+        glyph = index === 0 ? 0 : (index + idDelta) & 0xffff;
+      }
+      if (glyph !== 0) codePoints.add(code);
+    }
+  }
+}
+
+/**
+ * Add the code points of a format 12 (segmented coverage) subtable
+ */
+function readFormat12(bytes: Buffer, subtable: number, codePoints: Set<number>): void {
+  const groupCount = bytes.readUInt32BE(subtable + 12);
+  if (subtable + 16 + groupCount * 12 > bytes.length) return;
+
+  for (let group = 0; group < groupCount; group++) {
+    const record = subtable + 16 + group * 12;
+    const start = bytes.readUInt32BE(record);
+    const end = Math.min(bytes.readUInt32BE(record + 4), 0x10ffff);
+    const startGlyph = bytes.readUInt32BE(record + 8);
+
+    for (let code = start; code <= end; code++) {
+      if (startGlyph + (code - start) !== 0) codePoints.add(code);
+    }
+  }
+}
+
+/**
+ * Read the Unicode code points a font has glyphs for
+ *
+ * @param data - Font file contents
+ * @returns Mapped code points, or null when the font has no readable Unicode character map
+ */
+export function readCharacterMap(data: Uint8Array): Set<number> | null {
+  const bytes = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  if (bytes.length < 12) return null;
+
+  const cmap = findTable(bytes, CMAP_TAG);
+  if (cmap === null || cmap + 4 > bytes.length) return null;
+
+  const subtable = findUnicodeSubtable(bytes, cmap);
+  if (subtable === null || subtable + 16 > bytes.length) return null;
+
+  const codePoints = new Set<number>();
+  if (bytes.readUInt16BE(subtable) === 4) {
+    readFormat4(bytes, subtable, codePoints);
+  } else {
+    readFormat12(bytes, subtable, codePoints);
+  }
+  return codePoints;
+}
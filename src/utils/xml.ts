@@ -0,0 +1,214 @@
+/**
+ * XML Utilities
+ *
+ * Element tree, serializer and a small strict parser for the XML
+ * documents we export. Mixed content (text next to child elements),
+ * DTDs and processing instructions other than the declaration are
+ * not supported.
+ */
+
+/**
+ * XML element with either text content or child elements
+ */
+export interface XmlElement {
+  name: string; // Qualified name as written (e.g. 'hr:FormattedDateTime')
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text?: string;
+}
+
+/**
+ * Create an element with child elements
+ */
+export function xmlElement(
+  name: string,
+  children: XmlElement[] = [],
+  attributes: Record<string, string> = {}
+): XmlElement {
+  return { name, attributes, children };
+}
+
+/**
+ * Create an element with text content
+ */
+export function xmlText(name: string, text: string, attributes: Record<string, string> = {}): XmlElement {
+  return { name, attributes, children: [], text };
+}
+
+/**
+ * Escape text for element content and attribute values
+ * Characters not allowed in XML 1.0 are removed
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Serialize an element tree, two-space indented, with an XML declaration
+ *
+ * @param root - Root element
+ * @returns XML document text
+ */
+export function serializeXml(root: XmlElement): string {
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>'];
+
+  const write = (element: XmlElement, depth: number) => {
+    const indent = '  '.repeat(depth);
+    const attributes = Object.entries(element.attributes)
+      .map(([name, value]) => ` ${name}="${escapeXml(value)}"`)
+      .join('');
+
+    if (element.text !== undefined) {
+      lines.push(`${indent}<${element.name}${attributes}>${escapeXml(element.text)}</${element.name}>`);
+    } else if (element.children.length === 0) {
+      lines.push(`${indent}<${element.name}${attributes}/>`);
+    } else {
+      lines.push(`${indent}<${element.name}${attributes}>`);
+      element.children.forEach(child => write(child, depth + 1));
+      lines.push(`${indent}</${element.name}>`);
+    }
+  };
+
+  write(root, 0);
+  return lines.join('\n') + '\n';
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Decode entity and character references
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-z]+);/g, (reference, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    if (entity in XML_ENTITIES) return XML_ENTITIES[entity];
+    throw new Error(`Unknown entity ${reference}`);
+  });
+}
+
+/**
+ * Parse an XML document into an element tree
+ *
+ * @param xml - XML document text
+ * @returns Root element
+ * @throws Error when the document is not well-formed
+ */
+export function parseXml(xml: string): XmlElement {
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`${message} at offset ${pos}`);
+  };
+
+  // Skip whitespace, comments and the XML declaration
+  const skipMisc = () => {
+    for (;;) {
+      while (pos < xml.length && /\s/.test(xml[pos])) pos++;
+      if (xml.startsWith('<!--', pos)) {
+        const end = xml.indexOf('-->', pos);
+        if (end === -1) fail('Unterminated comment');
+        pos = end + 3;
+      } else if (xml.startsWith('<?', pos)) {
+        const end = xml.indexOf('?>', pos);
+        if (end === -1) fail('Unterminated declaration');
+        pos = end + 2;
+      } else {
+        return;
+      }
+    }
+  };
+
+  const readName = (): string => {
+    const match = /^[A-Za-z_][\w.:-]*/.exec(xml.slice(pos, pos + 256));
+    if (!match) fail('Expected a name');
+    pos += match![0].length;
+    return match![0];
+  };
+
+  const readElement = (): XmlElement => {
+    if (xml[pos] !== '<') fail('Expected an element');
+    pos++;
+    const element = xmlElement(readName());
+
+    // Attributes
+    for (;;) {
+      while (/\s/.test(xml[pos] ?? '')) pos++;
+      if (xml.startsWith('/>', pos)) {
+        pos += 2;
+        return element;
+      }
+      if (xml[pos] === '>') {
+        pos++;
+        break;
+      }
+      const name = readName();
+      while (/\s/.test(xml[pos] ?? '')) pos++;
+      if (xml[pos] !== '=') fail(`Expected '=' after attribute ${name}`);
+      pos++;
+      while (/\s/.test(xml[pos] ?? '')) pos++;
+      const quote = xml[pos];
+      if (quote !== '"' && quote !== "'") fail(`Expected quoted value for attribute ${name}`);
+      const end = xml.indexOf(quote, pos + 1);
+      if (end === -1) fail(`Unterminated value for attribute ${name}`);
+      const value = xml.substring(pos + 1, end);
+      if (value.includes('<')) fail(`Invalid '<' in attribute ${name}`);
+      if (name in element.attributes) fail(`Duplicate attribute ${name}`);
+      element.attributes[name] = decodeEntities(value);
+      pos = end + 1;
+    }
+
+    // Content
+    let text = '';
+    for (;;) {
+      if (pos >= xml.length) fail(`Unclosed element ${element.name}`);
+
+      if (xml.startsWith('</', pos)) {
+        pos += 2;
+        const name = readName();
+        if (name !== element.name) fail(`Expected </${element.name}> but found </${name}>`);
+        while (/\s/.test(xml[pos] ?? '')) pos++;
+        if (xml[pos] !== '>') fail(`Malformed closing tag for ${name}`);
+        pos++;
+        break;
+      }
+
+      if (xml.startsWith('<!--', pos)) {
+        skipMisc();
+      } else if (xml[pos] === '<') {
+        element.children.push(readElement());
+      } else {
+        const end = xml.indexOf('<', pos);
+        text += xml.substring(pos, end === -1 ? xml.length : end);
+        pos = end === -1 ? xml.length : end;
+      }
+    }
+
+    if (element.children.length > 0) {
+      if (text.trim() !== '') fail(`Mixed content in element ${element.name}`);
+    } else if (text !== '') {
+      element.text = decodeEntities(text);
+    }
+
+    return element;
+  };
+
+  skipMisc();
+  const root = readElement();
+  skipMisc();
+  if (pos < xml.length) fail('Content after the root element');
+
+  return root;
+}
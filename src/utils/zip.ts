@@ -0,0 +1,120 @@
+/**
+ * ZIP Archive Access
+ *
+ * Minimal reader for stored and deflated entries of ZIP archives
+ * (no ZIP64, encryption or multi-disk archives).
+ * Server-side only (Node.js).
+ */
+
+import { inflateRawSync } from 'zlib';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+/**
+ * Archive entry from the central directory
+ */
+export interface ZipEntry {
+  name: string; // Path inside the archive
+  method: number; // Compression method
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+  encrypted: boolean;
+}
+
+/**
+ * Find the end-of-central-directory record
+ * It sits at the end of the archive, followed by an optional comment
+ */
+function findEndOfCentralDirectory(bytes: Buffer): number | null {
+  const earliest = Math.max(0, bytes.length - 22 - 0xffff);
+  for (let offset = bytes.length - 22; offset >= earliest; offset--) {
+    if (bytes.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  return null;
+}
+
+/**
+ * List the entries of a ZIP archive
+ *
+ * @param data - Archive contents
+ * @returns Entries in central-directory order, or null when the data is not a readable ZIP
+ */
+export function readZipEntries(data: Uint8Array): ZipEntry[] | null {
+  const bytes = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  if (bytes.length < 22) return null;
+
+  const end = findEndOfCentralDirectory(bytes);
+  if (end === null) return null;
+
+  const entryCount = bytes.readUInt16LE(end + 10);
+  let offset = bytes.readUInt32LE(end + 16);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > bytes.length || bytes.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      return null;
+    }
+
+    const nameLength = bytes.readUInt16LE(offset + 28);
+    const extraLength = bytes.readUInt16LE(offset + 30);
+    const commentLength = bytes.readUInt16LE(offset + 32);
+    const flags = bytes.readUInt16LE(offset + 8);
+
+    entries.push({
+      // Bit 11 marks UTF-8 names; older tools write CP437, read as latin1
+      name: bytes.toString(flags & 0x800 ? 'utf8' : 'latin1', offset + 46, offset + 46 + nameLength),
+      method: bytes.readUInt16LE(offset + 10),
+      compressedSize: bytes.readUInt32LE(offset + 20),
+      uncompressedSize: bytes.readUInt32LE(offset + 24),
+      localHeaderOffset: bytes.readUInt32LE(offset + 42),
+      encrypted: (flags & 0x1) !== 0,
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Read an entry's contents
+ *
+ * @param data - Archive contents
+ * @param entry - Entry from readZipEntries
+ * @param maxOutputLength - Uncompressed size cap, guards against compression bombs
+ * @returns Entry contents, or null when the entry cannot be read
+ * @throws Error when the entry exceeds the size cap or its data is corrupt
+ */
+export function readZipEntry(data: Uint8Array, entry: ZipEntry, maxOutputLength: number): Buffer | null {
+  const bytes = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  const header = entry.localHeaderOffset;
+
+  if (entry.encrypted || header + 30 > bytes.length || bytes.readUInt32LE(header) !== LOCAL_FILE_HEADER) {
+    return null;
+  }
+
+  // Local name and extra field lengths may differ from the central directory
+  const start = header + 30 + bytes.readUInt16LE(header + 26) + bytes.readUInt16LE(header + 28);
+  const compressed = bytes.subarray(start, start + entry.compressedSize);
+
+  if (entry.method === METHOD_STORED) {
+    if (compressed.length > maxOutputLength) {
+      throw new Error(`${entry.name} exceeds ${maxOutputLength} bytes`);
+    }
+    return compressed;
+  }
+
+  if (entry.method === METHOD_DEFLATED) {
+    return inflateRawSync(compressed, { maxOutputLength });
+  }
+
+  return null;
+}
@@ -12,8 +12,10 @@ import type {
   Skills,
   Project,
 } from '../types/resume.types.js';
+import type { PdfDocumentInfo } from '../types/pdf-metadata.types.js';
 import type { ValidationError, ValidationLimits } from '../types/validation.types.js';
 import { isSafeString } from '../utils/sanitization.js';
+import { parseInlineMarkup } from '../utils/inline-markup.js';
 
 /**
  * Validate required string field
@@ -121,6 +123,24 @@ function validateStringArray(
   return true;
 }
 
+/**
+ * Validate inline emphasis markup (every "**" or "_" opener must be closed)
+ */
+function validateInlineMarkup(
+  value: string,
+  fieldName: string,
+  errors: ValidationError[]
+): void {
+  for (const marker of parseInlineMarkup(value).unclosed) {
+    const escaped = marker.replace(/./g, '\\$&');
+    errors.push({
+      type: 'INVALID_FORMAT',
+      field: fieldName,
+      message: `${fieldName} has a "${marker}" marker without a closing "${marker}" (write ${escaped} for a literal "${marker}")`,
+    });
+  }
+}
+
 /**
  * Validate ContactInfo
  */
@@ -176,7 +196,9 @@ export function validateProfessionalSummary(
   
   const summary = data as Partial<ProfessionalSummary>;
   
-  validateRequiredString(summary.summary, 'summary.summary', limits.maxSummaryLength, errors);
+  if (validateRequiredString(summary.summary, 'summary.summary', limits.maxSummaryLength, errors)) {
+    validateInlineMarkup(summary.summary, 'summary.summary', errors);
+  }
   
   return { isValid: errors.length === 0, errors };
 }
@@ -211,13 +233,15 @@ export function validateWorkExperience(
   validateOptionalString(exp.location, `${prefix}.location`, limits.maxStringLength, errors);
   validateOptionalString(exp.endDate, `${prefix}.endDate`, limits.maxStringLength, errors);
   
-  validateStringArray(
+  if (validateStringArray(
     exp.description,
     `${prefix}.description`,
     limits.maxDescriptionPoints,
     limits.maxStringLength,
     errors
-  );
+  )) {
+    exp.description.forEach((item, i) => validateInlineMarkup(item, `${prefix}.description[${i}]`, errors));
+  }
   
   return { isValid: errors.length === 0, errors };
 }
@@ -343,13 +367,15 @@ export function validateProject(
   
   validateRequiredString(project.name, `${prefix}.name`, limits.maxStringLength, errors);
   
-  validateStringArray(
+  if (validateStringArray(
     project.description,
     `${prefix}.description`,
     limits.maxDescriptionPoints,
     limits.maxStringLength,
     errors
-  );
+  )) {
+    project.description.forEach((item, i) => validateInlineMarkup(item, `${prefix}.description[${i}]`, errors));
+  }
   
   if (project.techStack !== undefined) {
     validateStringArray(
@@ -365,3 +391,41 @@ export function validateProject(
   
   return { isValid: errors.length === 0, errors };
 }
+
+/**
+ * Validate PDF document information overrides
+ */
+export function validatePdfDocumentInfo(
+  data: unknown,
+  limits: ValidationLimits
+): { isValid: boolean; errors: ValidationError[] } {
+  const errors: ValidationError[] = [];
+  
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    errors.push({
+      type: 'INVALID_TYPE',
+      field: 'metadata',
+      message: 'PDF metadata must be an object',
+      value: data,
+    });
+    return { isValid: false, errors };
+  }
+  
+  const info = data as Partial<PdfDocumentInfo>;
+  
+  validateOptionalString(info.title, 'metadata.title', limits.maxStringLength, errors);
+  validateOptionalString(info.author, 'metadata.author', limits.maxStringLength, errors);
+  validateOptionalString(info.subject, 'metadata.subject', limits.maxStringLength, errors);
+  
+  if (info.keywords !== undefined) {
+    validateStringArray(
+      info.keywords,
+      'metadata.keywords',
+      limits.maxSkillsCount,
+      limits.maxStringLength,
+      errors
+    );
+  }
+  
+  return { isValid: errors.length === 0, errors };
+}
@@ -201,6 +201,16 @@ export function validateResume(
     }
   }
   
+  // Validate text direction (optional)
+  if (resume.direction !== undefined && resume.direction !== 'ltr' && resume.direction !== 'rtl') {
+    errors.push({
+      type: 'INVALID_FORMAT',
+      field: 'direction',
+      message: 'Text direction must be "ltr" or "rtl"',
+      value: resume.direction,
+    });
+  }
+  
   return {
     isValid: errors.length === 0,
     errors,
@@ -0,0 +1,190 @@
+/**
+ * XML Schema Validator
+ *
+ * Checks an XML document against a local structural schema
+ * (element order, occurrence counts, attributes and text values).
+ */
+
+import type { ValidationError, ValidationResult } from '../types/validation.types.js';
+import type { XmlSchema, XmlValueRule } from '../types/xml-schema.types.js';
+import { parseXml, type XmlElement } from '../utils/xml.js';
+
+/**
+ * Check a value against a value rule
+ *
+ * @param value - Text content or attribute value
+ * @param rule - Value rule from the schema
+ * @returns Error message, or null when the value is allowed
+ */
+export function checkXmlValue(value: string, rule: XmlValueRule): string | null {
+  if (rule.maxLength !== undefined && value.length > rule.maxLength) {
+    return `exceeds maximum length of ${rule.maxLength}`;
+  }
+  if (rule.values && !rule.values.includes(value)) {
+    return `must be one of: ${rule.values.join(', ')}`;
+  }
+  if (rule.pattern && !rule.pattern.test(value)) {
+    return 'has an invalid format';
+  }
+  return null;
+}
+
+/**
+ * Record a value rule violation
+ */
+function validateValue(
+  value: string,
+  rule: XmlValueRule,
+  field: string,
+  errors: ValidationError[]
+): void {
+  const problem = checkXmlValue(value, rule);
+  if (problem) {
+    errors.push({
+      type: problem.startsWith('exceeds') ? 'STRING_TOO_LONG' : 'INVALID_FORMAT',
+      field,
+      message: `${field} ${problem}`,
+      value,
+    });
+  }
+}
+
+/**
+ * Validate an element and its descendants
+ */
+function validateElement(
+  element: XmlElement,
+  path: string,
+  schema: XmlSchema,
+  errors: ValidationError[]
+): void {
+  const rule = schema.elements[element.name];
+  if (!rule) {
+    errors.push({
+      type: 'INVALID_FORMAT',
+      field: path,
+      message: `${path} is not declared in the ${schema.name} schema`,
+    });
+    return;
+  }
+
+  // Attributes
+  const declared = rule.attributes ?? {};
+  for (const [name, attributeRule] of Object.entries(declared)) {
+    const value = element.attributes[name];
+    if (value === undefined) {
+      if (attributeRule.required) {
+        errors.push({
+          type: 'REQUIRED_FIELD_MISSING',
+          field: `${path}@${name}`,
+          message: `${path} is missing required attribute ${name}`,
+        });
+      }
+      continue;
+    }
+    validateValue(value, attributeRule, `${path}@${name}`, errors);
+  }
+  for (const name of Object.keys(element.attributes)) {
+    if (!(name in declared)) {
+      errors.push({
+        type: 'INVALID_FORMAT',
+        field: `${path}@${name}`,
+        message: `${path} has undeclared attribute ${name}`,
+      });
+    }
+  }
+
+  // Text-only content
+  if (rule.text) {
+    if (element.children.length > 0) {
+      errors.push({
+        type: 'INVALID_TYPE',
+        field: path,
+        message: `${path} must contain text only`,
+      });
+      return;
+    }
+    validateValue(element.text ?? '', rule.text, path, errors);
+    return;
+  }
+
+  if (element.text !== undefined && element.text.trim() !== '') {
+    errors.push({
+      type: 'INVALID_TYPE',
+      field: path,
+      message: `${path} must contain elements only`,
+    });
+  }
+
+  // Child sequence: each slot consumes its run of matching elements in order
+  let index = 0;
+  for (const slot of rule.sequence ?? []) {
+    const minOccurs = slot.minOccurs ?? 1;
+    const maxOccurs = slot.maxOccurs ?? 1;
+    let count = 0;
+
+    while (
+      index < element.children.length &&
+      element.children[index].name === slot.name &&
+      count < maxOccurs
+    ) {
+      const childPath = maxOccurs > 1 ? `${path}/${slot.name}[${count + 1}]` : `${path}/${slot.name}`;
+      validateElement(element.children[index], childPath, schema, errors);
+      count++;
+      index++;
+    }
+
+    if (count < minOccurs) {
+      errors.push({
+        type: 'REQUIRED_FIELD_MISSING',
+        field: `${path}/${slot.name}`,
+        message: `${path} requires ${minOccurs === 1 ? 'a' : `at least ${minOccurs}`} ${slot.name} element${minOccurs === 1 ? '' : 's'}`,
+      });
+    }
+  }
+
+  if (index < element.children.length) {
+    errors.push({
+      type: 'INVALID_FORMAT',
+      field: `${path}/${element.children[index].name}`,
+      message: `${path} has unexpected element ${element.children[index].name} at position ${index + 1}`,
+    });
+  }
+}
+
+/**
+ * Validate an XML document against a local schema
+ *
+ * @param xml - XML document text
+ * @param schema - Structural schema
+ * @returns Validation result; field paths use element names (e.g. 'Candidate/CandidatePerson')
+ */
+export function validateXml(xml: string, schema: XmlSchema): ValidationResult {
+  let root: XmlElement;
+  try {
+    root = parseXml(xml);
+  } catch (error) {
+    return {
+      isValid: false,
+      errors: [{
+        type: 'INVALID_FORMAT',
+        field: schema.root,
+        message: `XML is not well-formed: ${error instanceof Error ? error.message : 'unknown error'}`,
+      }],
+    };
+  }
+
+  const errors: ValidationError[] = [];
+
+  if (root.name !== schema.root) {
+    errors.push({
+      type: 'INVALID_FORMAT',
+      field: root.name,
+      message: `Root element must be ${schema.root}, found ${root.name}`,
+    });
+  } else {
+    validateElement(root, root.name, schema, errors);
+  }
+
+  return { isValid: errors.length === 0, errors };
+}
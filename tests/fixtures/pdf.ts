@@ -0,0 +1,43 @@
+/**
+ * Minimal PDF writer for building test documents
+ */
+
+/**
+ * Build a PDF with one page per content stream
+ * Pages share a Helvetica font resource named /F1.
+ *
+ * @param pages - Uncompressed content stream of each page
+ * @returns PDF file contents
+ */
+export function buildPdf(pages: string[]): Uint8Array {
+  const fontNumber = 3;
+  const firstPageNumber = 4;
+  const pageNumbers = pages.map((_, index) => firstPageNumber + index * 2);
+
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageNumbers.map(n => `${n} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+  ];
+  pages.forEach((content, index) => {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] ` +
+        `/Resources << /Font << /F1 ${fontNumber} 0 R >> >> /Contents ${pageNumbers[index] + 1} 0 R >>`,
+      `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`
+    );
+  });
+
+  let pdf = '%PDF-1.7\n';
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return new Uint8Array(Buffer.from(pdf, 'latin1'));
+}
@@ -0,0 +1,13 @@
+/**
+ * Resume fixtures shared by the tests
+ */
+
+import { readFileSync } from 'fs';
+import type { Resume } from '../../src/types/resume.types.js';
+
+/**
+ * Load a fresh copy of the demo resume
+ */
+export function loadDemoResume(): Resume {
+  return JSON.parse(readFileSync(new URL('../../demo-resume.json', import.meta.url), 'utf8'));
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { importLinkedInExport } from '../../src/importers/linkedin-importer.js';
+import { buildZip, type ZipFixtureFile } from '../fixtures/zip.js';
+
+const PROFILE = [
+  'First Name,Last Name,Maiden Name,Address,Birth Date,Headline,Summary,Industry,Zip Code,Geo Location,Twitter Handles,Websites,Instant Messengers',
+  'Jane,Smith,,,,Senior Engineer,"Builds reliable systems.",Software,,"Berlin, Germany",[janesmith],"[PERSONAL:https://janesmith.dev,OTHER:https://github.com/janesmith]",',
+].join('\n');
+
+const POSITIONS = [
+  'Company Name,Title,Description,Location,Started On,Finished On',
+  'Acme,Engineer,"- Shipped the API\n- Cut latency by 40%","Berlin, Germany",Jan 2020,',
+  'Initech,Intern,,,Jun 2018,Aug 2019',
+].join('\n');
+
+const EDUCATION = [
+  'School Name,Start Date,End Date,Notes,Degree Name,Activities',
+  'TU Berlin,2014,2018,,B.Sc. Computer Science,Chess club',
+].join('\n');
+
+const EMAILS = [
+  'Email Address,Confirmed,Primary,Updated On',
+  'old@example.com,Yes,No,',
+  'jane@example.com,Yes,Yes,',
+].join('\n');
+
+const PHONES = 'Extension,Number,Type\n,+49 30 1234567,Mobile\n';
+
+function exportArchive(overrides: Partial<Record<string, string>> = {}): Buffer {
+  const files: Record<string, string | undefined> = {
+    'Profile.csv': PROFILE,
+    'Positions.csv': POSITIONS,
+    'Education.csv': EDUCATION,
+    'Skills.csv': 'Name\nTypeScript\nGo\n',
+    'Projects.csv': 'Title,Description,Url,Started On,Finished On\nQuickCV,Resume builder,https://quickcv.dev,,\n',
+    'Email Addresses.csv': EMAILS,
+    'PhoneNumbers.csv': PHONES,
+    ...overrides,
+  };
+  const entries: ZipFixtureFile[] = Object.entries(files)
+    .filter((entry): entry is [string, string] => entry[1] !== undefined)
+    .map(([name, content]) => ({ name: `Basic_LinkedInDataExport/${name}`, content }));
+  return buildZip(entries);
+}
+
+describe('importLinkedInExport', () => {
+  it('imports contact, experience, education, skills and projects', () => {
+    const result = importLinkedInExport(exportArchive());
+    expect(result?.validation.isValid).toBe(true);
+
+    const resume = result!.resume;
+    expect(resume.contact).toEqual({
+      fullName: 'Jane Smith',
+      jobTitle: 'Senior Engineer',
+      email: 'jane@example.com',
+      phone: '+49 30 1234567',
+      location: 'Berlin, Germany',
+      twitter: '@janesmith',
+      portfolio: 'https://janesmith.dev',
+      github: 'https://github.com/janesmith',
+    });
+    expect(resume.summary.summary).toBe('Builds reliable systems.');
+    expect(resume.experience).toEqual([
+      {
+        company: 'Acme',
+        role: 'Engineer',
+        location: 'Berlin, Germany',
+        startDate: '01/2020',
+        description: ['Shipped the API', 'Cut latency by 40%'],
+      },
+      { company: 'Initech', role: 'Intern', startDate: '06/2018', endDate: '08/2019', description: [] },
+    ]);
+    expect(resume.education).toEqual([
+      { institution: 'TU Berlin', degree: 'B.Sc. Computer Science', startDate: '2014', endDate: '2018' },
+    ]);
+    expect(resume.skills.skills).toEqual(['TypeScript', 'Go']);
+    expect(resume.projects).toEqual([{ name: 'QuickCV', description: ['Resume builder'], link: 'https://quickcv.dev' }]);
+  });
+
+  it('warns about fields it cannot import', () => {
+    const { warnings } = importLinkedInExport(exportArchive())!;
+    expect(warnings.map(warning => warning.field)).toEqual(['Profile.csv.Industry', 'Education.csv[0].Activities']);
+  });
+
+  it('matches website hosts exactly', () => {
+    const profile = PROFILE.replace(
+      '"[PERSONAL:https://janesmith.dev,OTHER:https://github.com/janesmith]"',
+      '"[PERSONAL:https://netflix.com/jane,OTHER:https://www.linkedin.com/in/jane,BLOG:https://notgithub.com/jane]"'
+    );
+    const { resume, warnings } = importLinkedInExport(exportArchive({ 'Profile.csv': profile }))!;
+    expect(resume.contact.portfolio).toBe('https://netflix.com/jane');
+    expect(resume.contact.linkedin).toBe('https://www.linkedin.com/in/jane');
+    expect(resume.contact.github).toBeUndefined();
+    expect(warnings.map(warning => warning.message)).toContain(
+      'Website https://notgithub.com/jane has no free contact field and was not imported'
+    );
+  });
+
+  it('leaves missing files empty and reports them', () => {
+    const result = importLinkedInExport(exportArchive({ 'Email Addresses.csv': undefined, 'Skills.csv': undefined }))!;
+    expect(result.resume.contact.email).toBe('');
+    expect(result.resume.skills.skills).toEqual([]);
+    expect(result.validation.isValid).toBe(false);
+    expect(result.warnings.map(warning => warning.field)).toEqual(
+      expect.arrayContaining(['Email Addresses.csv', 'Skills.csv'])
+    );
+  });
+
+  it('returns null for archives without LinkedIn files and for non-ZIP data', () => {
+    expect(importLinkedInExport(buildZip([{ name: 'notes.txt', content: 'hello' }]))).toBeNull();
+    expect(importLinkedInExport(Buffer.from('First Name,Last Name\nJane,Smith\n'))).toBeNull();
+  });
+});
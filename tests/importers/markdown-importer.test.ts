@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { parseMarkdownResume } from '../../src/importers/markdown-importer.js';
+import { renderResumeToMarkdown } from '../../src/renderer/markdown-renderer.js';
+import { loadDemoResume } from '../fixtures/resume.js';
+
+describe('parseMarkdownResume', () => {
+  it('keeps emphasis and escaped markers through a Markdown round trip', () => {
+    const resume = loadDemoResume();
+    const bullets = ['Wrapped \\*\\*kwargs handlers', 'Cut **latency** by _40%_ in C:\\Users', 'Used snake_case and a \\* b'];
+    resume.summary.summary = 'Likes \\*\\*kwargs and **Go**';
+    resume.experience[0].description = bullets;
+
+    const { resume: imported } = parseMarkdownResume(renderResumeToMarkdown(resume));
+
+    expect(imported?.summary.summary).toBe(resume.summary.summary);
+    expect(imported?.experience[0].description).toEqual(bullets);
+  });
+});
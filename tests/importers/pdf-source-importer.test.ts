@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { importResumeFromPdf } from '../../src/importers/pdf-source-importer.js';
+import { renderDocumentToPDF } from '../../src/renderer/pdf-renderer.js';
+import { transformResumeToDocumentWithOrder } from '../../src/transformers/resume-to-document.transformer.js';
+import { loadDemoResume } from '../fixtures/resume.js';
+import { buildPdf } from '../fixtures/pdf.js';
+
+describe('importResumeFromPdf', () => {
+  const resume = loadDemoResume();
+  const document = transformResumeToDocumentWithOrder(resume);
+
+  it('restores the attached resume and render settings', async () => {
+    const sectionOrder = ['contact', 'experience', 'skills', 'education', 'projects', 'summary'];
+    const pdf = await renderDocumentToPDF(document, 'serif', 'compact', {
+      source: { resume, sectionOrder },
+      pageSize: 'a4',
+      runningHeader: false,
+      textAlign: 'justify',
+      hyphenate: true,
+    });
+    const result = importResumeFromPdf(new Uint8Array(pdf));
+
+    expect(result?.validation.isValid).toBe(true);
+    expect(result?.warnings).toEqual([]);
+    expect(result?.resume.contact).toEqual(resume.contact);
+    expect(result?.resume.experience).toEqual(resume.experience);
+    expect(result).toMatchObject({
+      sectionOrder,
+      fontProfile: 'serif',
+      densityPreset: 'compact',
+      pageSize: 'a4',
+      runningHeader: false,
+      textAlign: 'justify',
+      hyphenate: true,
+    });
+  });
+
+  it('returns null for PDFs without QuickCV data', async () => {
+    const pdf = await renderDocumentToPDF(document);
+    expect(importResumeFromPdf(new Uint8Array(pdf))).toBeNull();
+    expect(importResumeFromPdf(buildPdf(['BT /F1 10 Tf (Resume) Tj ET']))).toBeNull();
+    expect(importResumeFromPdf(new TextEncoder().encode('not a pdf'))).toBeNull();
+  });
+});
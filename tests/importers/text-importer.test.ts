@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { parseResumeText } from '../../src/importers/text-importer.js';
+
+const RESUME_TEXT = `Jane Doe
+Senior Software Engineer
+Berlin, Germany | jane@example.com | +49 30 1234567
+linkedin.com/in/janedoe | github.com/janedoe
+
+Summary
+Backend engineer focused on reliable distributed systems.
+
+Experience
+Software Engineer, Acme GmbH
+Jan 2020 - Present
+Berlin, Germany
+- Built things
+- Shipped more
+
+Backend Developer at Initech
+2017 - 2019
+Boston, MA
+- Wrote code
+
+Education
+B.Sc. Computer Science, Technical University of Munich
+2012 - 2016
+Master of Science in Informatics, Stanford University
+2016 - 2018
+
+Technical Skills
+TypeScript, Go, PostgreSQL
+
+Projects
+QuickCV
+- Resume builder
+`;
+
+describe('parseResumeText', () => {
+  const result = parseResumeText(RESUME_TEXT);
+
+  it('reads the contact block under the name', () => {
+    expect(result.resume.contact).toEqual({
+      fullName: 'Jane Doe',
+      jobTitle: 'Senior Software Engineer',
+      email: 'jane@example.com',
+      phone: '+49 30 1234567',
+      location: 'Berlin, Germany',
+      linkedin: 'linkedin.com/in/janedoe',
+      github: 'github.com/janedoe',
+    });
+  });
+
+  it('splits experience entries at date ranges', () => {
+    expect(result.resume.experience).toEqual([
+      {
+        company: 'Acme GmbH',
+        role: 'Software Engineer',
+        location: 'Berlin, Germany',
+        startDate: '01/2020',
+        description: ['Built things', 'Shipped more'],
+      },
+      {
+        company: 'Initech',
+        role: 'Backend Developer',
+        location: 'Boston, MA',
+        startDate: '2017',
+        endDate: '2019',
+        description: ['Wrote code'],
+      },
+    ]);
+  });
+
+  it('separates the degree from the institution', () => {
+    expect(result.resume.education).toEqual([
+      { institution: 'Technical University of Munich', degree: 'B.Sc. Computer Science', startDate: '2012', endDate: '2016' },
+      {
+        institution: 'Stanford University',
+        degree: 'Master of Science',
+        fieldOfStudy: 'Informatics',
+        startDate: '2016',
+        endDate: '2018',
+      },
+    ]);
+  });
+
+  it('matches headings by synonym and keeps their order', () => {
+    expect(result.resume.summary.summary).toBe('Backend engineer focused on reliable distributed systems.');
+    expect(result.resume.skills.skills).toEqual(['TypeScript', 'Go', 'PostgreSQL']);
+    expect(result.resume.projects).toEqual([{ name: 'QuickCV', description: ['Resume builder'] }]);
+    expect(result.sectionOrder).toEqual(['contact', 'summary', 'experience', 'education', 'skills', 'projects']);
+    expect(result.validation.isValid).toBe(true);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('annotates fields with confidence', () => {
+    const confidence = Object.fromEntries(result.confidence.map(entry => [entry.field, entry.confidence]));
+    expect(confidence['contact.email']).toBe('high');
+    expect(confidence['contact.location']).toBe('medium');
+    expect(confidence['experience[0].startDate']).toBe('high');
+    expect(confidence['experience[1].startDate']).toBe('medium');
+  });
+
+  it.each([
+    ['City, Country', 'Lisbon, Portugal'],
+    ['City, State', 'New York, NY'],
+    ['City, Region, Country', 'Porto Alegre, Rio Grande do Sul, Brazil'],
+  ])('recognizes a %s location', (_, location) => {
+    expect(parseResumeText(`Jane Doe\n${location}\njane@example.com\n`).resume.contact.location).toBe(location);
+  });
+
+  it('does not take a company or a role for a location', () => {
+    const { resume } = parseResumeText('Jane Doe\nAcme, Inc\nEngineer, Platform\njane@example.com\n');
+    expect(resume.contact.location).toBe('');
+  });
+
+  it('reports text without recognizable headings', () => {
+    const { resume, sectionOrder, warnings, validation } = parseResumeText('');
+    expect(resume.contact.fullName).toBe('');
+    expect(sectionOrder).toEqual(['contact']);
+    expect(warnings.map(warning => warning.field)).toEqual(['sections']);
+    expect(validation.isValid).toBe(false);
+  });
+});
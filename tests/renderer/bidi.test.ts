@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { hasRtlText, orderRunsVisually, splitDirectionalRuns } from '../../src/renderer/bidi.js';
+
+/**
+ * Text of each run
+ */
+function runTexts(text: string, runs: { start: number; end: number }[]): string[] {
+  return runs.map(run => text.slice(run.start, run.end));
+}
+
+describe('hasRtlText', () => {
+  it('detects Hebrew, Arabic and presentation forms', () => {
+    expect(hasRtlText('Software Engineer')).toBe(false);
+    expect(hasRtlText('מהנדס תוכנה')).toBe(true);
+    expect(hasRtlText('مهندس برمجيات')).toBe(true);
+    expect(hasRtlText('ﭐ')).toBe(true);
+  });
+});
+
+describe('splitDirectionalRuns', () => {
+  it('keeps a single-direction line in one run', () => {
+    expect(splitDirectionalRuns('Hello world', false)).toEqual([{ start: 0, end: 11, rtl: false }]);
+    expect(splitDirectionalRuns('שלום עולם', true)).toEqual([{ start: 0, end: 9, rtl: true }]);
+    expect(splitDirectionalRuns('', false)).toEqual([]);
+  });
+
+  it('gives neutrals between runs of different direction the base direction', () => {
+    const text = 'Built שלום API';
+    const runs = splitDirectionalRuns(text, false);
+    expect(runTexts(text, runs)).toEqual(['Built ', 'שלום', ' API']);
+    expect(runs.map(run => run.rtl)).toEqual([false, true, false]);
+  });
+
+  it('treats digits as left-to-right', () => {
+    const text = 'מהנדס תוכנה at Google 2020';
+    const runs = splitDirectionalRuns(text, true);
+    expect(runTexts(text, runs)).toEqual(['מהנדס תוכנה ', 'at Google 2020']);
+    expect(runs.map(run => run.rtl)).toEqual([true, false]);
+  });
+});
+
+describe('orderRunsVisually', () => {
+  it('leaves left-to-right runs in place in a left-to-right line', () => {
+    const text = 'Engineer (מהנדס)';
+    const runs = splitDirectionalRuns(text, false);
+    expect(runTexts(text, orderRunsVisually(runs, false))).toEqual(['Engineer (', 'מהנדס', ')']);
+  });
+
+  it('reverses the run order of a right-to-left line', () => {
+    const text = 'עברית one two עוד';
+    const runs = splitDirectionalRuns(text, true);
+    expect(runTexts(text, orderRunsVisually(runs, true))).toEqual([' עוד', 'one two', 'עברית ']);
+  });
+});
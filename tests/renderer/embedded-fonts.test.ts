@@ -0,0 +1,40 @@
+import { readFileSync } from 'fs';
+import { createRequire } from 'module';
+import { describe, expect, it } from 'vitest';
+import { decodeEmbeddedFonts, findMissingGlyphs } from '../../src/renderer/embedded-fonts.js';
+
+const require = createRequire(import.meta.url);
+const sans = readFileSync(require.resolve('dejavu-fonts-ttf/ttf/DejaVuSans.ttf'));
+const sansBold = readFileSync(require.resolve('dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf'));
+
+describe('decodeEmbeddedFonts', () => {
+  it('decodes base64 font files', () => {
+    const fonts = decodeEmbeddedFonts({ main: sans.toString('base64'), bold: sansBold.toString('base64') });
+    expect(fonts?.main).toEqual(sans);
+    expect(fonts?.bold).toEqual(sansBold);
+    expect(fonts?.italic).toBeUndefined();
+  });
+
+  it.each([
+    ['a string', 'font'],
+    ['an array', [sans.toString('base64')]],
+    ['a missing bold face', { main: sans.toString('base64') }],
+    ['an unknown face', { main: sans.toString('base64'), bold: sansBold.toString('base64'), light: sans.toString('base64') }],
+    ['invalid base64', { main: '!!not base64!!', bold: sansBold.toString('base64') }],
+    ['a file that is not a font', { main: Buffer.from('%PDF-1.7').toString('base64'), bold: sansBold.toString('base64') }],
+  ])('rejects %s', (_, value) => {
+    expect(decodeEmbeddedFonts(value)).toBeNull();
+  });
+});
+
+describe('findMissingGlyphs', () => {
+  it('lists characters the fonts cannot draw', () => {
+    expect(findMissingGlyphs('Jane Smith — Müller')).toEqual([]);
+    expect(findMissingGlyphs('王小明 Jane 王')).toEqual(['王', '小', '明']);
+  });
+
+  it('checks user-supplied fonts instead of the bundled ones', () => {
+    expect(findMissingGlyphs('שלום', 'serif')).toEqual(['ש', 'ל', 'ו', 'ם']);
+    expect(findMissingGlyphs('שלום', 'serif', { main: sans, bold: sansBold })).toEqual([]);
+  });
+});
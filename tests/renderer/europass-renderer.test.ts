@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { renderResumeToEuropassXml } from '../../src/renderer/europass-renderer.js';
+import { parseXml } from '../../src/utils/xml.js';
+import { loadDemoResume } from '../fixtures/resume.js';
+
+describe('renderResumeToEuropassXml', () => {
+  it('exports the demo resume as well-formed XML the bundled schema accepts', () => {
+    const { xml, validation } = renderResumeToEuropassXml(loadDemoResume());
+    expect(validation.errors).toEqual([]);
+    expect(parseXml(xml).name).toBe('Candidate');
+  });
+
+  it('escapes resume text', () => {
+    const resume = loadDemoResume();
+    resume.experience[0].company = 'Smith & <Sons>';
+    const { xml, validation } = renderResumeToEuropassXml(resume);
+    expect(validation.isValid).toBe(true);
+    expect(xml).toContain('<hr:OrganizationName>Smith &amp; &lt;Sons&gt;</hr:OrganizationName>');
+  });
+});
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { findHyphenationPoints } from '../../src/renderer/hyphenation.js';
+
+describe('findHyphenationPoints', () => {
+  it('finds the break points of plain words', () => {
+    expect(findHyphenationPoints('productivity')).toEqual([3, 6, 9, 10]);
+    expect(findHyphenationPoints('infrastructure')).toEqual([2, 5, 10]);
+  });
+
+  it('offsets break points past leading punctuation', () => {
+    expect(findHyphenationPoints('(managed),')).toEqual([4]);
+  });
+
+  it.each(['API', 'a', '2020', 'co-operate', "don't", 'janesmith.dev'])('leaves %s unbroken', word => {
+    expect(findHyphenationPoints(word)).toEqual([]);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { renderDocumentToPDFFitted } from '../../src/renderer/pdf-fit.js';
+import type { Document } from '../../src/types/document.types.js';
+
+/**
+ * Document of short paragraphs
+ */
+function paragraphs(count: number): Document {
+  return {
+    elements: Array.from({ length: count }, (_, index) => ({ type: 'PARAGRAPH', text: `Paragraph ${index} with text.` })),
+  };
+}
+
+const margins = (points: number) => ({ top: points, right: points, bottom: points, left: points });
+
+describe('renderDocumentToPDFFitted', () => {
+  it('keeps the requested settings when the document already fits', async () => {
+    const result = await renderDocumentToPDFFitted(paragraphs(10), 1);
+    expect(result.fitted).toBe(true);
+    expect(result.settings).toEqual({ densityPreset: 'normal', spacingScale: 1, margins: margins(54) });
+  });
+
+  it('tries wider margins again at each denser preset', async () => {
+    const result = await renderDocumentToPDFFitted(paragraphs(43), 1);
+    expect(result.pageCount).toBe(1);
+    expect(result.settings).toEqual({ densityPreset: 'ultra-compact', spacingScale: 1, margins: margins(45) });
+  });
+
+  it('never loosens the requested density or margins', async () => {
+    const result = await renderDocumentToPDFFitted(paragraphs(10), 1, 'sans', 'compact', { margins: margins(30) });
+    expect(result.settings).toEqual({ densityPreset: 'compact', spacingScale: 1, margins: margins(30) });
+  });
+
+  it('returns the most compact render when nothing fits', async () => {
+    const result = await renderDocumentToPDFFitted(paragraphs(70), 1);
+    expect(result.fitted).toBe(false);
+    expect(result.pageCount).toBe(2);
+    expect(result.settings).toEqual({ densityPreset: 'ultra-compact', spacingScale: 0.7, margins: margins(36) });
+  });
+});
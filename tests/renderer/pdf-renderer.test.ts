@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { renderDocumentToPDFWithMetadata } from '../../src/renderer/pdf-renderer.js';
+import { extractPdfText } from '../../src/renderer/pdf-text-extractor.js';
+import { openPdf, readStream } from '../../src/utils/pdf-objects.js';
+import { transformResumeToDocumentWithOrder } from '../../src/transformers/resume-to-document.transformer.js';
+import type { Document } from '../../src/types/document.types.js';
+import { loadDemoResume } from '../fixtures/resume.js';
+
+/**
+ * Inflated data of every stream in a PDF
+ */
+function readStreams(pdf: Buffer): string {
+  const source = openPdf(new Uint8Array(pdf));
+  if (!source) return '';
+  return [...source.text.matchAll(/(\d+) 0 obj/g)]
+    .map(match => readStream(source, parseInt(match[1], 10))?.toString('latin1') ?? '')
+    .join('\n');
+}
+
+describe('renderDocumentToPDFWithMetadata', () => {
+  const document = transformResumeToDocumentWithOrder(loadDemoResume());
+
+  it('adds the name and page number to continuation pages', async () => {
+    const { buffer, pageCount } = await renderDocumentToPDFWithMetadata(document);
+    const pages = extractPdfText(new Uint8Array(buffer));
+
+    expect(pageCount).toBe(2);
+    expect(pages).toHaveLength(2);
+    expect(pages?.[0]).not.toContain('Page 1 of 2');
+    expect(pages?.[1].split('\n').at(-1)).toBe('Jane Smith Page 2 of 2');
+  });
+
+  it('leaves the header out when running headers are off', async () => {
+    const { buffer } = await renderDocumentToPDFWithMetadata(document, 'sans', 'normal', { runningHeader: false });
+    expect(extractPdfText(new Uint8Array(buffer))?.join('\n')).not.toContain('Page 2 of 2');
+  });
+
+  it('keeps the sides of a row apart as words', async () => {
+    const experience = transformResumeToDocumentWithOrder(loadDemoResume(), ['experience']);
+    const { buffer } = await renderDocumentToPDFWithMetadata(experience);
+    const lines = extractPdfText(new Uint8Array(buffer))?.[0].split('\n');
+
+    expect(lines).toContain('Senior Software Engineer — TechCorp Inc 2021-03 - Present');
+    expect(lines).toContain('Software Engineer — StartupXYZ 2019-01 - 2021-02');
+  });
+
+  it('writes right-to-left text to the text layer in logical order', async () => {
+    const rtl: Document = {
+      direction: 'rtl',
+      elements: [
+        { type: 'HEADING', level: 1, text: 'דנה כהן' },
+        { type: 'PARAGRAPH', text: 'מהנדסת תוכנה ב-Google מאז 2020' },
+        { type: 'ROW', left: 'מהנדסת — Acme', right: '2020 - 2023' },
+        { type: 'TEXT_LINE', text: 'تطوير البرمجيات' },
+      ],
+    };
+    const { buffer } = await renderDocumentToPDFWithMetadata(rtl);
+
+    expect(extractPdfText(new Uint8Array(buffer))).toEqual([
+      'דנה כהן\nמהנדסת תוכנה ב-Google מאז 2020\nמהנדסת — Acme 2020 - 2023\nتطوير البرمجيات',
+    ]);
+  });
+
+  it('reads hyphenated words whole and draws their hyphens as layout artifacts', async () => {
+    const text =
+      'Improved developer productivity across infrastructure engineering organizations through ' +
+      'comprehensive internationalization automation and extraordinarily maintainable microservices';
+    const paragraph: Document = { elements: [{ type: 'PARAGRAPH', text }] };
+    const { buffer } = await renderDocumentToPDFWithMetadata(paragraph, 'sans', 'normal', {
+      margins: { left: 200, right: 200 },
+      textAlign: 'justify',
+      hyphenate: true,
+    });
+    const streams = readStreams(buffer);
+    const pageText = extractPdfText(new Uint8Array(buffer))?.[0] ?? '';
+
+    expect(streams).toMatch(/\/Artifact <<\s*\/Type \/Layout\s*>> BDC/);
+    expect(streams).toContain('/ActualText (infrastructure)');
+    expect(pageText.split(/\s+/).join(' ')).toBe(text);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { extractPdfText } from '../../src/renderer/pdf-text-extractor.js';
+import { buildPdf } from '../fixtures/pdf.js';
+
+/**
+ * Content stream showing each line at its own baseline
+ */
+function textLines(...lines: string[]): string {
+  return lines.map((line, index) => `BT 1 0 0 1 72 ${700 - index * 14} Tm /F1 10 Tf ${line} ET`).join('\n');
+}
+
+describe('extractPdfText', () => {
+  it('reads pages in order and breaks lines at new baselines', () => {
+    const pdf = buildPdf([textLines('(First line) Tj', '[(Second) -250 ( line)] TJ'), textLines('<50616765> Tj')]);
+    expect(extractPdfText(pdf)).toEqual(['First line\nSecond line', 'Page']);
+  });
+
+  it('joins runs that share a baseline', () => {
+    const pdf = buildPdf(['BT 1 0 0 1 72 700 Tm /F1 10 Tf (Role) Tj 1 0 0 1 400 700 Tm (2020) Tj ET']);
+    expect(extractPdfText(pdf)).toEqual(['Role2020']);
+  });
+
+  it('decodes WinAnsi codes outside Latin-1', () => {
+    const pdf = buildPdf([textLines('(\\200 10 \\226 caf\\351) Tj')]);
+    expect(extractPdfText(pdf)).toEqual(['€ 10 – café']);
+  });
+
+  it('reads marked content with ActualText as that text', () => {
+    const pdf = buildPdf([
+      textLines('/Span << /ActualText <FEFF05E905DC05D505DD> >> BDC (\\(glyphs\\)) Tj EMC ( ok) Tj'),
+    ]);
+    expect(extractPdfText(pdf)).toEqual(['שלום ok']);
+  });
+
+  it('skips layout artifacts and keeps other marked content', () => {
+    const pdf = buildPdf([
+      textLines(
+        '/P << /MCID 0 >> BDC (pro) Tj EMC /Artifact << /Type /Layout >> BDC (-) Tj EMC',
+        '/P << /MCID 1 >> BDC (ductive) Tj EMC /Artifact BMC ( kept) Tj EMC'
+      ),
+    ]);
+    expect(extractPdfText(pdf)).toEqual(['pro\nductive kept']);
+  });
+
+  it('returns null for data that is not a PDF', () => {
+    expect(extractPdfText(new TextEncoder().encode('not a pdf'))).toBeNull();
+    expect(extractPdfText(new TextEncoder().encode('%PDF-1.7\n%%EOF\n'))).toBeNull();
+  });
+});
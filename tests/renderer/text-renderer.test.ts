@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { renderDocumentToText } from '../../src/renderer/text-renderer.js';
+import type { Document } from '../../src/types/document.types.js';
+
+describe('renderDocumentToText', () => {
+  it('sets the right side of a row flush against the wrap column', () => {
+    const document: Document = { elements: [{ type: 'ROW', left: 'Engineer — Acme', right: '2020 - Present' }] };
+    expect(renderDocumentToText(document, { wrapColumn: 40 })).toBe(
+      'Engineer — Acme           2020 - Present\n'
+    );
+  });
+
+  it('moves the right side of a long row to its own line', () => {
+    const document: Document = {
+      elements: [{ type: 'ROW', left: 'Principal Platform Engineer — Acme', right: '2020 - Present' }],
+    };
+    expect(renderDocumentToText(document, { wrapColumn: 40 })).toBe(
+      'Principal Platform Engineer — Acme\n2020 - Present\n'
+    );
+  });
+});
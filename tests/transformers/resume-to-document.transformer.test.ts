@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { transformResumeToDocumentWithOrder } from '../../src/transformers/resume-to-document.transformer.js';
+import { loadDemoResume } from '../fixtures/resume.js';
+
+describe('transformResumeToDocumentWithOrder', () => {
+  it('puts entry headings and dates on one row', () => {
+    const { elements } = transformResumeToDocumentWithOrder(loadDemoResume(), ['experience', 'education']);
+    const rows = elements.filter(element => element.type === 'ROW');
+
+    expect(rows).toEqual([
+      { type: 'ROW', left: 'Senior Software Engineer — TechCorp Inc', right: '2021-03 - Present' },
+      { type: 'ROW', left: 'Software Engineer — StartupXYZ', right: '2019-01 - 2021-02' },
+      { type: 'ROW', left: 'Junior Developer — Digital Agency Co', right: '2017-06 - 2018-12' },
+      {
+        type: 'ROW',
+        left: 'Bachelor of Science in Computer Science — University of California, Berkeley',
+        right: '2013-09 - 2017-05',
+      },
+    ]);
+  });
+
+  it('keeps the location on its own line under the row', () => {
+    const { elements } = transformResumeToDocumentWithOrder(loadDemoResume(), ['experience']);
+    const rowIndex = elements.findIndex(element => element.type === 'ROW');
+    expect(elements[rowIndex + 1]).toEqual({ type: 'TEXT_LINE', text: 'San Francisco, CA' });
+  });
+});
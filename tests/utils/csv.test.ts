@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, parseCsvRecords } from '../../src/utils/csv.js';
+
+describe('parseCsv', () => {
+  it('splits rows and fields', () => {
+    expect(parseCsv('a,b,c\n1,2,3\n')).toEqual([['a', 'b', 'c'], ['1', '2', '3']]);
+  });
+
+  it('reads quoted fields with commas, escaped quotes and line breaks', () => {
+    expect(parseCsv('"Smith, Jane","Says ""hi""","line 1\nline 2"')).toEqual([
+      ['Smith, Jane', 'Says "hi"', 'line 1\nline 2'],
+    ]);
+  });
+
+  it('accepts CRLF and CR line ends, skips blank lines and a byte-order mark', () => {
+    expect(parseCsv('\uFEFFa,b\r\n\r\n1,2\r3,4')).toEqual([['a', 'b'], ['1', '2'], ['3', '4']]);
+  });
+
+  it('keeps empty fields', () => {
+    expect(parseCsv(',x,\n')).toEqual([['', 'x', '']]);
+  });
+});
+
+describe('parseCsvRecords', () => {
+  it('keys trimmed values by header, skipping notes before the header row', () => {
+    const csv = 'Notes:\n"Exported by LinkedIn"\n\nFirst Name , Last Name\n Jane ,Smith\nJohn\n';
+    expect(parseCsvRecords(csv, 'First Name')).toEqual([
+      { 'First Name': 'Jane', 'Last Name': 'Smith' },
+      { 'First Name': 'John', 'Last Name': '' },
+    ]);
+  });
+
+  it('returns null without a header row', () => {
+    expect(parseCsvRecords('a,b\n1,2', 'First Name')).toBeNull();
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { formatInlineMarkup, parseInlineMarkup } from '../../src/utils/inline-markup.js';
+
+describe('parseInlineMarkup', () => {
+  it('splits bold and italic spans', () => {
+    expect(parseInlineMarkup('Led **migration** to _Go_')).toEqual({
+      text: 'Led migration to Go',
+      spans: [{ text: 'Led ' }, { text: 'migration', bold: true }, { text: ' to ' }, { text: 'Go', italic: true }],
+      unclosed: [],
+    });
+  });
+
+  it.each(['snake_case_name', '2 * 3 = 6', 'C:\\Users', '*'])('keeps %s verbatim', text => {
+    expect(parseInlineMarkup(text)).toEqual({ text, spans: [{ text }], unclosed: [] });
+  });
+
+  it('reports markers without a closing marker', () => {
+    expect(parseInlineMarkup('Use **bold').unclosed).toEqual(['**']);
+    expect(parseInlineMarkup('Use _italic').unclosed).toEqual(['_']);
+  });
+
+  it('reads escaped markers as literal text', () => {
+    expect(parseInlineMarkup('Wrapped \\*\\*kwargs handlers')).toEqual({
+      text: 'Wrapped **kwargs handlers',
+      spans: [{ text: 'Wrapped **kwargs handlers' }],
+      unclosed: [],
+    });
+    expect(parseInlineMarkup('**a**\\*').spans).toEqual([{ text: 'a', bold: true }, { text: '*' }]);
+  });
+});
+
+describe('formatInlineMarkup', () => {
+  it.each([
+    'Led **migration** to _Go_',
+    'Wrapped \\*\\*kwargs handlers',
+    'Use \\_italic',
+    'x \\_y\\_ z',
+    'snake_case_name',
+    'C:\\Users',
+    '**a**\\*',
+  ])('round-trips %s', text => {
+    const { spans } = parseInlineMarkup(text);
+    expect(formatInlineMarkup(spans)).toBe(text);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { escapeXml, parseXml, serializeXml, xmlElement, xmlText } from '../../src/utils/xml.js';
+
+describe('escapeXml', () => {
+  it('escapes markup characters and drops characters XML 1.0 forbids', () => {
+    expect(escapeXml(`<a href="x">Tom & 'Jerry'</a>\u0001`)).toBe(
+      '&lt;a href=&quot;x&quot;&gt;Tom &amp; &apos;Jerry&apos;&lt;/a&gt;'
+    );
+  });
+});
+
+describe('serializeXml', () => {
+  it('writes an indented document with a declaration', () => {
+    const root = xmlElement('root', [xmlText('name', 'A & B', { lang: 'en' }), xmlElement('empty')], { id: '1' });
+    expect(serializeXml(root)).toBe([
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<root id="1">',
+      '  <name lang="en">A &amp; B</name>',
+      '  <empty/>',
+      '</root>',
+      '',
+    ].join('\n'));
+  });
+
+  it('round-trips through parseXml', () => {
+    const root = xmlElement('hr:Candidate', [
+      xmlText('hr:Name', 'Zoë <Łukasiewicz> "Q"'),
+      xmlElement('hr:List', [xmlText('hr:Item', '1'), xmlText('hr:Item', '2')]),
+    ], { 'xmlns:hr': 'http://example.com/hr' });
+    expect(parseXml(serializeXml(root))).toEqual(root);
+  });
+});
+
+describe('parseXml', () => {
+  it('decodes entity and character references', () => {
+    const root = parseXml('<a t="&#x41;&amp;&#66;">&lt;&gt;&quot;&apos;&#233;</a>');
+    expect(root.attributes.t).toBe('A&B');
+    expect(root.text).toBe('<>"\'é');
+  });
+
+  it('skips comments and the declaration', () => {
+    const root = parseXml('<?xml version="1.0"?>\n<!-- note --><a><!-- inner --><b/></a>\n<!-- end -->');
+    expect(root.children.map(child => child.name)).toEqual(['b']);
+  });
+
+  it.each([
+    ['mismatched closing tag', '<a><b></a></b>', /Expected <\/b>/],
+    ['unclosed element', '<a><b/>', /Unclosed element a/],
+    ['duplicate attribute', '<a x="1" x="2"/>', /Duplicate attribute x/],
+    ['unquoted attribute', '<a x=1/>', /Expected quoted value/],
+    ['mixed content', '<a>text<b/></a>', /Mixed content/],
+    ['unknown entity', '<a>&nbsp;</a>', /Unknown entity/],
+    ['content after the root', '<a/><b/>', /Content after the root/],
+  ])('rejects %s', (_, xml, message) => {
+    expect(() => parseXml(xml)).toThrow(message);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { readZipEntries, readZipEntry } from '../../src/utils/zip.js';
+import { buildZip } from '../fixtures/zip.js';
+
+describe('readZipEntries', () => {
+  it('lists entries in central-directory order', () => {
+    const zip = buildZip([
+      { name: 'Profile.csv', content: 'a' },
+      { name: 'Données/Positions.csv', content: 'bb', deflate: false },
+    ]);
+    const entries = readZipEntries(zip);
+    expect(entries?.map(entry => [entry.name, entry.method, entry.uncompressedSize])).toEqual([
+      ['Profile.csv', 8, 1],
+      ['Données/Positions.csv', 0, 2],
+    ]);
+  });
+
+  it('finds the directory behind an archive comment', () => {
+    const zip = buildZip([{ name: 'a.txt', content: 'x' }]);
+    const withComment = Buffer.concat([zip, Buffer.from('comment')]);
+    withComment.writeUInt16LE(7, zip.length - 2);
+    expect(readZipEntries(withComment)?.map(entry => entry.name)).toEqual(['a.txt']);
+  });
+
+  it('returns null for data that is not a ZIP archive', () => {
+    expect(readZipEntries(Buffer.from('not a zip archive at all, just text'))).toBeNull();
+    expect(readZipEntries(new Uint8Array(4))).toBeNull();
+  });
+
+  it('returns null when the directory points past the data', () => {
+    const zip = buildZip([{ name: 'a.txt', content: 'x' }]);
+    zip.writeUInt32LE(zip.length, zip.length - 6);
+    expect(readZipEntries(zip)).toBeNull();
+  });
+});
+
+describe('readZipEntry', () => {
+  const text = 'Company Name,Title\n'.repeat(50);
+  const zip = buildZip([
+    { name: 'deflated.csv', content: text },
+    { name: 'stored.csv', content: text, deflate: false },
+  ]);
+  const entries = readZipEntries(zip) ?? [];
+
+  it('inflates deflated entries and returns stored ones as is', () => {
+    expect(entries[0].compressedSize).toBeLessThan(text.length);
+    expect(readZipEntry(zip, entries[0], 1 << 20)?.toString('utf8')).toBe(text);
+    expect(readZipEntry(zip, entries[1], 1 << 20)?.toString('utf8')).toBe(text);
+  });
+
+  it('works on a view into a larger buffer', () => {
+    const padded = Buffer.concat([Buffer.alloc(16), zip]).subarray(16);
+    const [entry] = readZipEntries(padded) ?? [];
+    expect(readZipEntry(padded, entry, 1 << 20)?.toString('utf8')).toBe(text);
+  });
+
+  it('throws when an entry exceeds the size cap', () => {
+    expect(() => readZipEntry(zip, entries[0], 100)).toThrow();
+    expect(() => readZipEntry(zip, entries[1], 100)).toThrow(/exceeds 100 bytes/);
+  });
+
+  it('returns null for encrypted entries and unknown methods', () => {
+    expect(readZipEntry(zip, { ...entries[0], encrypted: true }, 1 << 20)).toBeNull();
+    expect(readZipEntry(zip, { ...entries[0], method: 12 }, 1 << 20)).toBeNull();
+  });
+});